@@ -0,0 +1,30 @@
+/**
+ * Class fixture shared by the test suites
+ *
+ * Kept outside __tests__ so Jest does not run it as a suite of its own.
+ */
+
+import type { Class } from '@/types';
+
+/**
+ * A Spring 2027 class with free seats; override whatever a test depends on
+ */
+export function makeClass(id: string, overrides: Partial<Class> = {}): Class {
+  return {
+    id,
+    name: `Class ${id}`,
+    description: 'Test class',
+    instructor: 'Dr. Test',
+    schedule: 'Mon/Wed 10:00-11:30 AM',
+    semester: 'Spring 2027',
+    termId: 'spring-2027',
+    credits: 3,
+    prerequisites: 'None',
+    location: 'Room 1',
+    capacity: 30,
+    currentEnrollment: 0,
+    createdAt: '2027-01-01T00:00:00.000Z',
+    updatedAt: '2027-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
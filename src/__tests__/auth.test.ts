@@ -11,6 +11,7 @@ import {
   checkRateLimit,
   clearRateLimit
 } from '@/lib/auth';
+import { getRateLimitHeaders, RateLimiter } from '@/lib/rate-limit';
 
 describe('Authentication Functions Test Suite', () => {
   
@@ -105,39 +106,44 @@ describe('Authentication Functions Test Suite', () => {
   });
 
   describe('Rate Limiting', () => {
+
+    beforeAll(() => {
+      // Count in the process instead of DynamoDB
+      process.env.RATE_LIMIT_STORE = 'memory';
+    });
     
-    test('checkRateLimit - should implement rate limiting', () => {
+    test('checkRateLimit - should implement rate limiting', async () => {
       console.log('🧪 Testing checkRateLimit...');
       
       const testIdentifier = 'test-user@example.com';
       
       try {
         // Clear any existing rate limit
-        clearRateLimit(testIdentifier);
+        await clearRateLimit(testIdentifier);
         
         // First few attempts should be allowed
-        const attempt1 = checkRateLimit(testIdentifier, 3, 60000); // 3 attempts per minute
+        const attempt1 = await checkRateLimit(testIdentifier, 3, 60000); // 3 attempts per minute
         console.log('✅ Attempt 1:', attempt1);
         expect(attempt1).toBe(true);
         
-        const attempt2 = checkRateLimit(testIdentifier, 3, 60000);
+        const attempt2 = await checkRateLimit(testIdentifier, 3, 60000);
         console.log('✅ Attempt 2:', attempt2);
         expect(attempt2).toBe(true);
         
-        const attempt3 = checkRateLimit(testIdentifier, 3, 60000);
+        const attempt3 = await checkRateLimit(testIdentifier, 3, 60000);
         console.log('✅ Attempt 3:', attempt3);
         expect(attempt3).toBe(true);
         
         // Fourth attempt should be blocked
-        const attempt4 = checkRateLimit(testIdentifier, 3, 60000);
+        const attempt4 = await checkRateLimit(testIdentifier, 3, 60000);
         console.log('✅ Attempt 4 (should be blocked):', attempt4);
         expect(attempt4).toBe(false);
         
         // Clear rate limit
-        clearRateLimit(testIdentifier);
+        await clearRateLimit(testIdentifier);
         
         // Should be allowed again after clearing
-        const attempt5 = checkRateLimit(testIdentifier, 3, 60000);
+        const attempt5 = await checkRateLimit(testIdentifier, 3, 60000);
         console.log('✅ Attempt 5 (after clear):', attempt5);
         expect(attempt5).toBe(true);
         
@@ -146,5 +152,34 @@ describe('Authentication Functions Test Suite', () => {
         throw error;
       }
     });
+
+    test('RateLimiter - should keep limiters apart and report standard headers', async () => {
+      console.log('🧪 Testing RateLimiter...');
+
+      const strict = new RateLimiter('test-strict', 1, 60000);
+      const loose = new RateLimiter('test-loose', 5, 60000);
+      await strict.reset('shared-id');
+      await loose.reset('shared-id');
+
+      const first = await strict.check('shared-id');
+      expect(first.allowed).toBe(true);
+      expect(first.remaining).toBe(0);
+
+      const blocked = await strict.check('shared-id');
+      expect(blocked.allowed).toBe(false);
+
+      // The same identifier in another limiter has its own count
+      expect((await loose.check('shared-id')).allowed).toBe(true);
+
+      const headers = getRateLimitHeaders(blocked, blocked.resetAt - 30000);
+      expect(headers['RateLimit-Limit']).toBe('1');
+      expect(headers['RateLimit-Remaining']).toBe('0');
+      expect(headers['RateLimit-Reset']).toBe('30');
+      expect(headers['RateLimit-Policy']).toBe('1;w=60');
+      expect(headers['Retry-After']).toBe('30');
+      expect(getRateLimitHeaders(first)['Retry-After']).toBeUndefined();
+
+      console.log('✅ RateLimiter checked');
+    });
   });
 });
\ No newline at end of file
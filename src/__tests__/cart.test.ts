@@ -0,0 +1,162 @@
+/**
+ * Registration Cart Test Suite
+ *
+ * Tests whole-cart validation: conflicts within the cart, co-requisites
+ * taken together, capacity and the credit limit
+ */
+
+import { checkCart } from '@/lib/cart';
+import type { CartCheckContext } from '@/lib/cart';
+import { makeClass } from '@/__fixtures__/classes';
+import type { Class, Enrollment, Term } from '@/types';
+
+const TERM: Term = {
+  id: 'spring-2027',
+  name: 'Spring 2027',
+  startDate: '2027-01-15T00:00:00.000Z',
+  endDate: '2027-05-15T00:00:00.000Z',
+  registrationOpensAt: '2026-11-01T00:00:00.000Z',
+  registrationClosesAt: '2027-01-31T00:00:00.000Z',
+  addDropDeadline: '2027-02-01T00:00:00.000Z',
+  withdrawalDeadline: '2027-04-01T00:00:00.000Z',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const DURING_REGISTRATION = new Date('2026-12-01T00:00:00.000Z');
+
+function makeContext(classes: Class[], overrides: Partial<CartCheckContext> = {}): CartCheckContext {
+  return {
+    termId: TERM.id,
+    term: TERM,
+    classes: new Map(classes.map(classItem => [classItem.id, classItem])),
+    existing: new Map(),
+    student: { activeClasses: [], completedCourses: new Set() },
+    creditLimit: { category: 'full-time', minCredits: 12, maxCredits: 18, overloadApproved: false },
+    now: DURING_REGISTRATION,
+    ...overrides,
+  };
+}
+
+function issueCodes(classIds: string[], context: CartCheckContext) {
+  return checkCart(classIds, context).items.map(item => item.issue?.code ?? null);
+}
+
+describe('Registration Cart Test Suite', () => {
+
+  describe('checkCart', () => {
+
+    test('checkCart - should accept a cart with no problems', () => {
+      console.log('🧪 Testing a valid cart...');
+
+      const classes = [
+        makeClass('a', { schedule: 'Mon/Wed 10:00-11:30 AM' }),
+        makeClass('b', { schedule: 'Tue/Thu 2:00-3:30 PM', credits: 4 }),
+      ];
+
+      const result = checkCart(['a', 'b'], makeContext(classes));
+
+      expect(result.valid).toBe(true);
+      expect(result.totalCredits).toBe(7);
+      // Under the minimum is a warning, not an error
+      expect(result.belowMinimum).toBe(true);
+      expect(result.items.every(item => item.issue === null)).toBe(true);
+
+      console.log('✅ Valid cart accepted');
+    });
+
+    test('checkCart - should report conflicts between classes in the cart', () => {
+      console.log('🧪 Testing conflicts within the cart...');
+
+      const classes = [
+        makeClass('a', { schedule: 'Mon/Wed 10:00-11:30 AM' }),
+        makeClass('b', { schedule: 'Mon/Wed 11:00 AM-12:00 PM' }),
+      ];
+
+      // The class added first keeps its place
+      expect(issueCodes(['a', 'b'], makeContext(classes))).toEqual([null, 'SCHEDULE_CONFLICT']);
+
+      console.log('✅ Cart conflicts reported');
+    });
+
+    test('checkCart - should count active classes and the cart towards the credit limit', () => {
+      console.log('🧪 Testing the credit limit...');
+
+      const active = makeClass('active', { schedule: 'Fri 9:00-11:00 AM', credits: 6 });
+      const classes = [
+        makeClass('a', { schedule: 'Mon/Wed 10:00-11:30 AM', credits: 4 }),
+        makeClass('b', { schedule: 'Tue/Thu 2:00-3:30 PM', credits: 4 }),
+      ];
+
+      const context = makeContext(classes, {
+        student: { activeClasses: [active], completedCourses: new Set() },
+        creditLimit: { category: 'part-time', minCredits: 0, maxCredits: 12, overloadApproved: false },
+      });
+      const result = checkCart(['a', 'b'], context);
+
+      expect(result.items.map(item => item.issue?.code ?? null)).toEqual([null, 'CREDIT_LIMIT_EXCEEDED']);
+      expect(result.totalCredits).toBe(10);
+      expect(result.valid).toBe(false);
+
+      console.log('✅ Credit limit enforced');
+    });
+
+    test('checkCart - should let a co-requisite be satisfied by another class in the cart', () => {
+      console.log('🧪 Testing co-requisites in the cart...');
+
+      const classes = [
+        makeClass('lab', {
+          schedule: 'Fri 1:00-3:00 PM',
+          courseCode: 'CHEM 101L',
+          corequisiteRules: { course: 'CHEM 101' },
+        }),
+        makeClass('lecture', { schedule: 'Mon/Wed 10:00-11:30 AM', courseCode: 'CHEM 101' }),
+      ];
+
+      expect(issueCodes(['lab', 'lecture'], makeContext(classes))).toEqual([null, null]);
+      expect(issueCodes(['lab'], makeContext(classes))).toEqual(['COREQUISITE_NOT_MET']);
+
+      console.log('✅ Co-requisites taken together');
+    });
+
+    test('checkCart - should report full, cancelled, missing and other-term classes', () => {
+      console.log('🧪 Testing unavailable classes...');
+
+      const classes = [
+        makeClass('full', { schedule: 'Mon 9:00-10:00 AM', capacity: 10, currentEnrollment: 10 }),
+        makeClass('cancelled', { schedule: 'Tue 9:00-10:00 AM', status: 'cancelled' }),
+        makeClass('fall', { schedule: 'Wed 9:00-10:00 AM', termId: 'fall-2027' }),
+      ];
+
+      expect(issueCodes(['full', 'cancelled', 'missing', 'fall'], makeContext(classes))).toEqual([
+        'CLASS_FULL',
+        'CLASS_CANCELLED',
+        'CLASS_NOT_FOUND',
+        'WRONG_TERM',
+      ]);
+
+      console.log('✅ Unavailable classes reported');
+    });
+
+    test('checkCart - should report existing enrollments and a closed registration window', () => {
+      console.log('🧪 Testing existing enrollments and registration dates...');
+
+      const classes = [makeClass('a', { schedule: 'Mon/Wed 10:00-11:30 AM' })];
+      const enrollment: Enrollment = {
+        id: 'student@example.com-a',
+        email: 'student@example.com',
+        classId: 'a',
+        className: 'Class a',
+        enrolledAt: '2026-11-02T00:00:00.000Z',
+        status: 'active',
+      };
+
+      expect(issueCodes(['a'], makeContext(classes, { existing: new Map([['a', enrollment]]) })))
+        .toEqual(['ALREADY_ENROLLED']);
+      expect(issueCodes(['a'], makeContext(classes, { now: new Date('2027-03-01T00:00:00.000Z') })))
+        .toEqual(['REGISTRATION_CLOSED']);
+
+      console.log('✅ Existing enrollments and closed registration reported');
+    });
+  });
+});
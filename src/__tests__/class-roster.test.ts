@@ -0,0 +1,109 @@
+/**
+ * Class Roster Test Suite
+ *
+ * Tests who sees a roster, roster order and the CSV export
+ */
+
+import { canViewRoster, escapeCsvCell, getRosterFileName, orderRoster, rosterToCsv } from '@/lib/class-roster';
+import type { RosterEntry } from '@/lib/class-roster';
+import type { Enrollment } from '@/types';
+
+const enrollment = (email: string, status: Enrollment['status'], enrolledAt: string, waitlistedAt?: string): Enrollment => ({
+  id: `${email}-CS101`,
+  email,
+  classId: 'CS101',
+  className: 'Intro to CS',
+  enrolledAt,
+  status,
+  ...(waitlistedAt && { waitlistedAt }),
+});
+
+describe('Class Roster Test Suite', () => {
+
+  test('canViewRoster - should allow only the class instructor', () => {
+    console.log('🧪 Testing who sees a roster...');
+
+    expect(canViewRoster({ instructorEmail: 'prof@example.com' }, 'prof@example.com')).toBe(true);
+    expect(canViewRoster({ instructorEmail: 'prof@example.com' }, 'Prof@Example.com')).toBe(true);
+    expect(canViewRoster({ instructorEmail: 'prof@example.com' }, 'other@example.com')).toBe(false);
+    expect(canViewRoster({}, 'prof@example.com')).toBe(false);
+
+    console.log('✅ Only the instructor sees the roster');
+  });
+
+  test('orderRoster - should list enrolled students by date, then the waitlist queue', () => {
+    console.log('🧪 Testing roster order...');
+
+    const ordered = orderRoster([
+      enrollment('late@example.com', 'waitlisted', '2027-01-01T00:00:00.000Z', '2027-01-03T00:00:00.000Z'),
+      enrollment('second@example.com', 'active', '2027-01-02T00:00:00.000Z'),
+      enrollment('early@example.com', 'waitlisted', '2027-01-01T00:00:00.000Z', '2027-01-02T00:00:00.000Z'),
+      enrollment('first@example.com', 'active', '2027-01-01T00:00:00.000Z'),
+    ]);
+
+    expect(ordered.map(entry => entry.email)).toEqual([
+      'first@example.com',
+      'second@example.com',
+      'early@example.com',
+      'late@example.com',
+    ]);
+
+    console.log('✅ Roster order checked');
+  });
+
+  test('orderRoster - should break waitlist ties by enrollment id', () => {
+    console.log('🧪 Testing waitlist ties...');
+
+    const joinedAt = '2027-01-02T00:00:00.000Z';
+    const ordered = orderRoster([
+      enrollment('zed@example.com', 'waitlisted', joinedAt, joinedAt),
+      enrollment('amy@example.com', 'waitlisted', joinedAt, joinedAt),
+    ]);
+
+    expect(ordered.map(entry => entry.email)).toEqual(['amy@example.com', 'zed@example.com']);
+
+    console.log('✅ Waitlist ties have a stable order');
+  });
+
+  test('escapeCsvCell - should quote special characters and neutralise formulas', () => {
+    console.log('🧪 Testing CSV escaping...');
+
+    expect(escapeCsvCell('Ada Lovelace')).toBe('Ada Lovelace');
+    expect(escapeCsvCell('Lovelace, Ada')).toBe('"Lovelace, Ada"');
+    expect(escapeCsvCell('Ada "The Countess"')).toBe('"Ada ""The Countess"""');
+    expect(escapeCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvCell('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvCell(3)).toBe('3');
+    expect(escapeCsvCell(undefined)).toBe('');
+
+    console.log('✅ CSV escaping checked');
+  });
+
+  test('rosterToCsv - should write a header and one row per student', () => {
+    console.log('🧪 Testing CSV export...');
+
+    const roster: RosterEntry[] = [
+      { name: 'Ada Lovelace', studentId: 'S001', email: 'ada@example.com', enrolledAt: '2027-01-01T00:00:00.000Z', status: 'active' },
+      { name: 'Alan Turing', studentId: 'S002', email: 'alan@example.com', enrolledAt: '2027-01-02T00:00:00.000Z', status: 'waitlisted', waitlistPosition: 1 },
+    ];
+
+    expect(rosterToCsv(roster)).toBe(
+      'Name,Student ID,Email,Enrolled,Status,Waitlist position\r\n' +
+      'Ada Lovelace,S001,ada@example.com,2027-01-01T00:00:00.000Z,active,\r\n' +
+      'Alan Turing,S002,alan@example.com,2027-01-02T00:00:00.000Z,waitlisted,1\r\n'
+    );
+    expect(rosterToCsv([])).toBe('Name,Student ID,Email,Enrolled,Status,Waitlist position\r\n');
+
+    console.log('✅ CSV export checked');
+  });
+
+  test('getRosterFileName - should name the file after the course code', () => {
+    console.log('🧪 Testing export file names...');
+
+    expect(getRosterFileName({ id: 'CS101', courseCode: 'CS 101' }, 'csv')).toBe('roster-CS-101.csv');
+    expect(getRosterFileName({ id: 'MATH201' }, 'json')).toBe('roster-MATH201.json');
+    expect(getRosterFileName({ id: '"../x"' }, 'csv')).toBe('roster-x.csv');
+
+    console.log('✅ Export file names checked');
+  });
+});
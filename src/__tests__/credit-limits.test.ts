@@ -0,0 +1,101 @@
+/**
+ * Credit Limits Test Suite
+ *
+ * Tests how category defaults, term overrides and approved overloads combine
+ */
+
+import { resolveCreditLimit, sumTermCredits } from '@/lib/credit-limits';
+import type { Class, OverloadRequest, Term } from '@/types';
+
+const TERM: Term = {
+  id: 'spring-2027',
+  name: 'Spring 2027',
+  startDate: '2027-01-15T00:00:00.000Z',
+  endDate: '2027-05-15T00:00:00.000Z',
+  registrationOpensAt: '2026-11-01T00:00:00.000Z',
+  registrationClosesAt: '2027-01-31T00:00:00.000Z',
+  addDropDeadline: '2027-02-01T00:00:00.000Z',
+  withdrawalDeadline: '2027-04-01T00:00:00.000Z',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+function makeOverload(status: OverloadRequest['status'], requestedCredits: number): OverloadRequest {
+  return {
+    email: 'student@example.com',
+    termId: TERM.id,
+    requestedCredits,
+    reason: 'Graduating this term',
+    status,
+    createdAt: '2026-11-02T00:00:00.000Z',
+    updatedAt: '2026-11-02T00:00:00.000Z',
+  };
+}
+
+describe('Credit Limits Test Suite', () => {
+
+  describe('resolveCreditLimit', () => {
+
+    test('resolveCreditLimit - should use the category defaults', () => {
+      console.log('🧪 Testing default limits...');
+
+      expect(resolveCreditLimit(null, 'full-time')).toEqual({
+        category: 'full-time',
+        minCredits: 12,
+        maxCredits: 18,
+        overloadApproved: false,
+      });
+      expect(resolveCreditLimit(TERM, 'part-time').maxCredits).toBe(11);
+
+      console.log('✅ Defaults applied');
+    });
+
+    test('resolveCreditLimit - should prefer the term override for that category', () => {
+      console.log('🧪 Testing term overrides...');
+
+      const term: Term = { ...TERM, creditLimits: { graduate: { minCredits: 6, maxCredits: 12 } } };
+
+      expect(resolveCreditLimit(term, 'graduate')).toMatchObject({ minCredits: 6, maxCredits: 12 });
+      // Other categories keep their defaults
+      expect(resolveCreditLimit(term, 'full-time')).toMatchObject({ minCredits: 12, maxCredits: 18 });
+
+      console.log('✅ Term overrides applied');
+    });
+
+    test('resolveCreditLimit - should raise the maximum only for an approved overload', () => {
+      console.log('🧪 Testing overloads...');
+
+      expect(resolveCreditLimit(TERM, 'full-time', makeOverload('approved', 21))).toMatchObject({
+        maxCredits: 21,
+        overloadApproved: true,
+      });
+      expect(resolveCreditLimit(TERM, 'full-time', makeOverload('pending', 21)).maxCredits).toBe(18);
+      expect(resolveCreditLimit(TERM, 'full-time', makeOverload('denied', 21)).maxCredits).toBe(18);
+
+      // An approval below the current limit never lowers it
+      expect(resolveCreditLimit(TERM, 'full-time', makeOverload('approved', 15))).toMatchObject({
+        maxCredits: 18,
+        overloadApproved: false,
+      });
+
+      console.log('✅ Overloads applied');
+    });
+  });
+
+  describe('sumTermCredits', () => {
+
+    test('sumTermCredits - should count only classes in the term', () => {
+      console.log('🧪 Testing sumTermCredits...');
+
+      const classes = [
+        { termId: TERM.id, credits: 3 },
+        { termId: TERM.id, credits: 4 },
+        { termId: 'fall-2027', credits: 3 },
+      ] as Class[];
+
+      expect(sumTermCredits(classes, TERM.id)).toBe(7);
+
+      console.log('✅ Term credits summed');
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Email Verification Test Suite
+ *
+ * Tests verification link signing and the registration domain limit
+ */
+
+import {
+  createVerificationToken,
+  isRegistrationEmailAllowed,
+  readVerificationToken
+} from '@/lib/email-verification';
+import { EMAIL_VERIFICATION_CONFIG } from '@/lib/constants';
+
+const NOW = Date.parse('2027-01-01T00:00:00.000Z');
+
+describe('Email Verification Test Suite', () => {
+
+  beforeAll(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret-that-is-at-least-32-characters';
+  });
+
+  describe('Verification tokens', () => {
+
+    test('readVerificationToken - should accept a fresh token and reject expired or altered ones', () => {
+      console.log('🧪 Testing verification tokens...');
+
+      const token = createVerificationToken('student@asu.edu', NOW);
+      expect(readVerificationToken(token, NOW + 1000)).toBe('student@asu.edu');
+
+      const expiry = NOW + EMAIL_VERIFICATION_CONFIG.TOKEN_TTL * 1000;
+      expect(readVerificationToken(token, expiry)).toBeNull();
+
+      // A payload for another address cannot reuse the signature
+      const [, signature] = token.split('.');
+      const forged = Buffer.from(JSON.stringify({ email: 'admin@asu.edu', exp: expiry / 1000 })).toString('base64url');
+      expect(readVerificationToken(`${forged}.${signature}`, NOW)).toBeNull();
+      expect(readVerificationToken('not-a-token', NOW)).toBeNull();
+
+      console.log('✅ Verification tokens checked');
+    });
+  });
+
+  describe('Registration domains', () => {
+
+    test('isRegistrationEmailAllowed - should accept configured domains and their subdomains', () => {
+      console.log('🧪 Testing registration domains...');
+
+      expect(isRegistrationEmailAllowed('anyone@example.com', [])).toBe(true);
+      expect(isRegistrationEmailAllowed('student@asu.edu', ['asu.edu'])).toBe(true);
+      expect(isRegistrationEmailAllowed('student@mail.asu.edu', ['asu.edu'])).toBe(true);
+      expect(isRegistrationEmailAllowed('student@notasu.edu', ['asu.edu'])).toBe(false);
+      expect(isRegistrationEmailAllowed('student@asu.edu.example.com', ['asu.edu'])).toBe(false);
+
+      console.log('✅ Registration domains checked');
+    });
+  });
+});
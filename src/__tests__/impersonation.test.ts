@@ -0,0 +1,61 @@
+/**
+ * Impersonation Test Suite
+ *
+ * Tests who can be viewed, time limits and read-only requests
+ */
+
+import { canImpersonate, isAllowedWhileImpersonating, isImpersonationExpired } from '@/lib/impersonation';
+import { IMPERSONATION_CONFIG } from '@/lib/constants';
+
+const NOW = Date.parse('2027-01-01T00:00:00.000Z');
+
+describe('Impersonation Test Suite', () => {
+
+  test('canImpersonate - should allow only student accounts', () => {
+    console.log('🧪 Testing who can be viewed...');
+
+    expect(canImpersonate('student')).toBe(true);
+    expect(canImpersonate('instructor')).toBe(false);
+    expect(canImpersonate('advisor')).toBe(false);
+    expect(canImpersonate('admin')).toBe(false);
+
+    console.log('✅ Only students can be viewed');
+  });
+
+  test('isImpersonationExpired - should end after the maximum duration', () => {
+    console.log('🧪 Testing viewing time limits...');
+
+    const startedAt = (secondsAgo: number) => new Date(NOW - secondsAgo * 1000).toISOString();
+
+    expect(isImpersonationExpired({ impersonationStartedAt: startedAt(60) }, NOW)).toBe(false);
+    expect(isImpersonationExpired({ impersonationStartedAt: startedAt(IMPERSONATION_CONFIG.MAX_DURATION) }, NOW)).toBe(true);
+    expect(isImpersonationExpired({}, NOW)).toBe(true);
+
+    console.log('✅ Viewing time limits checked');
+  });
+
+  test('isAllowedWhileImpersonating - should allow reads and stopping only', () => {
+    console.log('🧪 Testing read-only requests...');
+
+    expect(isAllowedWhileImpersonating('GET /api/enrollments')).toBe(true);
+    expect(isAllowedWhileImpersonating('HEAD /api/classes')).toBe(true);
+    expect(isAllowedWhileImpersonating('DELETE /api/admin/impersonation')).toBe(true);
+    expect(isAllowedWhileImpersonating('POST /api/enrollments')).toBe(false);
+    expect(isAllowedWhileImpersonating('PATCH /api/users/me')).toBe(false);
+    expect(isAllowedWhileImpersonating(undefined)).toBe(false);
+
+    console.log('✅ Read-only requests checked');
+  });
+
+  test('isAllowedWhileImpersonating - should refuse the student\'s security settings', () => {
+    console.log('🧪 Testing closed security routes...');
+
+    expect(isAllowedWhileImpersonating('GET /api/users/me/sessions')).toBe(false);
+    expect(isAllowedWhileImpersonating('GET /api/users/me/two-factor')).toBe(false);
+    expect(isAllowedWhileImpersonating('GET /security')).toBe(false);
+    expect(isAllowedWhileImpersonating('GET /api/users/me')).toBe(true);
+    expect(isAllowedWhileImpersonating('GET /dashboard')).toBe(true);
+
+    console.log('✅ Security routes closed while viewing');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Migrations Test Suite
+ *
+ * Tests migration ordering and item backfill transforms
+ */
+
+import { MIGRATIONS } from '@/lib/migrations';
+import type { Migration } from '@/lib/migrations';
+import { getPendingMigrations, validateMigrations } from '@/lib/migrate';
+
+function getMigration(name: string): Migration {
+  const migration = MIGRATIONS.find(entry => entry.name === name);
+
+  if (!migration) {
+    throw new Error(`No migration named ${name}`);
+  }
+
+  return migration;
+}
+
+describe('Migrations Test Suite', () => {
+
+  describe('Ordering', () => {
+
+    test('validateMigrations - should accept the registered migrations', () => {
+      console.log('🧪 Testing registered migrations...');
+
+      expect(() => validateMigrations(MIGRATIONS)).not.toThrow();
+
+      console.log('✅ Registered migrations are ordered');
+    });
+
+    test('validateMigrations - should reject duplicate or descending versions', () => {
+      console.log('🧪 Testing migration version checks...');
+
+      const first: Migration = { version: 1, name: 'first', description: 'First' };
+      const second: Migration = { version: 2, name: 'second', description: 'Second' };
+
+      expect(() => validateMigrations([second, first])).toThrow('unique and ascending');
+      expect(() => validateMigrations([first, { ...second, version: 1 }])).toThrow('unique and ascending');
+      expect(() => validateMigrations([{ ...first, version: 0 }])).toThrow('invalid version');
+
+      console.log('✅ Bad versions rejected');
+    });
+
+    test('getPendingMigrations - should skip applied versions and keep order', () => {
+      console.log('🧪 Testing getPendingMigrations...');
+
+      const pending = getPendingMigrations(MIGRATIONS, new Set([1, 3]));
+
+      expect(pending.map(migration => migration.version)).toEqual(
+        MIGRATIONS.map(migration => migration.version).filter(version => version !== 1 && version !== 3)
+      );
+
+      console.log('✅ Pending migrations in order');
+    });
+  });
+
+  describe('Backfills', () => {
+
+    test('enrollment-updated-at - should use the latest lifecycle timestamp', () => {
+      console.log('🧪 Testing enrollment-updated-at...');
+
+      const { transform } = getMigration('enrollment-updated-at').backfill!;
+
+      expect(transform({
+        id: 'a',
+        enrolledAt: '2027-01-01T00:00:00.000Z',
+        waitlistedAt: '2027-01-01T00:00:00.000Z',
+        promotedAt: '2027-01-05T00:00:00.000Z',
+      })).toEqual({ updatedAt: '2027-01-05T00:00:00.000Z' });
+
+      // Already migrated
+      expect(transform({ id: 'a', enrolledAt: '2027-01-01T00:00:00.000Z', updatedAt: '2027-01-02T00:00:00.000Z' })).toBeNull();
+
+      console.log('✅ updatedAt backfilled');
+    });
+
+    test('class-status-and-meetings - should fill only missing attributes', () => {
+      console.log('🧪 Testing class-status-and-meetings...');
+
+      const { transform } = getMigration('class-status-and-meetings').backfill!;
+
+      const changes = transform({ id: '1', schedule: 'Mon/Wed 10:00-11:30 AM' });
+      expect(changes?.status).toBe('active');
+      expect(Array.isArray(changes?.meetings)).toBe(true);
+
+      expect(transform({ id: '1', schedule: 'Mon/Wed 10:00-11:30 AM', status: 'cancelled', meetings: [] })).toBeNull();
+
+      // Unparseable schedules are left alone
+      expect(transform({ id: '1', schedule: 'TBA', status: 'active' })).toBeNull();
+
+      console.log('✅ Class attributes backfilled');
+    });
+
+    test('user-default-role - should only set a missing role', () => {
+      console.log('🧪 Testing user-default-role...');
+
+      const { transform } = getMigration('user-default-role').backfill!;
+
+      expect(transform({ email: 'a@example.com' })).toEqual({ role: 'student' });
+      expect(transform({ email: 'a@example.com', role: 'admin' })).toBeNull();
+
+      console.log('✅ Roles backfilled');
+    });
+  });
+});
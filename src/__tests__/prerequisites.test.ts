@@ -0,0 +1,47 @@
+/**
+ * Prerequisite Rules Test Suite
+ *
+ * Tests evaluation and explanation of course requirements
+ */
+
+import {
+  evaluateRequirement,
+  describeRequirement,
+  normalizeCourseCode
+} from '@/lib/prerequisites';
+import type { CourseRequirement } from '@/types';
+
+describe('Prerequisite Rules Test Suite', () => {
+
+  test('normalizeCourseCode - should treat spacing and case as equal', () => {
+    console.log('🧪 Testing normalizeCourseCode...');
+
+    expect(normalizeCourseCode('cs101')).toBe('CS 101');
+    expect(normalizeCourseCode(' CS   101 ')).toBe('CS 101');
+  });
+
+  test('evaluateRequirement - should evaluate single courses', () => {
+    console.log('🧪 Testing evaluateRequirement with a single course...');
+
+    const rule: CourseRequirement = { course: 'CS 101' };
+
+    expect(evaluateRequirement(rule, new Set(['CS 101']))).toEqual({ met: true });
+    expect(evaluateRequirement(rule, new Set())).toEqual({ met: false, missing: 'CS 101' });
+  });
+
+  test('evaluateRequirement - should explain unmet AND/OR groups', () => {
+    console.log('🧪 Testing evaluateRequirement with groups...');
+
+    const rule: CourseRequirement = {
+      allOf: [
+        { course: 'CS 101' },
+        { anyOf: [{ course: 'WEB 101' }, { course: 'DB 110' }] },
+      ],
+    };
+
+    expect(describeRequirement(rule)).toBe('CS 101 and (WEB 101 or DB 110)');
+    expect(evaluateRequirement(rule, new Set(['CS 101', 'DB 110'])).met).toBe(true);
+    expect(evaluateRequirement(rule, new Set(['WEB 101'])).missing).toBe('CS 101');
+    expect(evaluateRequirement(rule, new Set(['CS 101'])).missing).toBe('one of (WEB 101 or DB 110)');
+  });
+});
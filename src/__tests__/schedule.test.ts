@@ -0,0 +1,80 @@
+/**
+ * Schedule Parsing Test Suite
+ *
+ * Tests schedule parsing and conflict detection
+ */
+
+import {
+  parseSchedule,
+  meetingsOverlap,
+  findScheduleConflict
+} from '@/lib/schedule';
+import { makeClass } from '@/__fixtures__/classes';
+
+describe('Schedule Parsing Test Suite', () => {
+
+  describe('parseSchedule', () => {
+
+    test('parseSchedule - should parse the catalog formats', () => {
+      console.log('🧪 Testing parseSchedule...');
+
+      expect(parseSchedule('Mon/Wed 10:00-11:30 AM')).toEqual([
+        { days: ['Mon', 'Wed'], startTime: '10:00', endTime: '11:30' },
+      ]);
+
+      expect(parseSchedule('Tue/Thu 2:00-3:30 PM')).toEqual([
+        { days: ['Tue', 'Thu'], startTime: '14:00', endTime: '15:30' },
+      ]);
+
+      expect(parseSchedule('Wed/Fri 1:00-2:30 PM')).toEqual([
+        { days: ['Wed', 'Fri'], startTime: '13:00', endTime: '14:30' },
+      ]);
+    });
+
+    test('parseSchedule - should handle compact days, noon crossings and multiple patterns', () => {
+      console.log('🧪 Testing parseSchedule edge cases...');
+
+      expect(parseSchedule('MWF 9:00-9:50 AM')[0].days).toEqual(['Mon', 'Wed', 'Fri']);
+      expect(parseSchedule('TTh 11:00-12:15 PM')).toEqual([
+        { days: ['Tue', 'Thu'], startTime: '11:00', endTime: '12:15' },
+      ]);
+      expect(parseSchedule('Mon 13:00-14:00; Fri 9:00 AM-12:00 PM')).toHaveLength(2);
+    });
+
+    test('parseSchedule - should return no patterns for unreadable text', () => {
+      console.log('🧪 Testing parseSchedule with invalid input...');
+
+      expect(parseSchedule('TBA')).toEqual([]);
+      expect(parseSchedule('Mon/Wed 3:00-2:00 PM')).toEqual([]);
+      expect(parseSchedule('')).toEqual([]);
+    });
+  });
+
+  describe('Conflict Detection', () => {
+
+    test('meetingsOverlap - should require a shared day, time and date range', () => {
+      console.log('🧪 Testing meetingsOverlap...');
+
+      const base = { days: ['Mon' as const], startTime: '10:00', endTime: '11:00' };
+
+      expect(meetingsOverlap(base, { ...base, startTime: '10:30', endTime: '11:30' })).toBe(true);
+      expect(meetingsOverlap(base, { ...base, startTime: '11:00', endTime: '12:00' })).toBe(false);
+      expect(meetingsOverlap(base, { ...base, days: ['Tue'] })).toBe(false);
+      expect(meetingsOverlap(
+        { ...base, startDate: '2024-08-22', endDate: '2024-10-10' },
+        { ...base, startDate: '2024-10-14', endDate: '2024-12-06' }
+      )).toBe(false);
+    });
+
+    test('findScheduleConflict - should name the conflicting class', () => {
+      console.log('🧪 Testing findScheduleConflict...');
+
+      const webDev = makeClass('1', { name: 'Web Development 101', schedule: 'Mon/Wed 10:00-11:30 AM' });
+      const databases = makeClass('2', { name: 'Database Basics', schedule: 'Tue/Thu 2:00-3:30 PM' });
+      const security = makeClass('3', { name: 'Cybersecurity Fundamentals', schedule: 'Wed/Fri 11:00 AM-12:30 PM' });
+
+      expect(findScheduleConflict(security, [databases])).toBeNull();
+      expect(findScheduleConflict(security, [databases, webDev])?.name).toBe('Web Development 101');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Session Registry Test Suite
+ *
+ * Tests device descriptions and session checks
+ */
+
+import { describeDevice, isSessionActive } from '@/lib/session-registry';
+
+const NOW = Date.parse('2027-01-01T00:00:00.000Z');
+
+describe('Session Registry Test Suite', () => {
+
+  test('describeDevice - should name the browser and operating system', () => {
+    console.log('🧪 Testing device descriptions...');
+
+    expect(describeDevice(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0'
+    )).toBe('Edge on Windows');
+    expect(describeDevice(
+      'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_2) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.2 Safari/605.1.15'
+    )).toBe('Safari on macOS');
+    expect(describeDevice(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_2 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) CriOS/120.0.0.0 Mobile/15E148 Safari/604.1'
+    )).toBe('Chrome on iOS');
+    expect(describeDevice('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')).toBe('Firefox on Linux');
+    expect(describeDevice('curl/8.4.0')).toBe('Unknown device');
+
+    console.log('✅ Devices described');
+  });
+
+  test('isSessionActive - should refuse revoked and expired sessions', () => {
+    console.log('🧪 Testing session checks...');
+
+    expect(isSessionActive({ expiresAt: '2027-01-01T01:00:00.000Z' }, NOW)).toBe(true);
+    expect(isSessionActive({ expiresAt: '2027-01-01T00:00:00.000Z' }, NOW)).toBe(false);
+    expect(isSessionActive({ expiresAt: '2027-01-01T01:00:00.000Z', revokedAt: '2026-12-31T23:00:00.000Z' }, NOW)).toBe(false);
+
+    console.log('✅ Session checks done');
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Storage Adapter Test Suite
+ *
+ * Tests the in-memory adapter against the storage contract
+ */
+
+import { createMemoryStorage } from '@/lib/storage/memory';
+import { ClassFullError, ConflictError, NotFoundError } from '@/lib/db-errors';
+import { makeClass } from '@/__fixtures__/classes';
+import type { AuditEntry, Enrollment, UserSession } from '@/types';
+
+const storage = createMemoryStorage();
+
+// The store is shared by the process, so every test uses its own class
+
+function makeEnrollment(email: string, classId: string, status: Enrollment['status']): Enrollment {
+  return {
+    id: `${email}-${classId}`,
+    email,
+    classId,
+    className: `Storage Test ${classId}`,
+    enrolledAt: '2027-01-02T00:00:00.000Z',
+    ...(status === 'waitlisted' && { waitlistedAt: '2027-01-02T00:00:00.000Z' }),
+    status,
+  };
+}
+
+describe('Storage Adapter Test Suite', () => {
+
+  describe('Seed data', () => {
+
+    test('memory adapter - should start from the seed catalog', async () => {
+      console.log('🧪 Testing memory seed data...');
+
+      const classes = await storage.listClasses();
+      expect(classes.length).toBeGreaterThan(0);
+      expect(classes[0].meetings?.length).toBeGreaterThan(0);
+      expect(await storage.getTerm('spring-2027')).not.toBeNull();
+
+      console.log('✅ Seed data loaded');
+    });
+  });
+
+  describe('Seat counting', () => {
+
+    test('enroll - should take seats until the class is full', async () => {
+      console.log('🧪 Testing enroll...');
+
+      await storage.createClass(makeClass('storage-1', { capacity: 1 }));
+      await storage.enroll(makeEnrollment('a@example.com', 'storage-1', 'active'));
+
+      await expect(storage.enroll(makeEnrollment('a@example.com', 'storage-1', 'active')))
+        .rejects.toThrow('User is already enrolled in this class');
+      await expect(storage.enroll(makeEnrollment('b@example.com', 'storage-1', 'active')))
+        .rejects.toBeInstanceOf(ClassFullError);
+
+      expect((await storage.getClass('storage-1'))?.currentEnrollment).toBe(1);
+
+      console.log('✅ Seats are never overbooked');
+    });
+
+    test('joinWaitlist - should only accept entries while the class is full', async () => {
+      console.log('🧪 Testing joinWaitlist...');
+
+      await storage.createClass(makeClass('storage-2', { capacity: 1 }));
+
+      await expect(storage.joinWaitlist(makeEnrollment('a@example.com', 'storage-2', 'waitlisted')))
+        .rejects.toBeInstanceOf(ConflictError);
+
+      await storage.enroll(makeEnrollment('a@example.com', 'storage-2', 'active'));
+      await storage.joinWaitlist(makeEnrollment('b@example.com', 'storage-2', 'waitlisted'));
+
+      const waitlist = await storage.listEnrollmentsByClass('storage-2', ['waitlisted']);
+      expect(waitlist.map(entry => entry.email)).toEqual(['b@example.com']);
+
+      console.log('✅ Waitlist only fills behind a full class');
+    });
+
+    test('enroll and joinWaitlist - should refuse a cancelled class', async () => {
+      console.log('🧪 Testing cancelled classes...');
+
+      await storage.createClass(makeClass('storage-cancelled', { capacity: 1, status: 'cancelled' }));
+
+      await expect(storage.enroll(makeEnrollment('a@example.com', 'storage-cancelled', 'active')))
+        .rejects.toThrow('This class has been cancelled');
+      await expect(storage.joinWaitlist(makeEnrollment('a@example.com', 'storage-cancelled', 'waitlisted')))
+        .rejects.toThrow('This class has been cancelled');
+
+      expect((await storage.getClass('storage-cancelled'))?.currentEnrollment).toBe(0);
+
+      console.log('✅ Cancelled classes take no seats');
+    });
+
+    test('transferSeat - should hand a seat to the waitlist without changing the count', async () => {
+      console.log('🧪 Testing transferSeat...');
+
+      await storage.createClass(makeClass('storage-3', { capacity: 1 }));
+      const holder = makeEnrollment('a@example.com', 'storage-3', 'active');
+      const next = makeEnrollment('b@example.com', 'storage-3', 'waitlisted');
+      await storage.enroll(holder);
+      await storage.joinWaitlist(next);
+
+      expect(await storage.transferSeat(holder, next, 'dropped')).toBe(true);
+      expect((await storage.getEnrollment(holder.id))?.status).toBe('dropped');
+      expect((await storage.getEnrollment(next.id))?.status).toBe('active');
+      expect((await storage.getClass('storage-3'))?.currentEnrollment).toBe(1);
+
+      // The holder has already left
+      await expect(storage.transferSeat(holder, next, 'dropped')).rejects.toBeInstanceOf(NotFoundError);
+
+      console.log('✅ Seat changed hands');
+    });
+
+    test('drop and promoteIntoOpenSeat - should release and refill a seat', async () => {
+      console.log('🧪 Testing drop and promoteIntoOpenSeat...');
+
+      await storage.createClass(makeClass('storage-4', { capacity: 1 }));
+      const holder = makeEnrollment('a@example.com', 'storage-4', 'active');
+      const next = makeEnrollment('b@example.com', 'storage-4', 'waitlisted');
+      await storage.enroll(holder);
+      await storage.joinWaitlist(next);
+
+      expect(await storage.promoteIntoOpenSeat(next)).toBe('full');
+
+      await storage.drop(holder, 'withdrawn');
+      const withdrawn = await storage.getEnrollment(holder.id);
+      expect(withdrawn?.status).toBe('withdrawn');
+      expect(withdrawn?.withdrawnAt).toBeDefined();
+      expect((await storage.getClass('storage-4'))?.currentEnrollment).toBe(0);
+
+      expect(await storage.promoteIntoOpenSeat(next)).toBe('promoted');
+      expect(await storage.promoteIntoOpenSeat(next)).toBe('full');
+      expect((await storage.getClass('storage-4'))?.currentEnrollment).toBe(1);
+
+      console.log('✅ Seat released and refilled');
+    });
+
+    test('updateClass - should refuse a capacity below the current enrollment', async () => {
+      console.log('🧪 Testing updateClass capacity...');
+
+      await storage.createClass(makeClass('storage-5', { capacity: 2 }));
+      await storage.enroll(makeEnrollment('a@example.com', 'storage-5', 'active'));
+      await storage.enroll(makeEnrollment('b@example.com', 'storage-5', 'active'));
+
+      await expect(storage.updateClass('storage-5', { capacity: 1 })).rejects.toBeInstanceOf(ConflictError);
+      await expect(storage.updateClass('missing', { capacity: 1 })).rejects.toBeInstanceOf(NotFoundError);
+      expect((await storage.updateClass('storage-5', { capacity: 3 })).capacity).toBe(3);
+
+      console.log('✅ Capacity guarded');
+    });
+  });
+
+  describe('Isolation', () => {
+
+    test('reads - should return copies of stored records', async () => {
+      console.log('🧪 Testing record isolation...');
+
+      await storage.createClass(makeClass('storage-6', { capacity: 5 }));
+      const classItem = await storage.getClass('storage-6');
+      classItem!.currentEnrollment = 99;
+
+      expect((await storage.getClass('storage-6'))?.currentEnrollment).toBe(0);
+
+      console.log('✅ Stored data unchanged by callers');
+    });
+  });
+
+  describe('Audit log', () => {
+
+    test('listAuditEntries - should return one entity\'s entries in time order within the range', async () => {
+      console.log('🧪 Testing audit log queries...');
+
+      const entry = (id: string, entityId: string, timestamp: string): AuditEntry => ({
+        id,
+        timestamp,
+        actor: 'admin@example.com',
+        action: 'enrollment.drop',
+        entityType: 'enrollment',
+        entityId,
+      });
+
+      await storage.appendAuditEntry(entry('audit-2', 'a@example.com-audit', '2027-01-03T00:00:00.000Z'));
+      await storage.appendAuditEntry(entry('audit-1', 'a@example.com-audit', '2027-01-02T00:00:00.000Z'));
+      await storage.appendAuditEntry(entry('audit-3', 'b@example.com-audit', '2027-01-02T00:00:00.000Z'));
+
+      // Entries are never overwritten
+      await expect(storage.appendAuditEntry(entry('audit-1', 'a@example.com-audit', '2027-01-04T00:00:00.000Z')))
+        .rejects.toBeInstanceOf(ConflictError);
+
+      const all = await storage.listAuditEntries('a@example.com-audit');
+      expect(all.map(item => item.id)).toEqual(['audit-1', 'audit-2']);
+
+      const later = await storage.listAuditEntries('a@example.com-audit', { from: '2027-01-03T00:00:00.000Z' });
+      expect(later.map(item => item.id)).toEqual(['audit-2']);
+
+      console.log('✅ Audit entries listed');
+    });
+  });
+
+  describe('Password reset tokens', () => {
+
+    test('redeemPasswordResetToken - should redeem a token once and only before it expires', async () => {
+      console.log('🧪 Testing password reset tokens...');
+
+      await storage.putPasswordResetToken({
+        tokenHash: 'hash-valid',
+        email: 'reset@example.com',
+        createdAt: '2027-01-01T00:00:00.000Z',
+        expiresAt: '2027-01-01T00:30:00.000Z',
+      });
+      await storage.putPasswordResetToken({
+        tokenHash: 'hash-expired',
+        email: 'reset@example.com',
+        createdAt: '2027-01-01T00:00:00.000Z',
+        expiresAt: '2027-01-01T00:30:00.000Z',
+      });
+
+      const redeemed = await storage.redeemPasswordResetToken('hash-valid', '2027-01-01T00:10:00.000Z');
+      expect(redeemed?.email).toBe('reset@example.com');
+      expect(redeemed?.usedAt).toBe('2027-01-01T00:10:00.000Z');
+
+      // Used, expired and unknown tokens are all refused
+      expect(await storage.redeemPasswordResetToken('hash-valid', '2027-01-01T00:11:00.000Z')).toBeNull();
+      expect(await storage.redeemPasswordResetToken('hash-expired', '2027-01-01T00:31:00.000Z')).toBeNull();
+      expect(await storage.redeemPasswordResetToken('hash-unknown', '2027-01-01T00:10:00.000Z')).toBeNull();
+
+      console.log('✅ Reset tokens are single-use and expire');
+    });
+  });
+
+  describe('Failed sign-ins', () => {
+
+    test('recordFailedLogin - should count recent failures and start again after a quiet period', async () => {
+      console.log('🧪 Testing failed sign-in counts...');
+
+      await storage.createUser({
+        email: 'lockout@example.com',
+        name: 'Lockout Test',
+        studentId: 'LOCK001',
+        role: 'student',
+        passwordHash: 'hash',
+        createdAt: '2027-01-01T00:00:00.000Z',
+        updatedAt: '2027-01-01T00:00:00.000Z',
+      });
+
+      const since = '2027-01-01T00:00:00.000Z';
+      await storage.recordFailedLogin('lockout@example.com', '2027-01-01T00:01:00.000Z', since);
+      const second = await storage.recordFailedLogin('lockout@example.com', '2027-01-01T00:02:00.000Z', since);
+      expect(second.failedLoginCount).toBe(2);
+
+      // Failures before `since` are forgotten
+      const restarted = await storage.recordFailedLogin(
+        'lockout@example.com',
+        '2027-01-01T01:00:00.000Z',
+        '2027-01-01T00:45:00.000Z'
+      );
+      expect(restarted.failedLoginCount).toBe(1);
+
+      await storage.updateUser('lockout@example.com', { lockedUntil: '2027-01-01T01:15:00.000Z' });
+      const locked = await storage.listLockedUsers('2027-01-01T01:10:00.000Z');
+      expect(locked.map(user => user.email)).toContain('lockout@example.com');
+      expect(await storage.listLockedUsers('2027-01-01T01:15:00.000Z')).toEqual([]);
+
+      await expect(storage.recordFailedLogin('missing@example.com', since, since)).rejects.toThrow(NotFoundError);
+
+      console.log('✅ Failed sign-ins counted');
+    });
+  });
+
+  describe('Sign-in sessions', () => {
+
+    function makeSession(id: string, createdAt: string): UserSession {
+      return {
+        id,
+        email: 'sessions@example.com',
+        createdAt,
+        lastSeenAt: createdAt,
+        expiresAt: '2027-01-02T00:00:00.000Z',
+        purgeAt: 1800000000,
+        ip: '203.0.113.1',
+        userAgent: 'Mozilla/5.0',
+        device: 'Unknown device',
+      };
+    }
+
+    test('revokeSession - should list sessions newest first and revoke each once', async () => {
+      console.log('🧪 Testing sign-in sessions...');
+
+      await storage.putSession(makeSession('session-old', '2027-01-01T00:00:00.000Z'));
+      await storage.putSession(makeSession('session-new', '2027-01-01T01:00:00.000Z'));
+      await expect(storage.putSession(makeSession('session-old', '2027-01-01T02:00:00.000Z'))).rejects.toThrow(ConflictError);
+
+      const listed = await storage.listSessionsByEmail('sessions@example.com');
+      expect(listed.map(session => session.id)).toEqual(['session-new', 'session-old']);
+
+      expect(await storage.revokeSession('session-old', '2027-01-01T03:00:00.000Z')).toBe(true);
+      expect(await storage.revokeSession('session-old', '2027-01-01T04:00:00.000Z')).toBe(false);
+      expect(await storage.revokeSession('session-unknown', '2027-01-01T04:00:00.000Z')).toBe(false);
+      expect((await storage.getSession('session-old'))?.revokedAt).toBe('2027-01-01T03:00:00.000Z');
+
+      // Activity extends live sessions only
+      const activity = { lastSeenAt: '2027-01-01T05:00:00.000Z', expiresAt: '2027-01-02T05:00:00.000Z', purgeAt: 1800003600 };
+      await storage.touchSession('session-new', activity);
+      await storage.touchSession('session-old', activity);
+      expect((await storage.getSession('session-new'))?.expiresAt).toBe('2027-01-02T05:00:00.000Z');
+      expect((await storage.getSession('session-old'))?.expiresAt).toBe('2027-01-02T00:00:00.000Z');
+
+      // Viewing as a student is set and cleared on live sessions only
+      expect(await storage.setSessionImpersonation('session-new', {
+        impersonating: 'student@example.com',
+        impersonationStartedAt: '2027-01-01T06:00:00.000Z',
+      })).toBe(true);
+      expect((await storage.getSession('session-new'))?.impersonating).toBe('student@example.com');
+      expect(await storage.setSessionImpersonation('session-new', null)).toBe(true);
+      expect((await storage.getSession('session-new'))?.impersonating).toBeUndefined();
+      expect(await storage.setSessionImpersonation('session-old', null)).toBe(false);
+
+      console.log('✅ Sessions listed and revoked');
+    });
+  });
+});
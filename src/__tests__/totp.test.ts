@@ -0,0 +1,58 @@
+/**
+ * TOTP Test Suite
+ *
+ * Tests the RFC 6238 implementation against the RFC's own test vectors
+ */
+
+import { base32Decode, base32Encode, generateHotp, generateTotp, verifyTotp } from '@/lib/totp';
+
+// RFC 6238 appendix B uses the ASCII secret "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Test Suite', () => {
+
+  describe('base32', () => {
+
+    test('base32Encode - should round-trip and match RFC 4648', () => {
+      console.log('🧪 Testing base32...');
+
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+      expect(() => base32Decode('not base32!')).toThrow('Invalid base32 string');
+
+      console.log('✅ base32 round-trips');
+    });
+  });
+
+  describe('Codes', () => {
+
+    test('generateTotp - should match the RFC 6238 SHA-1 vectors', () => {
+      console.log('🧪 Testing TOTP vectors...');
+
+      // RFC 4226 appendix D, counter 0
+      expect(generateHotp(RFC_SECRET, 0)).toBe('755224');
+
+      // RFC 6238 appendix B, last 6 of the 8 digits
+      expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+      expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+
+      console.log('✅ TOTP vectors match');
+    });
+
+    test('verifyTotp - should allow one step of drift and return the step', () => {
+      console.log('🧪 Testing TOTP verification...');
+
+      const now = 1234567890 * 1000;
+      const step = Math.floor(1234567890 / 30);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000), now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 60 * 1000), now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+
+      console.log('✅ TOTP codes verified');
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Waitlist Promotion Test Suite
+ *
+ * Tests that a free seat goes to the first waitlisted student who can still
+ * take it, against the in-memory adapter
+ */
+
+import { createClass, enrollInClass, getEnrollment, joinWaitlist, unenrollFromClass, updateClass } from '@/lib/db';
+import { makeClass } from '@/__fixtures__/classes';
+
+process.env.STORAGE_BACKEND = 'memory';
+
+describe('Waitlist Promotion Test Suite', () => {
+
+  test('unenrollFromClass - should pass over waitlisted students with a conflict or at their credit limit', async () => {
+    console.log('🧪 Testing promotion on drop...');
+
+    const full = await createClass(makeClass('promo-1', { capacity: 1 }));
+    const sameTime = await createClass(makeClass('promo-1-clash', { schedule: full.schedule }));
+    const heavy = await createClass(makeClass('promo-1-heavy', { schedule: 'Fri 9:00-11:00 AM', credits: 16 }));
+
+    await enrollInClass('holder@example.com', full.name, full.id);
+    await joinWaitlist('amy@example.com', full.name, full.id);
+    await joinWaitlist('bob@example.com', full.name, full.id);
+    await joinWaitlist('zed@example.com', full.name, full.id);
+
+    // Since joining the waitlist, Amy took a class at the same time and Bob
+    // took enough credits that this class would put him over the limit
+    await enrollInClass('amy@example.com', sameTime.name, sameTime.id);
+    await enrollInClass('bob@example.com', heavy.name, heavy.id);
+
+    const { promoted, skipped } = await unenrollFromClass('holder@example.com', full.id);
+
+    expect(promoted?.after.email).toBe('zed@example.com');
+    expect(promoted?.after.status).toBe('active');
+    expect(skipped.map(({ enrollment }) => enrollment.email)).toEqual(['amy@example.com', 'bob@example.com']);
+    expect(skipped[0].reason).toContain(sameTime.name);
+    expect(skipped[1].reason).toContain('limit is 18');
+    expect((await getEnrollment('amy@example.com', full.id))?.status).toBe('waitlisted');
+    expect((await getEnrollment('bob@example.com', full.id))?.status).toBe('waitlisted');
+
+    console.log('✅ Ineligible students keep their place and the seat goes to the next in line');
+  });
+
+  test('updateClass - should only fill new seats with students who can take them', async () => {
+    console.log('🧪 Testing promotion on a capacity increase...');
+
+    const full = await createClass(makeClass('promo-2', { capacity: 1 }));
+    const sameTime = await createClass(makeClass('promo-2-clash', { schedule: full.schedule }));
+
+    await enrollInClass('holder@example.com', full.name, full.id);
+    await joinWaitlist('amy@example.com', full.name, full.id);
+    await enrollInClass('amy@example.com', sameTime.name, sameTime.id);
+
+    const { after, promoted, skipped } = await updateClass(full.id, { capacity: 2 });
+
+    expect(promoted).toEqual([]);
+    expect(skipped.map(({ enrollment }) => enrollment.email)).toEqual(['amy@example.com']);
+    expect(after.currentEnrollment).toBe(1);
+
+    console.log('✅ Nobody who cannot take the seat is promoted');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Audit Log API - Admin endpoint for the history of a record
+ *
+ * SECURITY FEATURES:
+ * - Requires the admin role
+ * - Input validation with Zod schemas
+ * - Read-only: the audit log cannot be changed through the API
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getAuditEntries, getEnrollmentId } from '@/lib/db';
+import { ValidationError } from '@/lib/db-errors';
+import { requireRole } from '@/lib/session';
+import { auditQuerySchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * GET /api/admin/audit - Audit entries for one record, oldest first (admin only)
+ *
+ * Query: `entityId` for any record, `email` and `classId` for a student's
+ * enrollment in a class, or `classId` alone for the class. Narrow with
+ * `action` (e.g. "enrollment.drop") and an ISO 8601 `from`/`to` range.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the matching entries
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    await requireRole('admin');
+
+    // SECURITY: Validate query parameters with Zod schema
+    const validation = validateWithSchema(
+      auditQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email, classId, action, from, to } = validation.data;
+    const entityId = validation.data.entityId
+      ?? (email ? getEnrollmentId(email, classId!) : classId!);
+
+    const entries = (await getAuditEntries(entityId, { from, to }))
+      .filter(entry => !action || entry.action === action);
+
+    return createApiResponse(
+      { entityId, entries },
+      'Audit entries retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Get audit entries error:', error);
+    return createErrorResponse('Failed to get audit entries', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Enrollment Override API - Admin endpoint for enrolling or dropping a student
+ *
+ * SECURITY FEATURES:
+ * - Requires the admin role
+ * - Input validation with Zod schemas
+ * - Every override is recorded in the audit log with its reason
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeEnrollmentAudit, writePromotionAudits } from '@/lib/audit';
+import { notifyPassedOverOnWaitlist } from '@/lib/notifications';
+import { HTTP_STATUS } from '@/lib/constants';
+import { enrollInClass, getClassById, getEnrollment, getUserByEmail, unenrollFromClass } from '@/lib/db';
+import { ClassFullError, NotFoundError } from '@/lib/db-errors';
+import { requireRole } from '@/lib/session';
+import { enrollmentOverrideSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * POST /api/admin/enrollments - Enroll or drop a student, overriding the usual rules (admin only)
+ *
+ * Body: `{ "email", "classId", "action": "enroll" | "drop", "reason" }`.
+ * Enrolling skips registration dates, requisites, schedule conflicts and the
+ * credit limit but still needs a free seat. Dropping ignores the add/drop and
+ * withdrawal deadlines and leaves no withdrawal on the student's record.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the enrollment after the override
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(enrollmentOverrideSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email, classId, action, reason } = validation.data;
+    const auditContext = { actor: admin.email, requestId: getRequestId(request), reason };
+
+    const [student, classItem] = await Promise.all([getUserByEmail(email), getClassById(classId)]);
+
+    if (!student) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (!classItem) {
+      return createErrorResponse('Class not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const existing = await getEnrollment(email, classId);
+
+    if (action === 'drop') {
+      if (!existing || (existing.status !== 'active' && existing.status !== 'waitlisted')) {
+        return createErrorResponse('Enrollment not found', HTTP_STATUS.NOT_FOUND);
+      }
+
+      const { before, after, promoted, skipped } = await unenrollFromClass(email, classId, 'dropped');
+
+      await writeEnrollmentAudit(auditContext, 'enrollment.override_drop', before, after);
+      await writePromotionAudits(auditContext, promoted ? [promoted] : []);
+      await notifyPassedOverOnWaitlist(skipped);
+
+      return createApiResponse(
+        { enrollment: after },
+        'Student dropped from class',
+        HTTP_STATUS.OK
+      );
+    }
+
+    if (classItem.status === 'cancelled') {
+      return createErrorResponse(`${classItem.name} has been cancelled`, HTTP_STATUS.CONFLICT);
+    }
+
+    if (existing?.status === 'active') {
+      return createErrorResponse('Student is already enrolled in this class', HTTP_STATUS.CONFLICT);
+    }
+
+    if (existing?.status === 'waitlisted') {
+      return createErrorResponse(
+        'Student is on the waitlist for this class. Drop them from the waitlist or raise the capacity.',
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    try {
+      const enrollment = await enrollInClass(email, classItem.name, classId);
+
+      await writeEnrollmentAudit(auditContext, 'enrollment.override_enroll', existing, enrollment);
+
+      return createApiResponse(
+        { enrollment },
+        'Student enrolled in class',
+        HTTP_STATUS.CREATED
+      );
+    } catch (enrollError) {
+      if (enrollError instanceof ClassFullError) {
+        return createErrorResponse(
+          'This class is full. Raise its capacity to add the student.',
+          HTTP_STATUS.CONFLICT
+        );
+      }
+
+      throw enrollError;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    // Dropped concurrently by another request
+    if (error instanceof NotFoundError) {
+      return createErrorResponse('Enrollment not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    console.error('Enrollment override error:', error);
+    return createErrorResponse('Enrollment override failed', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
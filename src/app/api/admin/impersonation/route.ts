@@ -0,0 +1,161 @@
+/**
+ * Impersonation API - Admin endpoint for viewing the app as a student
+ *
+ * SECURITY FEATURES:
+ * - Starting requires the admin role; only student accounts can be viewed
+ * - Viewing is tied to the admin's own session and ends with it
+ * - The session stays read-only while viewing (enforced by the middleware)
+ * - Starting, stopping and every request in between are recorded in the
+ *   audit log with the admin as the actor
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS, IMPERSONATION_CONFIG } from '@/lib/constants';
+import { getUserByEmail, setSessionImpersonation } from '@/lib/db';
+import { canImpersonate } from '@/lib/impersonation';
+import { getCurrentSessionId, requireAuth, requireRole } from '@/lib/session';
+import { impersonationStartSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * POST /api/admin/impersonation - Start viewing as a student (admin only)
+ *
+ * Body: `{ "email", "reason" }`. The client then refreshes its session
+ * (`update()` from next-auth/react) to pick the student up. Viewing ends by
+ * itself after IMPERSONATION_CONFIG.MAX_DURATION.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the student being viewed
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role. While viewing as a student the role is
+    // the student's, so viewing has to stop before viewing someone else.
+    const admin = await requireRole('admin');
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(impersonationStartSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email, reason } = validation.data;
+
+    const student = await getUserByEmail(email);
+    if (!student) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (!canImpersonate(student.role)) {
+      return createErrorResponse('Only student accounts can be viewed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const sessionId = await getCurrentSessionId();
+    if (!sessionId || !(await setSessionImpersonation(sessionId, student.email))) {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: 'impersonation.start',
+      entityType: 'user',
+      entityId: student.email,
+      subject: student.email,
+      reason,
+      after: { sessionId, maxDurationSeconds: IMPERSONATION_CONFIG.MAX_DURATION },
+    });
+
+    return createApiResponse(
+      { email: student.email, name: student.name },
+      `Viewing as ${student.name}`,
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Start impersonation error:', error);
+    return createErrorResponse('Failed to start viewing as the student', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * DELETE /api/admin/impersonation - Stop viewing as a student
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse confirming the admin is back on their own account
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication; the admin is impersonatedBy
+    const user = await requireAuth();
+
+    if (!user.impersonatedBy) {
+      return createErrorResponse('You are not viewing as another user', HTTP_STATUS.CONFLICT);
+    }
+
+    const sessionId = await getCurrentSessionId();
+    if (!sessionId || !(await setSessionImpersonation(sessionId, null))) {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    await writeAuditEntry({
+      actor: user.impersonatedBy,
+      requestId: getRequestId(request),
+      action: 'impersonation.end',
+      entityType: 'user',
+      entityId: user.email,
+      subject: user.email,
+      after: { sessionId },
+    });
+
+    return createApiResponse(
+      { email: user.impersonatedBy },
+      'Stopped viewing as another user',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Stop impersonation error:', error);
+    return createErrorResponse('Failed to stop viewing as the student', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Account Lockout API - Admin endpoint for viewing and lifting sign-in locks
+ *
+ * SECURITY FEATURES:
+ * - Requires the admin role
+ * - Input validation with Zod schemas
+ * - Never returns password hashes or other account secrets
+ * - Every unlock is recorded in the audit log with its reason
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { getAccountLocks, isAccountLocked } from '@/lib/account-lockout';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getUserByEmail, unlockUser } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+import { accountUnlockSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * GET /api/admin/lockouts - Accounts locked out of sign-in now, soonest unlock first (admin only)
+ *
+ * Suspicious sign-in signals are in the audit log: `GET /api/admin/audit`
+ * with `entityId` set to an email (action "security.new_login_ip") or an IP
+ * address (action "security.ip_many_accounts").
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the locked accounts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    await requireRole('admin');
+
+    const lockouts = await getAccountLocks();
+
+    return createApiResponse(
+      { lockouts },
+      'Locked accounts retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Get lockouts error:', error);
+    return createErrorResponse('Failed to get locked accounts', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * DELETE /api/admin/lockouts - Lift a sign-in lock (admin only)
+ *
+ * Body: `{ "email", "reason" }`. Also forgets recent failures, so the next
+ * lock starts from the shortest duration again.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse confirming the unlock
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(accountUnlockSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email, reason } = validation.data;
+
+    const user = await getUserByEmail(email);
+    if (!user) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (!isAccountLocked(user)) {
+      return createErrorResponse('This account is not locked', HTTP_STATUS.CONFLICT);
+    }
+
+    await unlockUser(user.email);
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: 'user.unlock',
+      entityType: 'user',
+      entityId: user.email,
+      subject: user.email,
+      reason,
+      before: { lockedUntil: user.lockedUntil, lockoutCount: user.lockoutCount },
+    });
+
+    return createApiResponse(
+      { email: user.email },
+      'Account unlocked',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Unlock account error:', error);
+    return createErrorResponse('Failed to unlock account', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
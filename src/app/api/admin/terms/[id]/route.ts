@@ -0,0 +1,111 @@
+/**
+ * Term API - Admin endpoint to change a term's name, dates and credit limits
+ * 
+ * SECURITY FEATURES:
+ * - Requires the admin role
+ * - Input validation with Zod schemas
+ * - Every change is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getTermById, updateTerm } from '@/lib/db';
+import { NotFoundError, ValidationError } from '@/lib/db-errors';
+import { requireRole } from '@/lib/session';
+import { termIdSchema, termUpdateSchema, validateWithSchema } from '@/lib/validations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/admin/terms/[id] - Change the term's name, dates or credit
+ * limits per student category (admin only). Fields left out are unchanged;
+ * credit limit categories left out use the default limits.
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the updated term
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['PATCH'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const { id } = await context.params;
+    if (!termIdSchema.safeParse(id).success) {
+      return createErrorResponse('Invalid term ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const body = await parseRequestBody(request, 4 * 1024); // 4KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(termUpdateSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const before = await getTermById(id);
+    if (!before) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const updates = validation.data;
+    const term = await updateTerm(id, updates);
+    const changed = Object.keys(updates) as (keyof typeof updates)[];
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: changed.every(field => field === 'creditLimits') ? 'term.credit_limits' : 'term.update',
+      entityType: 'term',
+      entityId: id,
+      before: Object.fromEntries(changed.map(field => [field, before[field] ?? null])),
+      after: Object.fromEntries(changed.map(field => [field, term[field] ?? null])),
+    });
+
+    return createApiResponse({ term }, 'Term updated', HTTP_STATUS.OK);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    if (error instanceof NotFoundError) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Update term error:', error);
+    return createErrorResponse('Failed to update term', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Terms API - Admin endpoints for academic terms
+ *
+ * SECURITY FEATURES:
+ * - Requires the admin role
+ * - Input validation with Zod schemas
+ * - Every change is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { createTerm, getAllTerms } from '@/lib/db';
+import { ConflictError, ValidationError } from '@/lib/db-errors';
+import { requireRole } from '@/lib/session';
+import { termSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * GET /api/admin/terms - List every term, earliest first (admin only)
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the terms
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    await requireRole('admin');
+
+    const terms = await getAllTerms();
+
+    return createApiResponse({ terms }, 'Terms retrieved successfully', HTTP_STATUS.OK);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('List terms error:', error);
+    return createErrorResponse('Failed to retrieve terms', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * POST /api/admin/terms - Create a term with its registration dates and,
+ * optionally, its credit limits (admin only)
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the created term
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const body = await parseRequestBody(request, 4 * 1024); // 4KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(termSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const term = await createTerm(validation.data);
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: 'term.create',
+      entityType: 'term',
+      entityId: term.id,
+      after: { ...term },
+    });
+
+    return createApiResponse({ term }, 'Term created successfully', HTTP_STATUS.CREATED);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    if (error instanceof ConflictError) {
+      return createErrorResponse('A term with this ID already exists', HTTP_STATUS.CONFLICT);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Create term error:', error);
+    return createErrorResponse('Failed to create term', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
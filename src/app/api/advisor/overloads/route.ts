@@ -0,0 +1,150 @@
+/**
+ * Overload Review API - Advisor endpoints for credit overload requests
+ * 
+ * SECURITY FEATURES:
+ * - Requires the advisor or admin role for all operations
+ * - Input validation with Zod schemas
+ * - Every decision is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getOverloadRequests, getTermById, reviewOverloadRequest } from '@/lib/db';
+import { ConflictError, NotFoundError } from '@/lib/db-errors';
+import { notifyOverloadReviewed } from '@/lib/notifications';
+import { requireRole } from '@/lib/session';
+import { overloadReviewSchema, validateWithSchema } from '@/lib/validations';
+import type { OverloadStatus } from '@/types';
+
+const OVERLOAD_STATUSES: OverloadStatus[] = ['pending', 'approved', 'denied'];
+
+/**
+ * Map errors shared by every handler to a response
+ */
+function handleOverloadError(error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+  }
+
+  if (error instanceof Error && error.message === 'Insufficient permissions') {
+    return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+  }
+
+  if (error instanceof NotFoundError) {
+    return createErrorResponse('Overload request not found', HTTP_STATUS.NOT_FOUND);
+  }
+
+  if (error instanceof ConflictError) {
+    return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+  }
+
+  console.error(`${action} overload requests error:`, error);
+  return createErrorResponse(
+    `Failed to ${action.toLowerCase()} overload requests`,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * GET /api/advisor/overloads?status= - List overload requests (advisor or admin)
+ * Status defaults to pending
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the requests, oldest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require advisor or admin role
+    await requireRole('advisor', 'admin');
+
+    const status = request.nextUrl.searchParams.get('status') ?? 'pending';
+    if (!(OVERLOAD_STATUSES as string[]).includes(status)) {
+      return createErrorResponse('Invalid status', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const overloadRequests = await getOverloadRequests(status as OverloadStatus);
+
+    return createApiResponse(
+      { overloadRequests },
+      'Overload requests retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    return handleOverloadError(error, 'Get');
+  }
+}
+
+/**
+ * PATCH /api/advisor/overloads - Approve or deny a pending request (advisor or admin)
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the reviewed request
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['PATCH'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require advisor or admin role
+    const reviewer = await requireRole('advisor', 'admin');
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(overloadReviewSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email, termId, decision, note } = validation.data;
+
+    const { before, after } = await reviewOverloadRequest(email, termId, decision, reviewer.email, note);
+
+    await writeAuditEntry({
+      actor: reviewer.email,
+      requestId: getRequestId(request),
+      action: decision === 'approved' ? 'overload.approve' : 'overload.deny',
+      entityType: 'overload',
+      entityId: `${after.email}-${termId}`,
+      subject: after.email,
+      before: { ...before },
+      after: { ...after },
+    });
+
+    await notifyOverloadReviewed(after, await getTermById(termId));
+
+    return createApiResponse(
+      { overloadRequest: after },
+      decision === 'approved' ? 'Overload approved' : 'Overload denied',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    return handleOverloadError(error, 'Review');
+  }
+}
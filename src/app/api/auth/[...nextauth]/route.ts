@@ -2,27 +2,61 @@
  * SECURITY: NextAuth.js configuration with comprehensive security measures
  * 
  * CRITICAL SECURITY FEATURES:
- * - JWT strategy for stateless sessions (scalable)
+ * - JWT strategy, with each sign-in recorded in a session registry so
+ *   sessions can be listed and revoked before the token expires
  * - HttpOnly cookies (prevents XSS token theft)
  * - Secure cookies in production (HTTPS only)
  * - SameSite: 'lax' (CSRF protection)
  * - Generic error messages (prevents account enumeration)
  * - Input validation with Zod schemas
- * - Rate limiting for authentication attempts
+ * - Rate limiting for authentication attempts from one address
+ * - Progressive account lockout after repeated failures, with suspicious
+ *   sign-in signals recorded in the audit log
+ * - Unverified email addresses cannot sign in
+ * - Optional TOTP second step, required for roles in TWO_FACTOR_REQUIRED_ROLES
+ * - Admins can view as a student; the token keeps the admin's own identity
  */
 
 import NextAuth, { type NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
-import { getUserByEmail } from '@/lib/db';
-import { verifyPassword, checkRateLimit, clearRateLimit } from '@/lib/auth';
-import { loginSchema } from '@/lib/validations';
-import { SESSION_CONFIG } from '@/lib/constants';
+import { getUserByEmail, revokeSession } from '@/lib/db';
+import { verifyPassword, checkRateLimit } from '@/lib/auth';
+import {
+  isAccountLocked,
+  recordFailedSignIn,
+  recordSuccessfulSignIn,
+  recordUnknownAccountFailure
+} from '@/lib/account-lockout';
+import { getClientIPFromHeaders } from '@/lib/api-utils';
+import { resolveImpersonation } from '@/lib/impersonation';
+import { startSession, validateSession } from '@/lib/session-registry';
+import { isTwoFactorRequired, verifySecondFactor } from '@/lib/two-factor';
+import { loginSchema, twoFactorCodeSchema } from '@/lib/validations';
+import {
+  SESSION_CONFIG,
+  DEFAULT_USER_ROLE,
+  ACCOUNT_LOCKED_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  TWO_FACTOR_REQUIRED_ERROR,
+  TWO_FACTOR_INVALID_ERROR
+} from '@/lib/constants';
+
+/**
+ * Sign-in errors the login page handles; every other failure is generic
+ */
+const REPORTED_SIGN_IN_ERRORS: string[] = [
+  ACCOUNT_LOCKED_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  TWO_FACTOR_REQUIRED_ERROR,
+  TWO_FACTOR_INVALID_ERROR,
+];
 
 /**
  * SECURITY: NextAuth configuration with comprehensive security measures
  */
 export const authOptions: NextAuthOptions = {
-  // SECURITY: Use JWT strategy for stateless, scalable sessions
+  // SECURITY: Use JWT strategy; the jwt callback checks each token's
+  // session in the registry so revoked sessions stop working
   session: {
     strategy: 'jwt',
     maxAge: SESSION_CONFIG.MAX_AGE, // 30 days
@@ -44,15 +78,26 @@ export const authOptions: NextAuthOptions = {
           label: 'Password',
           type: 'password',
         },
+        code: {
+          label: 'Authentication code',
+          type: 'text',
+        },
       },
 
       /**
        * SECURITY: Secure authorization function with comprehensive validation
        * 
        * @param credentials - User-provided login credentials
+       * @param req - Incoming request, for the client address
        * @returns User object if valid, null if invalid (GENERIC errors only)
+       * @throws Error(ACCOUNT_LOCKED_ERROR) while the account is locked; unknown
+       *         addresses lock the same way, so this reveals nothing
+       * @throws Error(EMAIL_NOT_VERIFIED_ERROR) when the password is right but the
+       *         email is unverified, so the sign-in page can offer a new link
+       * @throws Error(TWO_FACTOR_REQUIRED_ERROR) when the password is right and a
+       *         code is needed, or Error(TWO_FACTOR_INVALID_ERROR) when the code is wrong
        */
-      async authorize(credentials) {
+      async authorize(credentials, req) {
         try {
           // SECURITY: Validate input format with Zod schema
           const validationResult = loginSchema.safeParse(credentials);
@@ -64,10 +109,11 @@ export const authOptions: NextAuthOptions = {
           }
 
           const { email, password } = validationResult.data;
+          const clientIP = getClientIPFromHeaders(name => req?.headers?.[name]) || 'unknown';
 
-          // SECURITY: Rate limiting to prevent brute force attacks
-          if (!checkRateLimit(email, 5, 15 * 60 * 1000)) { // 5 attempts per 15 minutes
-            console.log(`Rate limit exceeded for email: ${email}`);
+          // SECURITY: Rate limiting to slow one address trying many accounts
+          if (!(await checkRateLimit(`ip:${clientIP}`, 50, 15 * 60 * 1000))) { // 50 attempts per 15 minutes
+            console.log(`Rate limit exceeded for IP: ${clientIP}`);
             // SECURITY: Return null with generic error (don't reveal rate limiting)
             return null;
           }
@@ -77,21 +123,64 @@ export const authOptions: NextAuthOptions = {
 
           if (!user) {
             console.log(`Login attempt for non-existent user: ${email}`);
+
+            if (await recordUnknownAccountFailure(email, clientIP)) {
+              throw new Error(ACCOUNT_LOCKED_ERROR);
+            }
+
             // SECURITY: Return null with GENERIC error (don't reveal if email exists)
             return null;
           }
 
+          // SECURITY: Refuse locked accounts before checking the password, so
+          // guesses during a lock learn nothing
+          if (isAccountLocked(user)) {
+            console.log(`Login attempt for locked user: ${email}`);
+            throw new Error(ACCOUNT_LOCKED_ERROR);
+          }
+
           // SECURITY: Verify password with bcrypt (constant-time comparison)
           const isPasswordValid = await verifyPassword(password, user.passwordHash);
 
           if (!isPasswordValid) {
             console.log(`Invalid password attempt for user: ${email}`);
+            await recordFailedSignIn(user, clientIP);
             // SECURITY: Return null with GENERIC error (don't reveal password is wrong)
             return null;
           }
 
-          // SECURITY: Clear rate limit on successful authentication
-          clearRateLimit(email);
+          // SECURITY: Only reported after the password checks out, so it
+          // reveals nothing to someone who does not know the password
+          if (!user.emailVerifiedAt) {
+            console.log(`Login attempt with unverified email: ${email}`);
+            throw new Error(EMAIL_NOT_VERIFIED_ERROR);
+          }
+
+          // SECURITY: Second step. Wrong codes count towards the lockout.
+          if (user.totpEnabledAt) {
+            const code = credentials?.code;
+
+            if (!code) {
+              throw new Error(TWO_FACTOR_REQUIRED_ERROR);
+            }
+
+            const codeResult = twoFactorCodeSchema.safeParse(code);
+
+            if (!codeResult.success || !(await verifySecondFactor(user, codeResult.data))) {
+              console.log(`Invalid two-factor code for user: ${email}`);
+              await recordFailedSignIn(user, clientIP);
+              throw new Error(TWO_FACTOR_INVALID_ERROR);
+            }
+          }
+
+          // SECURITY: Clear failures and locks on successful authentication
+          await recordSuccessfulSignIn(user, clientIP);
+
+          // SECURITY: Record the session; its id in the token lets it be revoked
+          const session = await startSession(user.email, {
+            ip: clientIP,
+            userAgent: req?.headers?.['user-agent'] || '',
+          });
 
           console.log(`Successful login for user: ${email}`);
 
@@ -101,9 +190,16 @@ export const authOptions: NextAuthOptions = {
             email: user.email,
             name: user.name,
             studentId: user.studentId,
+            role: user.role,
+            twoFactorSetupRequired: isTwoFactorRequired(user.role) && !user.totpEnabledAt,
+            sessionId: session.id,
           };
 
         } catch (error) {
+          if (error instanceof Error && REPORTED_SIGN_IN_ERRORS.includes(error.message)) {
+            throw error;
+          }
+
           // SECURITY: Log error without exposing sensitive details
           console.error('Authentication error:', error instanceof Error ? error.message : 'Unknown error');
 
@@ -133,13 +229,43 @@ export const authOptions: NextAuthOptions = {
     /**
      * SECURITY: JWT callback - Add user data to token
      * Runs whenever a JWT is created, updated, or accessed
+     *
+     * @throws Error when the token's session was revoked or has expired;
+     *         NextAuth then treats the request as signed out and clears the cookie
      */
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger }) {
       // SECURITY: Add user data to token on sign in
       if (user) {
         token.email = user.email;
         token.name = user.name;
         token.studentId = user.studentId;
+        token.role = user.role;
+        token.twoFactorSetupRequired = user.twoFactorSetupRequired;
+        token.sessionId = user.sessionId;
+      } else {
+        const registered = token.sessionId && token.email
+          ? await validateSession(token.sessionId, token.email)
+          : null;
+
+        // SECURITY: Tokens issued before the registry have no session and are refused too
+        if (!registered) {
+          throw new Error('Session is no longer active');
+        }
+
+        // SECURITY: Follow viewing as a student started or stopped on this session
+        token.impersonating = await resolveImpersonation(registered, token.impersonating);
+      }
+
+      // SECURITY: Refresh after a profile change or two-factor setup. Values
+      // come from the database, never from client-supplied session data. The
+      // role is left alone; role changes take effect at the next sign-in.
+      if (trigger === 'update' && token.email) {
+        const account = await getUserByEmail(token.email);
+
+        if (account) {
+          token.name = account.name;
+          token.twoFactorSetupRequired = isTwoFactorRequired(account.role) && !account.totpEnabledAt;
+        }
       }
 
       return token;
@@ -150,13 +276,18 @@ export const authOptions: NextAuthOptions = {
      * Runs whenever a session is checked
      */
     async session({ session, token }) {
-      // SECURITY: Add user data from token to session
+      // SECURITY: Add user data from token to session. While an admin views
+      // as a student, the student is the user and the admin is impersonatedBy.
       if (token) {
-        session.user = {
-          email: token.email as string,
-          name: token.name as string,
-          studentId: token.studentId as string,
-        };
+        session.user = token.impersonating
+          ? { ...token.impersonating, impersonatedBy: token.email as string }
+          : {
+            email: token.email as string,
+            name: token.name as string,
+            studentId: token.studentId as string,
+            role: token.role || DEFAULT_USER_ROLE,
+          };
+        session.sessionId = token.sessionId;
       }
 
       return session;
@@ -194,6 +325,11 @@ export const authOptions: NextAuthOptions = {
 
     async signOut({ token, session }) {
       console.log(`User signed out: ${token?.email || session?.user?.email}`);
+
+      // SECURITY: End the session so a copy of the token stops working too
+      if (token?.sessionId) {
+        await revokeSession(token.sessionId);
+      }
     },
 
     async createUser({ user }) {
@@ -0,0 +1,103 @@
+/**
+ * SECURITY: Forgot password API endpoint
+ *
+ * CRITICAL SECURITY FEATURES:
+ * - Input validation with Zod schemas
+ * - Rate limiting per client and per email
+ * - Same response whether or not the account exists (prevent account enumeration)
+ * - Reset links point at NEXTAUTH_URL, never at the request's Host header
+ * - Request size limits
+ */
+
+import { NextRequest } from 'next/server';
+import { requestPasswordReset } from '@/lib/password-reset';
+import { forgotPasswordSchema, validateWithSchema } from '@/lib/validations';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  parseRequestBody,
+  getAppUrl,
+  validateContentType,
+  getClientIP,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+
+const RESET_REQUESTED_MESSAGE = 'If an account exists for that email, we have sent a link to reset its password.';
+
+/**
+ * POST /api/auth/forgot-password - Email a password reset link
+ *
+ * Body: `{ "email": "..." }`
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the same message for every valid email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type header
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Rate limiting to prevent mail flooding from one client
+    const clientIP = getClientIP(request);
+    const rateLimit = await authRateLimiter.check(`password-reset-${clientIP}`);
+    if (!rateLimit.allowed) {
+      console.log(`Password reset rate limit exceeded for IP: ${clientIP}`);
+      return createRateLimitResponse(
+        'Too many password reset requests. Please try again later.',
+        rateLimit
+      );
+    }
+
+    // SECURITY: Parse and validate request body with size limit
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(forgotPasswordSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email } = validation.data;
+
+    // SECURITY: Fails (500) when NEXTAUTH_URL is missing rather than trusting the Host header
+    const appUrl = getAppUrl();
+
+    // SECURITY: Limit links per address too, so one inbox cannot be flooded
+    // from many clients. The response is the same to avoid revealing anything.
+    if ((await authRateLimiter.check(`password-reset-${email}`)).allowed) {
+      await requestPasswordReset(email, appUrl);
+    } else {
+      console.log('Password reset rate limit exceeded for an email address');
+    }
+
+    return createApiResponse(
+      { message: RESET_REQUESTED_MESSAGE },
+      RESET_REQUESTED_MESSAGE,
+      HTTP_STATUS.OK
+    );
+
+  } catch (error) {
+    // SECURITY: Log error without exposing sensitive details
+    console.error('Forgot password error:', error instanceof Error ? error.message : 'Unknown error');
+
+    // SECURITY: Return generic error message
+    return createErrorResponse(
+      'Could not process your request. Please try again later.',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
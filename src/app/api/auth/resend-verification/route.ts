@@ -0,0 +1,107 @@
+/**
+ * SECURITY: Resend verification email endpoint
+ *
+ * CRITICAL SECURITY FEATURES:
+ * - Input validation with Zod schemas
+ * - Rate limiting per client and per email
+ * - Same response whether or not the account exists or is verified (prevent account enumeration)
+ * - Links point at NEXTAUTH_URL, never at the request's Host header
+ * - Request size limits
+ */
+
+import { NextRequest } from 'next/server';
+import { getUserByEmail } from '@/lib/db';
+import { sendVerificationEmail } from '@/lib/email-verification';
+import { resendVerificationSchema, validateWithSchema } from '@/lib/validations';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  parseRequestBody,
+  getAppUrl,
+  validateContentType,
+  getClientIP,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+
+const RESENT_MESSAGE = 'If that account is waiting for verification, we have sent a new link.';
+
+/**
+ * POST /api/auth/resend-verification - Email a new verification link
+ *
+ * Body: `{ "email": "..." }`
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the same message for every valid email
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type header
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Rate limiting to prevent mail flooding from one client
+    const clientIP = getClientIP(request);
+    const rateLimit = await authRateLimiter.check(`resend-verification-${clientIP}`);
+    if (!rateLimit.allowed) {
+      console.log(`Resend verification rate limit exceeded for IP: ${clientIP}`);
+      return createRateLimitResponse(
+        'Too many requests. Please try again later.',
+        rateLimit
+      );
+    }
+
+    // SECURITY: Parse and validate request body with size limit
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(resendVerificationSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { email } = validation.data;
+
+    // SECURITY: Fails (500) when NEXTAUTH_URL is missing rather than trusting the Host header
+    const appUrl = getAppUrl();
+
+    // SECURITY: Limit links per address too; the response is the same either way
+    if ((await authRateLimiter.check(`resend-verification-${email}`)).allowed) {
+      const user = await getUserByEmail(email);
+
+      if (user && !user.emailVerifiedAt) {
+        await sendVerificationEmail(user, appUrl);
+      }
+    } else {
+      console.log('Resend verification rate limit exceeded for an email address');
+    }
+
+    return createApiResponse(
+      { message: RESENT_MESSAGE },
+      RESENT_MESSAGE,
+      HTTP_STATUS.OK
+    );
+
+  } catch (error) {
+    // SECURITY: Log error without exposing sensitive details
+    console.error('Resend verification error:', error instanceof Error ? error.message : 'Unknown error');
+
+    // SECURITY: Return generic error message
+    return createErrorResponse(
+      'Could not process your request. Please try again later.',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
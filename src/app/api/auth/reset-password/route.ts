@@ -0,0 +1,110 @@
+/**
+ * SECURITY: Reset password API endpoint
+ *
+ * CRITICAL SECURITY FEATURES:
+ * - Input validation with Zod schemas (new password uses the registration rules)
+ * - Rate limiting to prevent token guessing
+ * - Tokens are single-use, expiring and stored only as hashes
+ * - Password hashing with bcrypt
+ * - Every reset is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import { resetPassword } from '@/lib/password-reset';
+import { writeAuditEntry } from '@/lib/audit';
+import { ValidationError } from '@/lib/db-errors';
+import { resetPasswordSchema, validateWithSchema } from '@/lib/validations';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  parseRequestBody,
+  validateContentType,
+  getClientIP,
+  getRequestId,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+
+/**
+ * POST /api/auth/reset-password - Choose a new password with a reset token
+ *
+ * Body: `{ "token": "...", "password": "..." }`
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the reset result
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type header
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Rate limiting to prevent token guessing
+    const clientIP = getClientIP(request);
+    const rateLimit = await authRateLimiter.check(`password-reset-confirm-${clientIP}`);
+    if (!rateLimit.allowed) {
+      console.log(`Password reset rate limit exceeded for IP: ${clientIP}`);
+      return createRateLimitResponse(
+        'Too many password reset attempts. Please try again later.',
+        rateLimit
+      );
+    }
+
+    // SECURITY: Parse and validate request body with size limit
+    const body = await parseRequestBody(request, 1024); // 1KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(resetPasswordSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { token, password } = validation.data;
+
+    const email = await resetPassword(token, password);
+
+    // SECURITY: Record the change, never the password or its hash
+    await writeAuditEntry({
+      actor: email,
+      requestId: getRequestId(request),
+      action: 'user.password_reset',
+      entityType: 'user',
+      entityId: email,
+    });
+
+    console.log(`Password reset completed for ${email}`);
+
+    return createApiResponse(
+      { message: 'Your password has been reset. You can now sign in.' },
+      'Password reset successful',
+      HTTP_STATUS.OK
+    );
+
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Log error without exposing sensitive details
+    console.error('Reset password error:', error instanceof Error ? error.message : 'Unknown error');
+
+    // SECURITY: Return generic error message
+    return createErrorResponse(
+      'Password reset failed. Please try again later.',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Cart API - Authenticated endpoints for a student's registration cart
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication for all operations
+ * - Students can only see and change their own cart
+ * - Input validation with Zod schemas
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getTermById } from '@/lib/db';
+import { ConflictError, NotFoundError, ValidationError } from '@/lib/db-errors';
+import { addToCart, removeFromCart, getCartForTerm } from '@/lib/cart';
+import { requireAuth } from '@/lib/session';
+import { cartItemSchema, termIdSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * Map errors shared by every handler to a response
+ */
+function handleCartError(error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+  }
+
+  if (error instanceof NotFoundError) {
+    return createErrorResponse(error.message, HTTP_STATUS.NOT_FOUND);
+  }
+
+  if (error instanceof ValidationError) {
+    return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+  }
+
+  if (error instanceof ConflictError) {
+    return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+  }
+
+  console.error(`${action} cart error:`, error);
+  return createErrorResponse(
+    `Failed to ${action.toLowerCase()} cart`,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * Validate a cart item request body and check its term exists
+ */
+async function parseCartItem(request: NextRequest) {
+  // SECURITY: Validate Content-Type
+  if (!validateContentType(request, 'application/json')) {
+    return { response: createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST) };
+  }
+
+  const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+  // SECURITY: Validate input with Zod schema
+  const validation = validateWithSchema(cartItemSchema, body);
+
+  if (!validation.success) {
+    return {
+      response: createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      ),
+    };
+  }
+
+  if (!(await getTermById(validation.data.termId))) {
+    return { response: createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND) };
+  }
+
+  return { item: validation.data };
+}
+
+/**
+ * GET /api/cart?termId= - Get the user's cart for a term
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the cart (empty if nothing was added)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const termId = termIdSchema.safeParse(request.nextUrl.searchParams.get('termId'));
+    if (!termId.success) {
+      return createErrorResponse('Invalid term ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const cart = await getCartForTerm(user.email, termId.data);
+
+    return createApiResponse({ cart }, 'Cart retrieved successfully', HTTP_STATUS.OK);
+  } catch (error) {
+    return handleCartError(error, 'Get');
+  }
+}
+
+/**
+ * POST /api/cart - Add a class to the user's cart for a term
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the updated cart
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const { item, response } = await parseCartItem(request);
+    if (!item) {
+      return response;
+    }
+
+    const cart = await addToCart(user.email, item.termId, item.classId);
+
+    return createApiResponse({ cart }, 'Class added to cart', HTTP_STATUS.OK);
+  } catch (error) {
+    return handleCartError(error, 'Update');
+  }
+}
+
+/**
+ * DELETE /api/cart - Remove a class from the user's cart for a term
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the updated cart
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const { item, response } = await parseCartItem(request);
+    if (!item) {
+      return response;
+    }
+
+    const cart = await removeFromCart(user.email, item.termId, item.classId);
+
+    return createApiResponse({ cart }, 'Class removed from cart', HTTP_STATUS.OK);
+  } catch (error) {
+    return handleCartError(error, 'Update');
+  }
+}
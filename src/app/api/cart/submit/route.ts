@@ -0,0 +1,115 @@
+/**
+ * Cart Submission API - Register for every class in a student's cart
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication
+ * - Students can only submit their own cart
+ * - Input validation with Zod schemas
+ * - Generic error messages
+ * - Rate limiting for enrollment actions
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getClientIP,
+  getRequestId,
+  apiRateLimiter
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getTermById } from '@/lib/db';
+import { ValidationError } from '@/lib/db-errors';
+import { submitCart } from '@/lib/cart';
+import { requireAuth } from '@/lib/session';
+import { cartSubmitSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * POST /api/cart/submit - Enroll in the cart's classes
+ * 
+ * Body: `{ "termId": "...", "mode": "all-or-nothing" | "best-effort" }`.
+ * All-or-nothing (the default) enrolls in every class or none; best-effort
+ * enrolls in every class that can be taken. Responds 409 when nothing was
+ * enrolled; either way the data lists what happened to each class.
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the per-class result
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    // SECURITY: Rate limiting for enrollment actions
+    const clientIP = getClientIP(request);
+    const rateLimit = await apiRateLimiter.check(`enrollment-${user.email}-${clientIP}`);
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(
+        'Too many enrollment attempts. Please try again later.',
+        rateLimit
+      );
+    }
+
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(cartSubmitSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { termId, mode } = validation.data;
+
+    if (!(await getTermById(termId))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const submission = await submitCart(user.email, termId, mode, getRequestId(request));
+    const total = submission.items.length;
+
+    if (submission.enrolledCount === 0) {
+      return createErrorResponse(
+        mode === 'all-or-nothing'
+          ? 'Registration failed; you were not enrolled in any class in your cart'
+          : 'None of the classes in your cart could be taken',
+        HTTP_STATUS.CONFLICT,
+        { submission }
+      );
+    }
+
+    return createApiResponse(
+      { submission },
+      `Enrolled in ${submission.enrolledCount} of ${total} ${total === 1 ? 'class' : 'classes'}`,
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Submit cart error:', error);
+    return createErrorResponse('Failed to submit cart', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
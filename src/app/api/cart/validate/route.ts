@@ -0,0 +1,60 @@
+/**
+ * Cart Validation API - Check a student's whole cart before registering
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication
+ * - Students can only check their own cart
+ * - Input validation with Zod schemas
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, validateMethod } from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getTermById } from '@/lib/db';
+import { validateCart } from '@/lib/cart';
+import { requireAuth } from '@/lib/session';
+import { termIdSchema } from '@/lib/validations';
+
+/**
+ * GET /api/cart/validate?termId= - Check capacity, schedule conflicts,
+ * requisites and the credit limit for every class in the cart
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the per-class result
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const termId = termIdSchema.safeParse(request.nextUrl.searchParams.get('termId'));
+    if (!termId.success) {
+      return createErrorResponse('Invalid term ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    if (!(await getTermById(termId.data))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const validation = await validateCart(user.email, termId.data);
+
+    return createApiResponse(
+      { validation },
+      validation.valid ? 'Cart is ready to submit' : 'Some classes in your cart cannot be taken',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Validate cart error:', error);
+    return createErrorResponse('Failed to validate cart', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Class API - Admin endpoints for changing a single class
+ *
+ * SECURITY FEATURES:
+ * - Requires the admin role for all operations
+ * - Input validation with Zod schemas
+ * - Generic error messages
+ * - Every change is written to the audit log
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { updateClass, cancelClass, deleteClass, getClassById, getTermById, getUserByEmail } from '@/lib/db';
+import { writeAuditEntry, writeEnrollmentAudit, writePromotionAudits } from '@/lib/audit';
+import { ConflictError, NotFoundError } from '@/lib/db-errors';
+import { notifyClassCancelled, notifyPassedOverOnWaitlist } from '@/lib/notifications';
+import { requireRole } from '@/lib/session';
+import { classUpdateSchema, classIdSchema, validateWithSchema } from '@/lib/validations';
+import type { Class } from '@/types';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Map errors shared by every handler to a response
+ */
+function handleClassError(error: unknown, action: string) {
+  if (error instanceof Error && error.message === 'Authentication required') {
+    return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+  }
+
+  if (error instanceof Error && error.message === 'Insufficient permissions') {
+    return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+  }
+
+  if (error instanceof NotFoundError) {
+    return createErrorResponse('Class not found', HTTP_STATUS.NOT_FOUND);
+  }
+
+  if (error instanceof ConflictError) {
+    return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+  }
+
+  console.error(`${action} class error:`, error);
+  return createErrorResponse(
+    `Failed to ${action.toLowerCase()} class`,
+    HTTP_STATUS.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * PATCH /api/classes/[id] - Update or cancel a class (admin only)
+ *
+ * Send `{ "status": "cancelled" }` to cancel: enrolled students are dropped,
+ * waitlisted students are released, and everyone affected is notified.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the updated class
+ */
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['PATCH'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const { id } = await context.params;
+    if (!classIdSchema.safeParse(id).success) {
+      return createErrorResponse('Invalid class ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const auditContext = { actor: admin.email, requestId: getRequestId(request) };
+
+    const body = await parseRequestBody(request, 8 * 1024); // 8KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(classUpdateSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { status, ...updates } = validation.data;
+
+    if (updates.termId && !(await getTermById(updates.termId))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: The instructor's account sees the roster, so it must be one
+    if (updates.instructorEmail && (await getUserByEmail(updates.instructorEmail))?.role !== 'instructor') {
+      return createErrorResponse('Instructor account not found', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    let classItem: Class | null;
+
+    if (Object.keys(updates).length > 0) {
+      const result = await updateClass(id, updates);
+      classItem = result.after;
+
+      await writeAuditEntry({
+        ...auditContext,
+        action: 'class.update',
+        entityType: 'class',
+        entityId: id,
+        before: { ...result.before },
+        after: { ...result.after },
+      });
+      await writePromotionAudits(auditContext, result.promoted);
+      await notifyPassedOverOnWaitlist(result.skipped);
+    } else {
+      classItem = await getClassById(id);
+    }
+
+    if (!classItem) {
+      return createErrorResponse('Class not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (status === 'cancelled') {
+      const result = await cancelClass(id);
+      classItem = result.classItem;
+
+      await writeAuditEntry({
+        ...auditContext,
+        action: 'class.cancel',
+        entityType: 'class',
+        entityId: id,
+        before: { ...result.before },
+        after: { ...classItem },
+      });
+
+      for (const change of [...result.dropped, ...result.released]) {
+        await writeEnrollmentAudit(auditContext, 'enrollment.class_cancelled', change.before, change.after);
+      }
+
+      await notifyClassCancelled(
+        classItem,
+        result.dropped.map(change => change.before.email),
+        result.released.map(change => change.before.email)
+      );
+
+      return createApiResponse(
+        {
+          class: classItem,
+          droppedCount: result.dropped.length,
+          releasedCount: result.released.length,
+        },
+        'Class cancelled',
+        HTTP_STATUS.OK
+      );
+    }
+
+    return createApiResponse(
+      { class: classItem },
+      'Class updated successfully',
+      HTTP_STATUS.OK
+    );
+
+  } catch (error) {
+    return handleClassError(error, 'Update');
+  }
+}
+
+/**
+ * DELETE /api/classes/[id] - Delete a class nobody is enrolled in (admin only)
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with deletion result
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const { id } = await context.params;
+    if (!classIdSchema.safeParse(id).success) {
+      return createErrorResponse('Invalid class ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const before = await getClassById(id);
+    if (!before) {
+      return createErrorResponse('Class not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    await deleteClass(id);
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: 'class.delete',
+      entityType: 'class',
+      entityId: id,
+      before: { ...before },
+    });
+
+    return createApiResponse(
+      { classId: id },
+      'Class deleted successfully',
+      HTTP_STATUS.OK
+    );
+
+  } catch (error) {
+    return handleClassError(error, 'Delete');
+  }
+}
+
+/**
+ * OPTIONS /api/classes/[id] - Handle CORS preflight
+ */
+export async function OPTIONS(request: NextRequest) {
+  return new Response(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Max-Age': '86400',
+    },
+  });
+}
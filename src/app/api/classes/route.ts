@@ -1,56 +1,27 @@
 /**
- * Classes API - Public endpoint for retrieving available classes
+ * Classes API - Class catalog endpoints
  * 
- * SECURITY: Public endpoint (no authentication required)
- * Returns hardcoded class data for demonstration
+ * SECURITY:
+ * - GET is public (no authentication required)
+ * - POST requires the admin role
+ * Returns the class catalog stored in the DynamoDB Classes table
  */
 
+import { randomUUID } from 'crypto';
 import { NextRequest } from 'next/server';
-import { createApiResponse, createErrorResponse, validateMethod } from '@/lib/api-utils';
+import { 
+  createApiResponse, 
+  createErrorResponse, 
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
 import { HTTP_STATUS } from '@/lib/constants';
-
-// Hardcoded class data for demonstration
-const CLASSES = [
-  {
-    id: "1",
-    name: "Web Development 101",
-    instructor: "Dr. Smith",
-    description: "Learn HTML, CSS, and JavaScript fundamentals. Perfect for beginners looking to start their web development journey.",
-    capacity: 30,
-    currentEnrollment: 18,
-    schedule: "Mon/Wed 10:00-11:30 AM",
-    semester: "Fall 2024",
-    credits: 3,
-    prerequisites: "None",
-    location: "Computer Lab A"
-  },
-  {
-    id: "2",
-    name: "Database Basics",
-    instructor: "Prof. Johnson",
-    description: "Introduction to SQL and NoSQL databases. Learn database design, queries, and optimization techniques.",
-    capacity: 25,
-    currentEnrollment: 12,
-    schedule: "Tue/Thu 2:00-3:30 PM",
-    semester: "Fall 2024",
-    credits: 3,
-    prerequisites: "Basic programming knowledge",
-    location: "Room 205"
-  },
-  {
-    id: "3",
-    name: "Cybersecurity Fundamentals",
-    instructor: "Dr. Lee",
-    description: "Security best practices and common vulnerabilities. Learn to protect systems and data from cyber threats.",
-    capacity: 20,
-    currentEnrollment: 15,
-    schedule: "Wed/Fri 1:00-2:30 PM",
-    semester: "Fall 2024",
-    credits: 4,
-    prerequisites: "Computer Science 101",
-    location: "Security Lab"
-  }
-];
+import { getAllClasses, createClass, getTermById, getUserByEmail } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+import { classSchema, validateWithSchema } from '@/lib/validations';
 
 /**
  * GET /api/classes - Retrieve all available classes
@@ -65,9 +36,10 @@ export async function GET(request: NextRequest) {
       return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
     }
 
-    // Return classes data
+    const classes = await getAllClasses();
+
     return createApiResponse(
-      { classes: CLASSES },
+      { classes },
       'Classes retrieved successfully',
       HTTP_STATUS.OK
     );
@@ -81,6 +53,90 @@ export async function GET(request: NextRequest) {
   }
 }
 
+/**
+ * POST /api/classes - Create a class (admin only)
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the created class
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require admin role
+    const admin = await requireRole('admin');
+
+    const body = await parseRequestBody(request, 8 * 1024); // 8KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(classSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const classData = validation.data;
+
+    if (classData.termId && !(await getTermById(classData.termId))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: The instructor's account sees the roster, so it must be one
+    if (classData.instructorEmail && (await getUserByEmail(classData.instructorEmail))?.role !== 'instructor') {
+      return createErrorResponse('Instructor account not found', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const newClass = await createClass({
+      ...classData,
+      id: randomUUID(),
+      prerequisites: classData.prerequisites || 'None',
+      currentEnrollment: 0,
+      status: 'active',
+    });
+
+    await writeAuditEntry({
+      actor: admin.email,
+      requestId: getRequestId(request),
+      action: 'class.create',
+      entityType: 'class',
+      entityId: newClass.id,
+      after: { ...newClass },
+    });
+
+    return createApiResponse(
+      { class: newClass },
+      'Class created successfully',
+      HTTP_STATUS.CREATED
+    );
+
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Create class error:', error);
+    return createErrorResponse(
+      'Failed to create class',
+      HTTP_STATUS.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
 /**
  * OPTIONS /api/classes - Handle CORS preflight
  */
@@ -89,7 +145,7 @@ export async function OPTIONS(request: NextRequest) {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type',
       'Access-Control-Max-Age': '86400',
     },
@@ -7,39 +7,103 @@
  * - Input validation with Zod schemas
  * - Generic error messages
  * - Rate limiting for enrollment actions
+ * - Every enrollment change is written to the audit log
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
-import { getUserEnrollments, enrollInClass, isUserEnrolledInClass, unenrollFromClass, getAllEnrollments } from '@/lib/db';
-import { enrollmentSchema } from '@/lib/validations';
+import { getUserEnrollments, getEnrollment, enrollInClass, joinWaitlist, unenrollFromClass, getClassById } from '@/lib/db';
+import { writeEnrollmentAudit, writePromotionAudits } from '@/lib/audit';
+import { notifyPassedOverOnWaitlist } from '@/lib/notifications';
+import { classIdSchema, enrollmentSchema } from '@/lib/validations';
+import { ClassFullError, ConflictError, NotFoundError } from '@/lib/db-errors';
+import { validateEnrollment, planDrop } from '@/lib/enrollment-rules';
 import { 
   createApiResponse, 
   createErrorResponse, 
+  createRateLimitResponse,
   validateMethod, 
   parseRequestBody,
   validateContentType,
   getClientIP,
+  getRequestId,
   apiRateLimiter 
 } from '@/lib/api-utils';
-import { HTTP_STATUS } from '@/lib/constants';
+import { HTTP_STATUS, MAX_CART_SIZE } from '@/lib/constants';
+import { requireAuth } from '@/lib/session';
 
 /**
- * SECURITY: Verify user authentication
+ * Drop the user's seat or waitlist spot in a class, applying the term's
+ * add/drop and withdrawal deadlines, and record the change in the audit log
+ * 
+ * @param user - Authenticated user
+ * @param classId - Class to drop
+ * @param requestId - Request id for the audit log
+ * @returns NextResponse with the updated enrollment
  */
-async function requireAuthentication() {
-  const session = await getServerSession(authOptions);
-  
-  if (!session?.user?.email) {
-    throw new Error('Authentication required');
+async function dropEnrollment(user: { email: string }, classId: string, requestId: string) {
+  const enrollment = await getEnrollment(user.email, classId);
+
+  // Withdrawals are final, so only current seats and waitlist spots can be dropped
+  if (!enrollment || (enrollment.status !== 'active' && enrollment.status !== 'waitlisted')) {
+    return createErrorResponse(
+      'Enrollment not found',
+      HTTP_STATUS.NOT_FOUND
+    );
+  }
+
+  const classItem = await getClassById(classId);
+  const plan = await planDrop(enrollment, classItem);
+
+  if (plan.violation) {
+    return createErrorResponse(
+      plan.violation.message,
+      HTTP_STATUS.FORBIDDEN,
+      { code: plan.violation.code, ...plan.violation.details }
+    );
+  }
+
+  try {
+    const { before, after, promoted, skipped } = await unenrollFromClass(user.email, classId, plan.dropStatus);
+    const auditContext = { actor: user.email, requestId };
+
+    await writeEnrollmentAudit(
+      auditContext,
+      after.status === 'withdrawn' ? 'enrollment.withdraw' : 'enrollment.drop',
+      before,
+      after
+    );
+    await writePromotionAudits(auditContext, promoted ? [promoted] : []);
+    await notifyPassedOverOnWaitlist(skipped);
+
+    const withdrawn = after.status === 'withdrawn';
+
+    return createApiResponse(
+      { 
+        message: withdrawn
+          ? 'Withdrawn from class. The withdrawal will appear on your record.'
+          : 'Successfully unenrolled from class',
+        enrollment: after
+      },
+      withdrawn ? 'Withdrawal successful' : 'Unenrollment successful',
+      HTTP_STATUS.OK
+    );
+  } catch (dropError) {
+    // Dropped concurrently by another request
+    if (dropError instanceof NotFoundError) {
+      return createErrorResponse(
+        'Enrollment not found',
+        HTTP_STATUS.NOT_FOUND
+      );
+    }
+
+    throw dropError;
   }
-  
-  return session.user;
 }
 
 /**
  * GET /api/enrollments - Get user's enrollments
+ * Query: consistent=true re-reads enrollments from the base table;
+ * classId (repeatable) names classes just written, which are read by key
  * 
  * @param request - NextRequest object
  * @returns NextResponse with user's enrollments
@@ -47,27 +111,21 @@ async function requireAuthentication() {
 export async function GET(request: NextRequest) {
   try {
     // SECURITY: Require authentication (same method as POST)
-    const user = await requireAuthentication();
+    const user = await requireAuth();
+
+    // ?consistent=true after a write, so the dashboard sees its own changes
+    const consistentRead = request.nextUrl.searchParams.get('consistent') === 'true';
+
+    // An enrollment made moments ago may not be in the email index yet
+    const writtenClassIds = request.nextUrl.searchParams.getAll('classId');
+    if (
+      writtenClassIds.length > MAX_CART_SIZE ||
+      writtenClassIds.some(classId => !classIdSchema.safeParse(classId).success)
+    ) {
+      return NextResponse.json({ error: 'Invalid class ID' }, { status: 400 });
+    }
 
-    console.log('=== GET ENROLLMENTS DEBUG START ===');
-    console.log('API: User object:', JSON.stringify(user, null, 2));
-    console.log('API: User email:', user.email);
-    
-    // DEBUG: First check all enrollments in the table
-    console.log('API: Checking all enrollments in database...');
-    const allEnrollments = await getAllEnrollments();
-    console.log('API: Total enrollments in database:', allEnrollments.length);
-    console.log('API: All enrollments:', JSON.stringify(allEnrollments, null, 2));
-
-    // Get user's enrollments from database
-    console.log('API: Getting enrollments for specific user...');
-    const enrollments = await getUserEnrollments(user.email);
-    
-    // DEBUG: Log the enrollments data
-    console.log('API: Retrieved enrollments for user:', user.email, 'Count:', enrollments.length);
-    console.log('API: User-specific enrollments:', JSON.stringify(enrollments, null, 2));
-    console.log('API: Returning enrollments array directly');
-    console.log('=== GET ENROLLMENTS DEBUG END ===');
+    const enrollments = await getUserEnrollments(user.email, { consistentRead }, writtenClassIds);
 
     // Return array directly, not wrapped
     return NextResponse.json(enrollments, { status: 200 });
@@ -83,7 +141,7 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/enrollments - Enroll in a class
+ * POST /api/enrollments - Enroll in a class or join its waitlist
  * 
  * @param request - NextRequest object
  * @returns NextResponse with enrollment result
@@ -101,14 +159,15 @@ export async function POST(request: NextRequest) {
     }
 
     // SECURITY: Require authentication
-    const user = await requireAuthentication();
+    const user = await requireAuth();
 
     // SECURITY: Rate limiting for enrollment actions
     const clientIP = getClientIP(request);
-    if (!apiRateLimiter.isAllowed(`enrollment-${user.email}-${clientIP}`)) {
-      return createErrorResponse(
+    const rateLimit = await apiRateLimiter.check(`enrollment-${user.email}-${clientIP}`);
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(
         'Too many enrollment attempts. Please try again later.',
-        HTTP_STATUS.TOO_MANY_REQUESTS
+        rateLimit
       );
     }
 
@@ -127,33 +186,81 @@ export async function POST(request: NextRequest) {
     }
 
     const { classId, action } = validationResult.data;
+    const requestId = getRequestId(request);
 
-    if (action === 'enroll') {
-      // Check if user is already enrolled
-      const isEnrolled = await isUserEnrolledInClass(user.email, classId);
+    if (action === 'enroll' || action === 'waitlist') {
+      // Check whether the user already holds a seat or a waitlist spot
+      const existing = await getEnrollment(user.email, classId);
       
-      if (isEnrolled) {
+      if (existing?.status === 'active') {
         return createErrorResponse(
           'You are already enrolled in this class',
           HTTP_STATUS.CONFLICT
         );
       }
 
-      // Get class name for enrollment (in a real app, this would come from a classes table)
-      const classNames: Record<string, string> = {
-        '1': 'Web Development 101',
-        '2': 'Database Basics',
-        '3': 'Cybersecurity Fundamentals',
-      };
+      if (existing?.status === 'waitlisted') {
+        return createErrorResponse(
+          `You are already on the waitlist for this class (position ${existing.waitlistPosition})`,
+          HTTP_STATUS.CONFLICT,
+          { waitlistPosition: existing.waitlistPosition }
+        );
+      }
 
-      const className = classNames[classId];
-      if (!className) {
+      if (existing?.status === 'withdrawn') {
+        return createErrorResponse(
+          'You have withdrawn from this class this term',
+          HTTP_STATUS.CONFLICT
+        );
+      }
+
+      // Look up the class in the catalog to get its current name
+      const classItem = await getClassById(classId);
+      if (!classItem) {
         return createErrorResponse(
           'Class not found',
           HTTP_STATUS.NOT_FOUND
         );
       }
 
+      const className = classItem.name;
+
+      // Enforce registration rules (term dates, requisites, schedule conflicts) before taking a seat
+      const violation = await validateEnrollment(user.email, classItem);
+      if (violation) {
+        return createErrorResponse(
+          violation.message,
+          violation.code === 'REGISTRATION_CLOSED' ? HTTP_STATUS.FORBIDDEN : HTTP_STATUS.CONFLICT,
+          { code: violation.code, ...violation.details }
+        );
+      }
+
+      if (action === 'waitlist') {
+        try {
+          const entry = await joinWaitlist(user.email, className, classId);
+
+          await writeEnrollmentAudit({ actor: user.email, requestId }, 'enrollment.waitlist', existing, entry);
+
+          return createApiResponse(
+            {
+              message: `You are #${entry.waitlistPosition} on the waitlist`,
+              classId,
+              className,
+              waitlistPosition: entry.waitlistPosition,
+            },
+            'Added to waitlist',
+            HTTP_STATUS.CREATED
+          );
+        } catch (waitlistError) {
+          // Class has open seats, or the user joined concurrently
+          if (waitlistError instanceof ConflictError) {
+            return createErrorResponse(waitlistError.message, HTTP_STATUS.CONFLICT);
+          }
+
+          throw waitlistError;
+        }
+      }
+
       // Enroll user in class
       try {
         console.log('=== ENROLLMENT CREATION DEBUG START ===');
@@ -161,14 +268,11 @@ export async function POST(request: NextRequest) {
         console.log('API: Class name:', className);
         console.log('API: Class ID:', classId);
         
-        await enrollInClass(user.email, className, classId);
+        const enrollment = await enrollInClass(user.email, className, classId);
+
+        await writeEnrollmentAudit({ actor: user.email, requestId }, 'enrollment.enroll', existing, enrollment);
         
         console.log('API: Enrollment creation completed successfully');
-        
-        // Verify the enrollment was created by checking immediately
-        const verifyEnrollments = await getUserEnrollments(user.email);
-        console.log('API: Verification - User now has', verifyEnrollments.length, 'enrollments');
-        console.log('API: Verification - Enrollments:', JSON.stringify(verifyEnrollments, null, 2));
         console.log('=== ENROLLMENT CREATION DEBUG END ===');
 
         return createApiResponse(
@@ -194,17 +298,26 @@ export async function POST(request: NextRequest) {
             HTTP_STATUS.OK
           );
         }
+
+        if (enrollError instanceof ClassFullError) {
+          return createErrorResponse(
+            'This class is full. You can join the waitlist instead.',
+            HTTP_STATUS.CONFLICT,
+            { canWaitlist: true }
+          );
+        }
+
+        // Class cancelled after the enrollment was validated
+        if (enrollError instanceof ConflictError) {
+          return createErrorResponse(enrollError.message, HTTP_STATUS.CONFLICT);
+        }
         
         // Re-throw other errors to be handled by outer catch
         throw enrollError;
       }
 
     } else if (action === 'unenroll') {
-      // TODO: Implement unenrollment logic
-      return createErrorResponse(
-        'Unenrollment not yet implemented',
-        HTTP_STATUS.NOT_IMPLEMENTED
-      );
+      return await dropEnrollment(user, classId, requestId);
     }
 
     return createErrorResponse(
@@ -230,6 +343,7 @@ export async function POST(request: NextRequest) {
 
 /**
  * DELETE /api/enrollments - Unenroll from a class
+ * Same as POST with action "unenroll"
  * 
  * @param request - NextRequest object
  * @returns NextResponse with unenrollment result
@@ -247,30 +361,22 @@ export async function DELETE(request: NextRequest) {
     }
 
     // SECURITY: Require authentication
-    const user = await requireAuthentication();
+    const user = await requireAuth();
 
     // Parse and validate request body
     const body = await parseRequestBody(request, 512); // 512 bytes limit
 
-    const { className } = body;
-    if (!className || typeof className !== 'string') {
+    // SECURITY: Validate input with Zod schema (drops are keyed by class ID only)
+    const validationResult = enrollmentSchema.pick({ classId: true }).safeParse(body);
+
+    if (!validationResult.success) {
       return createErrorResponse(
-        'Class name is required',
+        `Invalid enrollment data: ${validationResult.error.message}`,
         HTTP_STATUS.BAD_REQUEST
       );
     }
 
-    // Unenroll user from class
-    await unenrollFromClass(user.email, className);
-
-    return createApiResponse(
-      { 
-        message: 'Successfully unenrolled from class',
-        className 
-      },
-      'Unenrollment successful',
-      HTTP_STATUS.OK
-    );
+    return await dropEnrollment(user, validationResult.data.classId, getRequestId(request));
 
   } catch (error) {
     if (error instanceof Error && error.message === 'Authentication required') {
@@ -0,0 +1,130 @@
+/**
+ * Class Roster API - Who is enrolled in and waiting for a class the user teaches
+ *
+ * SECURITY FEATURES:
+ * - Requires the instructor or admin role
+ * - Only the class's own instructor (its instructorEmail) sees the roster;
+ *   other classes look like they do not exist
+ * - Downloads are never cached and are recorded in the audit log
+ * - Never returns password hashes or other account secrets
+ * - Generic error messages
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createApiResponse, createErrorResponse, validateMethod, getRequestId } from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { canViewRoster, getClassRoster, getRosterFileName, rosterToCsv } from '@/lib/class-roster';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getClassById } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+import { classIdSchema, rosterQuerySchema, validateWithSchema } from '@/lib/validations';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+} as const;
+
+/**
+ * GET /api/instructor/classes/[id]/roster?format= - Get a class roster (the class's instructor only)
+ *
+ * Enrolled students come first in the order they enrolled, then the
+ * waitlist in queue order. Without a format the roster is returned as usual;
+ * `format=csv` or `format=json` downloads it as a file.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the class and its roster, or the roster file
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require instructor or admin role
+    const instructor = await requireRole('instructor', 'admin');
+
+    const { id } = await context.params;
+    if (!classIdSchema.safeParse(id).success) {
+      return createErrorResponse('Invalid class ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate query parameters with Zod schema
+    const validation = validateWithSchema(
+      rosterQuerySchema,
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { format } = validation.data;
+
+    // SECURITY: Classes taught by someone else are reported as missing
+    const classItem = await getClassById(id);
+    if (!classItem || !canViewRoster(classItem, instructor.email)) {
+      return createErrorResponse('Class not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const roster = await getClassRoster(classItem.id);
+
+    if (!format) {
+      return createApiResponse(
+        { class: classItem, roster },
+        'Roster retrieved successfully',
+        HTTP_STATUS.OK
+      );
+    }
+
+    const exportedAt = new Date().toISOString();
+
+    await writeAuditEntry({
+      actor: instructor.email,
+      requestId: getRequestId(request),
+      action: 'class.roster_export',
+      entityType: 'class',
+      entityId: classItem.id,
+      after: { format, students: roster.length },
+    });
+
+    const body = format === 'csv'
+      ? rosterToCsv(roster)
+      : JSON.stringify({
+          class: { id: classItem.id, name: classItem.name, courseCode: classItem.courseCode, semester: classItem.semester },
+          exportedAt,
+          roster,
+        }, null, 2);
+
+    return new NextResponse(body, {
+      status: HTTP_STATUS.OK,
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${getRosterFileName(classItem, format)}"`,
+        // SECURITY: Rosters hold student contact details
+        'Cache-Control': 'no-store',
+        'X-Content-Type-Options': 'nosniff',
+        'X-Frame-Options': 'DENY',
+        'X-XSS-Protection': '1; mode=block',
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Get roster error:', error);
+    return createErrorResponse('Failed to get the roster', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
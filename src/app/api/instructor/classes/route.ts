@@ -0,0 +1,56 @@
+/**
+ * Instructor Classes API - The classes the signed-in instructor teaches
+ *
+ * SECURITY FEATURES:
+ * - Requires the instructor or admin role
+ * - Only lists classes whose instructorEmail is the user's own email
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, validateMethod } from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getClassesByInstructor, getClassWaitlist } from '@/lib/db';
+import { requireRole } from '@/lib/session';
+
+/**
+ * GET /api/instructor/classes - List the user's classes with seat and waitlist counts
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the classes
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require instructor or admin role
+    const instructor = await requireRole('instructor', 'admin');
+
+    const taught = await getClassesByInstructor(instructor.email);
+
+    const classes = await Promise.all(taught.map(async classItem => ({
+      ...classItem,
+      waitlistCount: (await getClassWaitlist(classItem.id)).length,
+    })));
+
+    return createApiResponse(
+      { classes },
+      'Classes retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof Error && error.message === 'Insufficient permissions') {
+      return createErrorResponse('Forbidden', HTTP_STATUS.FORBIDDEN);
+    }
+
+    console.error('Get instructor classes error:', error);
+    return createErrorResponse('Failed to get your classes', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Overloads API - Authenticated endpoints for a student's credit load
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication for all operations
+ * - Students can only see and file their own requests
+ * - Input validation with Zod schemas
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getCreditLimit, requestOverload, sumTermCredits } from '@/lib/credit-limits';
+import { getOverloadRequest, getTermById } from '@/lib/db';
+import { ConflictError, ValidationError } from '@/lib/db-errors';
+import { loadStudentRecord } from '@/lib/enrollment-rules';
+import { requireAuth } from '@/lib/session';
+import { overloadRequestSchema, termIdSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * GET /api/overloads?termId= - Get the user's credit load, limits and
+ * overload request for a term
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the credit summary
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const termId = termIdSchema.safeParse(request.nextUrl.searchParams.get('termId'));
+    if (!termId.success) {
+      return createErrorResponse('Invalid term ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    if (!(await getTermById(termId.data))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const [creditLimit, student, overloadRequest] = await Promise.all([
+      getCreditLimit(user.email, termId.data),
+      loadStudentRecord(user.email),
+      getOverloadRequest(user.email, termId.data),
+    ]);
+
+    return createApiResponse(
+      {
+        termId: termId.data,
+        currentCredits: sumTermCredits(student.activeClasses, termId.data),
+        creditLimit,
+        overloadRequest,
+      },
+      'Credit load retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Get credit load error:', error);
+    return createErrorResponse('Failed to get credit load', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * POST /api/overloads - Ask an advisor to raise the user's maximum credit
+ * load for a term
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the pending request
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(overloadRequestSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { termId, requestedCredits, reason } = validation.data;
+
+    if (!(await getTermById(termId))) {
+      return createErrorResponse('Term not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    const overloadRequest = await requestOverload(user.email, termId, requestedCredits, reason);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'overload.request',
+      entityType: 'overload',
+      entityId: `${overloadRequest.email}-${termId}`,
+      after: { ...overloadRequest },
+    });
+
+    return createApiResponse(
+      { overloadRequest },
+      'Overload request submitted',
+      HTTP_STATUS.CREATED
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    if (error instanceof ConflictError) {
+      return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+    }
+
+    console.error('Overload request error:', error);
+    return createErrorResponse('Failed to submit overload request', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
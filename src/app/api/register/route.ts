@@ -6,6 +6,9 @@
  * - Password hashing with bcrypt
  * - Rate limiting to prevent spam
  * - Duplicate email prevention
+ * - Optional limit to institutional email domains
+ * - New accounts cannot sign in until the email is verified
+ * - Verification links point at NEXTAUTH_URL, never at the request's Host header
  * - Generic error messages (prevent account enumeration)
  * - Request size limits
  * - CORS protection
@@ -14,12 +17,19 @@
 import { NextRequest } from 'next/server';
 import { createUser, getUserByEmail } from '@/lib/db';
 import { hashPassword } from '@/lib/auth';
+import {
+  getAllowedRegistrationDomains,
+  isRegistrationEmailAllowed,
+  sendVerificationEmail
+} from '@/lib/email-verification';
 import { registerSchema } from '@/lib/validations';
 import { 
   createApiResponse, 
   createErrorResponse, 
+  createRateLimitResponse,
   validateMethod, 
   parseRequestBody, 
+  getAppUrl,
   validateContentType,
   getClientIP,
   authRateLimiter 
@@ -46,11 +56,12 @@ export async function POST(request: NextRequest) {
 
     // SECURITY: Rate limiting to prevent spam registrations
     const clientIP = getClientIP(request);
-    if (!authRateLimiter.isAllowed(clientIP)) {
+    const rateLimit = await authRateLimiter.check(clientIP);
+    if (!rateLimit.allowed) {
       console.log(`Registration rate limit exceeded for IP: ${clientIP}`);
-      return createErrorResponse(
+      return createRateLimitResponse(
         'Too many registration attempts. Please try again later.',
-        HTTP_STATUS.TOO_MANY_REQUESTS
+        rateLimit
       );
     }
 
@@ -74,6 +85,16 @@ export async function POST(request: NextRequest) {
 
     const { name, email, studentId, password } = validationResult.data;
 
+    // SECURITY: Only accept addresses at the configured institutional domains
+    const allowedDomains = getAllowedRegistrationDomains();
+    if (!isRegistrationEmailAllowed(email, allowedDomains)) {
+      console.log('Registration attempt from a domain that is not allowed');
+      return createErrorResponse(
+        `Registration is limited to email addresses at: ${allowedDomains.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
     // SECURITY: Check if user already exists (prevent duplicate accounts)
     const existingUser = await getUserByEmail(email);
     
@@ -86,12 +107,24 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // SECURITY: Fails (500) before creating the account when NEXTAUTH_URL is
+    // missing, rather than trusting the Host header for the link
+    const appUrl = getAppUrl();
+
     // SECURITY: Hash password with bcrypt before storing
     const passwordHash = await hashPassword(password);
 
-    // SECURITY: Create user in database with hashed password
+    // SECURITY: Create user in database with hashed password (unverified until the link is opened)
     const newUser = await createUser(email, passwordHash, name, studentId);
 
+    // A failed send still leaves a usable account: the user can ask for a new
+    // link when signing in
+    try {
+      await sendVerificationEmail(newUser, appUrl);
+    } catch (error) {
+      console.error('Verification email error:', error instanceof Error ? error.message : 'Unknown error');
+    }
+
     // SECURITY: Return success without sensitive data
     const responseData = {
       user: {
@@ -106,7 +139,7 @@ export async function POST(request: NextRequest) {
 
     return createApiResponse(
       responseData,
-      'User registered successfully',
+      'User registered successfully. Check your email to verify your address.',
       HTTP_STATUS.CREATED
     );
 
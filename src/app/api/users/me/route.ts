@@ -0,0 +1,208 @@
+/**
+ * Profile API - The signed-in user's own account
+ *
+ * SECURITY FEATURES:
+ * - Requires authentication for all operations
+ * - Users can only read and change their own profile
+ * - Role, category, email and student ID cannot be changed here
+ * - Password changes need the current password; attempts are rate limited,
+ *   and a change signs out every other session
+ * - Never returns password hashes or two-factor secrets
+ * - Every change is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { hashPassword, verifyPassword } from '@/lib/auth';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getUserByEmail, updateUserPassword, updateUserProfile } from '@/lib/db';
+import { resolveContactPreferences, sendNotification } from '@/lib/notifications';
+import { revokeAllSessions } from '@/lib/session-registry';
+import { getCurrentSessionId, requireAuth } from '@/lib/session';
+import { profileUpdateSchema, validateWithSchema } from '@/lib/validations';
+import type { User } from '@/types';
+
+/**
+ * SECURITY: The profile fields safe to send to the client
+ */
+function toProfile(user: User) {
+  return {
+    email: user.email,
+    name: user.name,
+    studentId: user.studentId,
+    role: user.role,
+    category: user.category,
+    contactPreferences: resolveContactPreferences(user),
+    emailVerifiedAt: user.emailVerifiedAt,
+    passwordChangedAt: user.passwordChangedAt,
+    createdAt: user.createdAt,
+  };
+}
+
+/**
+ * GET /api/users/me - Get the user's profile
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the profile
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const account = await getUserByEmail(user.email);
+    if (!account) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    return createApiResponse(
+      { user: toProfile(account) },
+      'Profile retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Get profile error:', error);
+    return createErrorResponse('Failed to get profile', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * PATCH /api/users/me - Update the user's name, contact preferences or password
+ *
+ * Body: any of `{ "name", "contactPreferences": { "classChanges", "overloadDecisions" },
+ * "currentPassword", "newPassword" }`
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the updated profile
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['PATCH'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const body = await parseRequestBody(request, 2 * 1024); // 2KB limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(profileUpdateSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const { name, contactPreferences, currentPassword, newPassword } = validation.data;
+    const requestId = getRequestId(request);
+
+    let account = await getUserByEmail(user.email);
+    if (!account) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    // SECURITY: Check the current password before changing anything
+    if (newPassword) {
+      // SECURITY: Rate limiting to prevent guessing the current password
+      const rateLimit = await authRateLimiter.check(`password-change-${account.email}`);
+      if (!rateLimit.allowed) {
+        return createRateLimitResponse(
+          'Too many password change attempts. Please try again later.',
+          rateLimit
+        );
+      }
+
+      if (!currentPassword || !(await verifyPassword(currentPassword, account.passwordHash))) {
+        return createErrorResponse('Current password is incorrect', HTTP_STATUS.BAD_REQUEST);
+      }
+
+      if (newPassword === currentPassword) {
+        return createErrorResponse('New password must be different from the current one', HTTP_STATUS.BAD_REQUEST);
+      }
+    }
+
+    if (name !== undefined || contactPreferences !== undefined) {
+      const before = account;
+
+      account = await updateUserProfile(account.email, {
+        name,
+        contactPreferences: contactPreferences && { ...before.contactPreferences, ...contactPreferences },
+      });
+
+      await writeAuditEntry({
+        actor: user.email,
+        requestId,
+        action: 'user.profile_update',
+        entityType: 'user',
+        entityId: account.email,
+        before: { name: before.name, contactPreferences: resolveContactPreferences(before) },
+        after: { name: account.name, contactPreferences: resolveContactPreferences(account) },
+      });
+    }
+
+    if (newPassword) {
+      account = await updateUserPassword(account.email, await hashPassword(newPassword));
+
+      // SECURITY: Keep this session only; others may belong to whoever knew the old password
+      const revokedSessions = await revokeAllSessions(account.email, (await getCurrentSessionId()) ?? undefined);
+
+      // SECURITY: Record the change, never the password or its hash
+      await writeAuditEntry({
+        actor: user.email,
+        requestId,
+        action: 'user.password_change',
+        entityType: 'user',
+        entityId: account.email,
+        after: { revokedSessions },
+      });
+
+      await sendNotification({
+        to: account.email,
+        subject: 'Your password was changed',
+        body: `Hi ${account.name},\n\nThe password for your account was just changed from your profile. If this was not you, reset your password and contact support right away.`,
+      });
+    }
+
+    return createApiResponse(
+      { user: toProfile(account) },
+      'Profile updated successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Update profile error:', error);
+    return createErrorResponse('Failed to update profile', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
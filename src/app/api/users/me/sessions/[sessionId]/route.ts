@@ -0,0 +1,86 @@
+/**
+ * Session API - Revoke one of the signed-in user's sessions
+ *
+ * SECURITY FEATURES:
+ * - Requires authentication
+ * - Users can only revoke their own sessions; others' look missing
+ * - Every revocation is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getSession, revokeSession } from '@/lib/db';
+import { isSessionActive } from '@/lib/session-registry';
+import { requireAuth } from '@/lib/session';
+import { sessionIdSchema } from '@/lib/validations';
+
+interface RouteContext {
+  params: Promise<{ sessionId: string }>;
+}
+
+/**
+ * DELETE /api/users/me/sessions/[sessionId] - Sign out one session
+ *
+ * Revoking the current session signs this device out.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse confirming the revocation
+ */
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const { sessionId } = await context.params;
+    if (!sessionIdSchema.safeParse(sessionId).success) {
+      return createErrorResponse('Invalid session ID', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Another user's session is reported as missing
+    const session = await getSession(sessionId);
+    if (!session || session.email !== user.email) {
+      return createErrorResponse('Session not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    if (!isSessionActive(session)) {
+      return createErrorResponse('This session has already ended', HTTP_STATUS.CONFLICT);
+    }
+
+    await revokeSession(session.id);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'user.session_revoke',
+      entityType: 'user',
+      entityId: user.email,
+      before: { sessionId: session.id, device: session.device, ip: session.ip, createdAt: session.createdAt },
+    });
+
+    return createApiResponse(
+      { id: session.id },
+      'Session signed out',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Revoke session error:', error);
+    return createErrorResponse('Failed to sign out the session', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
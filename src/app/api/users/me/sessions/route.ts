@@ -0,0 +1,116 @@
+/**
+ * Sessions API - The signed-in user's sessions and login history
+ *
+ * SECURITY FEATURES:
+ * - Requires authentication for all operations
+ * - Users can only list and revoke their own sessions
+ * - Revoked sessions are refused from their next request
+ * - Every revocation is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  validateMethod,
+  getRequestId
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getUserSessions } from '@/lib/db';
+import { isSessionActive, revokeAllSessions } from '@/lib/session-registry';
+import { getCurrentSessionId, requireAuth } from '@/lib/session';
+
+/**
+ * GET /api/users/me/sessions - List the user's sessions, newest first
+ *
+ * Includes sessions that ended recently, as a login history. `active` marks
+ * sessions that can still be used and `current` the one making this request.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with the sessions
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+    const currentSessionId = await getCurrentSessionId();
+
+    const now = Date.now();
+    const sessions = (await getUserSessions(user.email)).map(session => ({
+      id: session.id,
+      device: session.device,
+      userAgent: session.userAgent,
+      ip: session.ip,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      revokedAt: session.revokedAt,
+      active: isSessionActive(session, now),
+      current: session.id === currentSessionId,
+    }));
+
+    return createApiResponse(
+      { sessions },
+      'Sessions retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Get sessions error:', error);
+    return createErrorResponse('Failed to get sessions', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * DELETE /api/users/me/sessions - Sign out everywhere
+ *
+ * Revokes every active session, including the one making this request.
+ *
+ * @param request - NextRequest object
+ * @returns NextResponse with how many sessions were revoked
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const revoked = await revokeAllSessions(user.email);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'user.sessions_revoke',
+      entityType: 'user',
+      entityId: user.email,
+      after: { revoked },
+    });
+
+    return createApiResponse(
+      { revoked },
+      'Signed out everywhere',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Revoke sessions error:', error);
+    return createErrorResponse('Failed to sign out everywhere', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
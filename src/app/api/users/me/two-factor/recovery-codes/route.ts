@@ -0,0 +1,100 @@
+/**
+ * Recovery Codes API - Replace the signed-in user's recovery codes
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication and a current code; attempts are rate limited
+ * - Old codes stop working; new ones are returned once and stored only as hashes
+ * - Every replacement is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { ValidationError } from '@/lib/db-errors';
+import { requireAuth } from '@/lib/session';
+import { regenerateRecoveryCodes } from '@/lib/two-factor';
+import { twoFactorConfirmSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * POST /api/users/me/two-factor/recovery-codes - Issue new recovery codes
+ * 
+ * Body: `{ "code": "..." }`, a current code or a recovery code
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the new recovery codes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    // SECURITY: Rate limiting to prevent code guessing
+    const rateLimit = await authRateLimiter.check(`two-factor-${user.email}`);
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(
+        'Too many attempts. Please try again later.',
+        rateLimit
+      );
+    }
+
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(twoFactorConfirmSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.email, validation.data.code);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'user.recovery_codes_regenerate',
+      entityType: 'user',
+      entityId: user.email,
+    });
+
+    return createApiResponse(
+      { recoveryCodes },
+      'New recovery codes created. The old ones no longer work.',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Regenerate recovery codes error:', error);
+    return createErrorResponse('Failed to create recovery codes', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Two-Factor API - The signed-in user's two-factor sign-in settings
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication for all operations
+ * - Users can only change their own settings
+ * - Changes need a current code; code attempts are rate limited
+ * - Recovery codes are returned once and stored only as hashes
+ * - Every change is recorded in the audit log
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import {
+  createApiResponse,
+  createErrorResponse,
+  createRateLimitResponse,
+  validateMethod,
+  validateContentType,
+  parseRequestBody,
+  getRequestId,
+  authRateLimiter
+} from '@/lib/api-utils';
+import { writeAuditEntry } from '@/lib/audit';
+import { HTTP_STATUS } from '@/lib/constants';
+import { getUserByEmail } from '@/lib/db';
+import { ConflictError, ValidationError } from '@/lib/db-errors';
+import { requireAuth } from '@/lib/session';
+import { confirmTwoFactorSetup, getTwoFactorStatus, turnOffTwoFactor } from '@/lib/two-factor';
+import { twoFactorConfirmSchema, validateWithSchema } from '@/lib/validations';
+
+/**
+ * GET /api/users/me/two-factor - Get the user's two-factor settings
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with whether it is on, required, and recovery codes left
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['GET'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const account = await getUserByEmail(user.email);
+    if (!account) {
+      return createErrorResponse('User not found', HTTP_STATUS.NOT_FOUND);
+    }
+
+    return createApiResponse(
+      { twoFactor: getTwoFactorStatus(account) },
+      'Two-factor settings retrieved successfully',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    console.error('Get two-factor settings error:', error);
+    return createErrorResponse('Failed to get two-factor settings', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * POST /api/users/me/two-factor - Finish setup and turn two-factor sign-in on
+ * 
+ * Body: `{ "code": "123456" }`, the current code from the authenticator app
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the recovery codes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    // SECURITY: Rate limiting to prevent code guessing
+    const rateLimit = await authRateLimiter.check(`two-factor-${user.email}`);
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(
+        'Too many attempts. Please try again later.',
+        rateLimit
+      );
+    }
+
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(twoFactorConfirmSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(user.email, validation.data.code);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'user.two_factor_enable',
+      entityType: 'user',
+      entityId: user.email,
+    });
+
+    return createApiResponse(
+      { recoveryCodes },
+      'Two-factor sign-in is on. Save your recovery codes somewhere safe.',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    if (error instanceof ConflictError) {
+      return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+    }
+
+    console.error('Enable two-factor error:', error);
+    return createErrorResponse('Failed to turn on two-factor sign-in', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
+
+/**
+ * DELETE /api/users/me/two-factor - Turn two-factor sign-in off
+ * 
+ * Body: `{ "code": "..." }`, a current code or a recovery code
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse confirming the change
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['DELETE'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Validate Content-Type
+    if (!validateContentType(request, 'application/json')) {
+      return createErrorResponse('Invalid content type', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    // SECURITY: Rate limiting to prevent code guessing
+    const rateLimit = await authRateLimiter.check(`two-factor-${user.email}`);
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(
+        'Too many attempts. Please try again later.',
+        rateLimit
+      );
+    }
+
+    const body = await parseRequestBody(request, 512); // 512 bytes limit
+
+    // SECURITY: Validate input with Zod schema
+    const validation = validateWithSchema(twoFactorConfirmSchema, body);
+
+    if (!validation.success) {
+      return createErrorResponse(
+        `Validation failed: ${validation.errors.join(', ')}`,
+        HTTP_STATUS.BAD_REQUEST
+      );
+    }
+
+    await turnOffTwoFactor(user.email, validation.data.code);
+
+    await writeAuditEntry({
+      actor: user.email,
+      requestId: getRequestId(request),
+      action: 'user.two_factor_disable',
+      entityType: 'user',
+      entityId: user.email,
+    });
+
+    return createApiResponse(
+      { twoFactor: { enabled: false } },
+      'Two-factor sign-in is off',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ValidationError) {
+      return createErrorResponse(error.message, HTTP_STATUS.BAD_REQUEST);
+    }
+
+    console.error('Disable two-factor error:', error);
+    return createErrorResponse('Failed to turn off two-factor sign-in', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Two-Factor Setup API - Start adding an authenticator app
+ * 
+ * SECURITY FEATURES:
+ * - Requires authentication
+ * - The secret stays pending until a valid code confirms it
+ * - QR codes are rendered on the server; the secret never goes to a third party
+ * - Generic error messages
+ */
+
+import { NextRequest } from 'next/server';
+import { createApiResponse, createErrorResponse, validateMethod } from '@/lib/api-utils';
+import { HTTP_STATUS } from '@/lib/constants';
+import { ConflictError } from '@/lib/db-errors';
+import { requireAuth } from '@/lib/session';
+import { beginTwoFactorSetup } from '@/lib/two-factor';
+
+/**
+ * POST /api/users/me/two-factor/setup - Create a secret for the authenticator app
+ * 
+ * Starting again replaces a secret that was never confirmed.
+ * 
+ * @param request - NextRequest object
+ * @returns NextResponse with the secret, otpauth URI and QR code
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // SECURITY: Validate request method
+    if (!validateMethod(request, ['POST'])) {
+      return createErrorResponse('Method not allowed', HTTP_STATUS.BAD_REQUEST);
+    }
+
+    // SECURITY: Require authentication
+    const user = await requireAuth();
+
+    const setup = await beginTwoFactorSetup(user.email);
+
+    return createApiResponse(
+      { setup },
+      'Scan the QR code with your authenticator app, then enter the code it shows',
+      HTTP_STATUS.OK
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Authentication required') {
+      return createErrorResponse('Authentication required', HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    if (error instanceof ConflictError) {
+      return createErrorResponse(error.message, HTTP_STATUS.CONFLICT);
+    }
+
+    console.error('Two-factor setup error:', error);
+    return createErrorResponse('Failed to start two-factor setup', HTTP_STATUS.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -2,14 +2,13 @@
  * Dashboard Page - Server component with authentication check
  * 
  * SECURITY:
- * - Server-side authentication verification
+ * - Server-side authentication verification; audited while an admin views as a student
  * - Redirects unauthenticated users to login
  * - Passes session data to client component
  */
 
 import { redirect } from 'next/navigation';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { getPageSession } from '@/lib/session';
 import { DashboardClient } from '@/components/DashboardClient';
 import type { Metadata } from 'next';
 
@@ -20,7 +19,7 @@ export const metadata: Metadata = {
 
 export default async function DashboardPage() {
   // SECURITY: Server-side authentication check
-  const session = await getServerSession(authOptions);
+  const session = await getPageSession();
   
   // SECURITY: Redirect unauthenticated users to login
   if (!session?.user) {
@@ -0,0 +1,159 @@
+'use client';
+
+/**
+ * Forgot Password Page - Request a password reset link
+ *
+ * SECURITY FEATURES:
+ * - Same confirmation whether or not the account exists (prevent account enumeration)
+ * - Loading states to prevent double submission
+ * - Client-side validation for UX (server-side validation is authoritative)
+ */
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { forgotPasswordSchema } from '@/lib/validations';
+import { APP_CONFIG, ROUTES } from '@/lib/constants';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [successMessage, setSuccessMessage] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // SECURITY: Prevent double submission
+    if (isLoading) return;
+
+    // Client-side validation for UX
+    const result = forgotPasswordSchema.safeParse({ email });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+    setSuccessMessage('');
+
+    try {
+      const response = await fetch('/api/auth/forgot-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setSuccessMessage(data.message);
+      } else {
+        setError(data.error || 'Could not send a reset link. Please try again.');
+      }
+    } catch (error) {
+      setError('Could not send a reset link. Please check your connection and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center space-x-2 mb-6">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">SR</span>
+            </div>
+            <span className="text-xl font-semibold text-gray-800">
+              {APP_CONFIG.name}
+            </span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Forgot Your Password?
+          </h1>
+          <p className="text-gray-600">
+            Enter your email and we will send you a link to choose a new one
+          </p>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-8">
+          {/* Success Message */}
+          {successMessage && (
+            <div
+              className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg"
+              role="alert"
+              aria-live="polite"
+            >
+              <p className="text-green-700 text-sm font-medium">
+                {successMessage}
+              </p>
+            </div>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div
+              className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"
+              role="alert"
+              aria-live="polite"
+            >
+              <p className="text-red-700 text-sm font-medium">
+                {error}
+              </p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Email Address
+              </label>
+              <input
+                id="email"
+                name="email"
+                type="email"
+                required
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                placeholder="Enter your email address"
+                disabled={isLoading}
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading}
+              className={`w-full py-3 px-4 rounded-lg font-semibold transition-all duration-200 ${
+                isLoading
+                  ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+                  : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl'
+              }`}
+            >
+              {isLoading ? 'Sending...' : 'Send Reset Link'}
+            </button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <Link
+              href={ROUTES.LOGIN}
+              className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+            >
+              Back to sign in
+            </Link>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+/**
+ * Instructor Page - Server component with authentication check
+ *
+ * SECURITY:
+ * - Server-side authentication verification; audited while an admin views as a student
+ * - Redirects unauthenticated users to login
+ * - Role is checked by the middleware and again by the roster API
+ * - Passes session data to client component
+ */
+
+import { redirect } from 'next/navigation';
+import { getPageSession } from '@/lib/session';
+import { InstructorClient } from '@/components/InstructorClient';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'My Classes',
+  description: 'View and export the rosters of the classes you teach',
+};
+
+export default async function InstructorPage() {
+  // SECURITY: Server-side authentication check
+  const session = await getPageSession();
+
+  // SECURITY: Redirect unauthenticated users to login
+  if (!session?.user) {
+    redirect('/login?callbackUrl=/instructor');
+  }
+
+  // Pass session to client component
+  return <InstructorClient session={session} />;
+}
@@ -9,6 +9,8 @@
  * - Loading states to prevent double submission
  * - Client-side validation for UX (server-side validation is authoritative)
  * - Accessible form design with ARIA labels
+ * - Unverified accounts are offered a new verification link
+ * - Second step for a two-factor code when the account uses it
  */
 
 import { useState, useEffect } from 'react';
@@ -16,7 +18,16 @@ import { signIn, getSession } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { loginSchema } from '@/lib/validations';
-import { APP_CONFIG } from '@/lib/constants';
+import {
+  APP_CONFIG,
+  ROUTES,
+  ACCOUNT_LOCKED_ERROR,
+  EMAIL_NOT_VERIFIED_ERROR,
+  TWO_FACTOR_REQUIRED_ERROR,
+  TWO_FACTOR_INVALID_ERROR,
+  LOGIN_NOTICES
+} from '@/lib/constants';
+import type { LoginNotice } from '@/lib/constants';
 
 interface FormData {
   email: string;
@@ -40,12 +51,17 @@ export default function LoginPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
+  const [unverifiedEmail, setUnverifiedEmail] = useState('');
+  const [isResending, setIsResending] = useState(false);
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
 
-  // Check for success message from registration
+  // SECURITY: Show a notice from registration, password reset or email
+  // verification; only known codes map to text, never the query itself
   useEffect(() => {
-    const message = searchParams.get('message');
-    if (message) {
-      setSuccessMessage(message);
+    const notice = searchParams.get('notice');
+    if (notice && Object.prototype.hasOwnProperty.call(LOGIN_NOTICES, notice)) {
+      setSuccessMessage(LOGIN_NOTICES[notice as LoginNotice]);
     }
   }, [searchParams]);
 
@@ -104,16 +120,37 @@ export default function LoginPage() {
     
     setIsLoading(true);
     setErrors({});
+    setUnverifiedEmail('');
     
     try {
       // SECURITY: Use NextAuth.js signIn with redirect: false for manual handling
       const result = await signIn('credentials', {
         email: formData.email,
         password: formData.password,
+        ...(needsCode && { code }),
         redirect: false, // Handle redirect manually for better UX
       });
       
-      if (result?.error) {
+      if (result?.error === TWO_FACTOR_REQUIRED_ERROR) {
+        // Password accepted; ask for the code from the authenticator app
+        setNeedsCode(true);
+      } else if (result?.error === TWO_FACTOR_INVALID_ERROR) {
+        setCode('');
+        setErrors({
+          general: 'That code is not valid. Enter the current code from your app or a recovery code.',
+        });
+      } else if (result?.error === ACCOUNT_LOCKED_ERROR) {
+        // Unknown addresses lock the same way, so this reveals nothing
+        setErrors({
+          general: 'Too many failed sign-in attempts. Sign-in is locked for a while; check your email or reset your password.',
+        });
+      } else if (result?.error === EMAIL_NOT_VERIFIED_ERROR) {
+        // Only returned for the right password, so this reveals nothing new
+        setUnverifiedEmail(formData.email);
+        setErrors({
+          general: 'Please verify your email address before signing in. Check your inbox for the link.',
+        });
+      } else if (result?.error) {
         // SECURITY: Display generic error message (prevent account enumeration)
         setErrors({
           general: 'Invalid credentials. Please check your email and password.',
@@ -138,6 +175,37 @@ export default function LoginPage() {
     }
   };
 
+  const handleResendVerification = async () => {
+    // SECURITY: Prevent double submission
+    if (isResending) return;
+
+    setIsResending(true);
+
+    try {
+      const response = await fetch('/api/auth/resend-verification', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email: unverifiedEmail }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setErrors({});
+        setUnverifiedEmail('');
+        setSuccessMessage(data.message);
+      } else {
+        setErrors({ general: data.error || 'Could not send a new link. Please try again.' });
+      }
+    } catch {
+      setErrors({ general: 'Could not send a new link. Please check your connection and try again.' });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100 flex items-center justify-center px-4 py-8">
       <div className="w-full max-w-md">
@@ -185,6 +253,16 @@ export default function LoginPage() {
               <p className="text-red-700 text-sm font-medium">
                 {errors.general}
               </p>
+              {unverifiedEmail && (
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  disabled={isResending}
+                  className="mt-2 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:text-gray-400 transition-colors"
+                >
+                  {isResending ? 'Sending...' : 'Resend verification email'}
+                </button>
+              )}
             </div>
           )}
 
@@ -269,8 +347,46 @@ export default function LoginPage() {
                   {errors.password}
                 </p>
               )}
+              <div className="mt-2 text-right">
+                <Link
+                  href={ROUTES.FORGOT_PASSWORD}
+                  className="text-sm text-blue-600 hover:text-blue-700 transition-colors"
+                >
+                  Forgot your password?
+                </Link>
+              </div>
             </div>
 
+            {/* Two-Factor Code Field */}
+            {needsCode && (
+              <div>
+                <label 
+                  htmlFor="code" 
+                  className="block text-sm font-medium text-gray-700 mb-2"
+                >
+                  Authentication Code
+                </label>
+                <input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="text"
+                  required
+                  autoComplete="one-time-code"
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="6-digit code or recovery code"
+                  aria-describedby="code-help"
+                  disabled={isLoading}
+                />
+                <p id="code-help" className="mt-1 text-sm text-gray-500">
+                  Open your authenticator app, or use one of your recovery codes.
+                </p>
+              </div>
+            )}
+
             {/* Submit Button */}
             <button
               type="submit"
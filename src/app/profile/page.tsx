@@ -0,0 +1,31 @@
+/**
+ * Profile Page - Server component with authentication check
+ * 
+ * SECURITY:
+ * - Server-side authentication verification; audited while an admin views as a student
+ * - Redirects unauthenticated users to login
+ * - Passes session data to client component
+ */
+
+import { redirect } from 'next/navigation';
+import { getPageSession } from '@/lib/session';
+import { ProfileClient } from '@/components/ProfileClient';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Profile',
+  description: 'Update your name, contact preferences and password',
+};
+
+export default async function ProfilePage() {
+  // SECURITY: Server-side authentication check
+  const session = await getPageSession();
+  
+  // SECURITY: Redirect unauthenticated users to login
+  if (!session?.user) {
+    redirect('/login?callbackUrl=/profile');
+  }
+
+  // Pass session to client component
+  return <ProfileClient session={session} />;
+}
@@ -98,7 +98,7 @@ export default function RegisterPage() {
       
       if (response.ok && data.success) {
         // Success: redirect to login with success message
-        router.push('/login?message=Registration successful! Please sign in.');
+        router.push('/login?notice=registered');
       } else {
         // SECURITY: Display generic error message from server
         setErrors({
@@ -0,0 +1,191 @@
+'use client';
+
+/**
+ * Reset Password Page - Choose a new password from an emailed link
+ *
+ * SECURITY FEATURES:
+ * - The token comes from the link and is checked by the server
+ * - New password follows the registration rules
+ * - Loading states to prevent double submission
+ * - Client-side validation for UX (server-side validation is authoritative)
+ */
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { passwordSchema } from '@/lib/validations';
+import { APP_CONFIG, ROUTES } from '@/lib/constants';
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // SECURITY: Prevent double submission
+    if (isLoading) return;
+
+    // Client-side validation for UX
+    const result = passwordSchema.safeParse(password);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/auth/reset-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        router.push(`${ROUTES.LOGIN}?notice=password-reset`);
+      } else {
+        setError(data.error || 'Password reset failed. Please try again.');
+      }
+    } catch (error) {
+      setError('Password reset failed. Please check your connection and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="text-center">
+        <p className="text-gray-700 mb-6">
+          This reset link is incomplete. Please use the link from your email, or request a new one.
+        </p>
+        <Link
+          href={ROUTES.FORGOT_PASSWORD}
+          className="text-blue-600 hover:text-blue-700 font-medium transition-colors"
+        >
+          Request a new link
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Error Message */}
+      {error && (
+        <div
+          className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg"
+          role="alert"
+          aria-live="polite"
+        >
+          <p className="text-red-700 text-sm font-medium">
+            {error}
+          </p>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+        <div>
+          <label
+            htmlFor="password"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            New Password
+          </label>
+          <input
+            id="password"
+            name="password"
+            type="password"
+            required
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="At least 8 characters, with upper and lower case and a number"
+            disabled={isLoading}
+          />
+        </div>
+
+        <div>
+          <label
+            htmlFor="confirmPassword"
+            className="block text-sm font-medium text-gray-700 mb-2"
+          >
+            Confirm New Password
+          </label>
+          <input
+            id="confirmPassword"
+            name="confirmPassword"
+            type="password"
+            required
+            autoComplete="new-password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            placeholder="Enter the new password again"
+            disabled={isLoading}
+          />
+        </div>
+
+        <button
+          type="submit"
+          disabled={isLoading}
+          className={`w-full py-3 px-4 rounded-lg font-semibold transition-all duration-200 ${
+            isLoading
+              ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
+              : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700 shadow-lg hover:shadow-xl'
+          }`}
+        >
+          {isLoading ? 'Saving...' : 'Set New Password'}
+        </button>
+      </form>
+    </>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100 flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-md">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <Link href="/" className="inline-flex items-center space-x-2 mb-6">
+            <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">SR</span>
+            </div>
+            <span className="text-xl font-semibold text-gray-800">
+              {APP_CONFIG.name}
+            </span>
+          </Link>
+
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            Choose a New Password
+          </h1>
+        </div>
+
+        <div className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-xl border border-white/30 p-8">
+          {/* useSearchParams needs a Suspense boundary when the page is prerendered */}
+          <Suspense fallback={null}>
+            <ResetPasswordForm />
+          </Suspense>
+        </div>
+      </div>
+    </div>
+  );
+}
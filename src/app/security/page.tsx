@@ -0,0 +1,31 @@
+/**
+ * Security Page - Server component with authentication check
+ * 
+ * SECURITY:
+ * - Server-side authentication verification; audited while an admin views as a student
+ * - Redirects unauthenticated users to login
+ * - Passes session data to client component
+ */
+
+import { redirect } from 'next/navigation';
+import { getPageSession } from '@/lib/session';
+import { SecurityClient } from '@/components/SecurityClient';
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Security',
+  description: 'Manage two-factor sign-in and signed-in sessions for your account',
+};
+
+export default async function SecurityPage() {
+  // SECURITY: Server-side authentication check
+  const session = await getPageSession();
+  
+  // SECURITY: Redirect unauthenticated users to login
+  if (!session?.user) {
+    redirect('/login?callbackUrl=/security');
+  }
+
+  // Pass session to client component
+  return <SecurityClient session={session} />;
+}
@@ -7,14 +7,20 @@
  * - Displays available classes in a responsive grid
  * - Shows user's enrolled classes
  * - Handles enrollment/unenrollment actions
+ * - Offers a waitlist for full classes and shows queue positions
+ * - Registration cart per term with a whole-cart check and batch registration
+ * - Shows the term's credit load and lets students request an overload
+ * - Lets admins view the dashboard as a student, with a banner while they do
  * - Real-time loading states and error handling
  * - Modern, accessible design with Tailwind CSS
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { signOut } from 'next-auth/react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { signOut, useSession } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import type { Session } from 'next-auth';
+import { ROUTES } from '@/lib/constants';
 
 interface Class {
   id: string;
@@ -25,9 +31,11 @@ interface Class {
   currentEnrollment: number;
   schedule: string;
   semester: string;
+  termId?: string;
   credits: number;
   prerequisites: string;
   location: string;
+  status?: 'active' | 'cancelled';
 }
 
 interface Enrollment {
@@ -36,15 +44,67 @@ interface Enrollment {
   className: string;
   classId: string;
   enrolledAt: string;
-  status: 'active' | 'dropped';
+  status: 'active' | 'dropped' | 'waitlisted' | 'withdrawn';
+  waitlistPosition?: number;
+  withdrawnAt?: string;
 }
 
+interface Cart {
+  termId: string;
+  classIds: string[];
+}
+
+type CartSubmitMode = 'all-or-nothing' | 'best-effort';
+
+interface CartIssue {
+  code: string;
+  message: string;
+}
+
+interface CartValidation {
+  valid: boolean;
+  totalCredits: number;
+  minCredits: number;
+  maxCredits: number;
+  belowMinimum: boolean;
+  items: { classId: string; issue: CartIssue | null }[];
+}
+
+interface CartItemResult {
+  classId: string;
+  className?: string;
+  outcome: 'enrolled' | 'failed' | 'not_attempted' | 'rolled_back';
+  issue?: CartIssue;
+}
+
+interface CreditSummary {
+  currentCredits: number;
+  creditLimit: {
+    minCredits: number;
+    maxCredits: number;
+    overloadApproved: boolean;
+  };
+  overloadRequest: {
+    requestedCredits: number;
+    status: 'pending' | 'approved' | 'denied';
+    reviewNote?: string;
+  } | null;
+}
+
+const CART_OUTCOME_LABELS: Record<CartItemResult['outcome'], string> = {
+  enrolled: 'Enrolled',
+  failed: 'Failed',
+  not_attempted: 'Not attempted',
+  rolled_back: 'Released',
+};
+
 interface DashboardClientProps {
   session: Session;
 }
 
 export function DashboardClient({ session }: DashboardClientProps) {
   const router = useRouter();
+  const { update } = useSession();
   const [classes, setClasses] = useState<Class[]>([]);
   const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
   const [loadingClasses, setLoadingClasses] = useState(true);
@@ -53,35 +113,52 @@ export function DashboardClient({ session }: DashboardClientProps) {
   const [unenrolling, setUnenrolling] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [cartTermId, setCartTermId] = useState<string | null>(null);
+  const [cart, setCart] = useState<Cart | null>(null);
+  const [cartBusy, setCartBusy] = useState(false);
+  const [cartValidation, setCartValidation] = useState<CartValidation | null>(null);
+  const [cartResults, setCartResults] = useState<CartItemResult[] | null>(null);
+  const [creditSummary, setCreditSummary] = useState<CreditSummary | null>(null);
+  const [showOverloadForm, setShowOverloadForm] = useState(false);
+  const [overloadCredits, setOverloadCredits] = useState('');
+  const [overloadReason, setOverloadReason] = useState('');
+  const [viewAsEmail, setViewAsEmail] = useState('');
+  const [viewAsReason, setViewAsReason] = useState('');
+  const [viewAsBusy, setViewAsBusy] = useState(false);
+  const impersonatedBy = session.user.impersonatedBy;
 
   // Fetch available classes
-  useEffect(() => {
-    const fetchClasses = async () => {
-      try {
-        const response = await fetch('/api/classes');
-        const data = await response.json();
-        
-        if (response.ok && data.success) {
-          setClasses(data.data.classes);
-        } else {
-          setError('Failed to load classes');
-        }
-      } catch (error) {
+  const fetchClasses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/classes');
+      const data = await response.json();
+      
+      if (response.ok && data.success) {
+        setClasses(data.data.classes);
+      } else {
         setError('Failed to load classes');
-      } finally {
-        setLoadingClasses(false);
       }
-    };
+    } catch (error) {
+      setError('Failed to load classes');
+    } finally {
+      setLoadingClasses(false);
+    }
+  }, []);
 
+  useEffect(() => {
     fetchClasses();
-  }, []);
+  }, [fetchClasses]);
 
   // Fetch user enrollments
-  const fetchEnrollments = useCallback(async (showLoading = true) => {
+  // writtenClassIds: classes just enrolled in or dropped, so we read our own writes
+  const fetchEnrollments = useCallback(async (showLoading = true, writtenClassIds: string[] = []) => {
     if (showLoading) setLoadingEnrollments(true);
     
     try {
-      const response = await fetch('/api/enrollments');
+      const query = new URLSearchParams(writtenClassIds.map(classId => ['classId', classId]));
+      const response = await fetch(
+        writtenClassIds.length > 0 ? `/api/enrollments?consistent=true&${query}` : '/api/enrollments'
+      );
       
       if (response.status === 401) {
         // Session expired, redirect to login
@@ -119,8 +196,61 @@ export function DashboardClient({ session }: DashboardClientProps) {
     fetchEnrollments();
   }, [fetchEnrollments]);
 
-  // Handle class enrollment
-  const handleEnroll = async (classId: string) => {
+  // Terms that have classes in the catalog; the cart is kept per term
+  const termIds = useMemo(
+    () => [...new Set(classes.map(classItem => classItem.termId).filter((id): id is string => !!id))],
+    [classes]
+  );
+
+  useEffect(() => {
+    if (!cartTermId && termIds.length > 0) {
+      setCartTermId(termIds[0]);
+    }
+  }, [cartTermId, termIds]);
+
+  // Fetch the cart for the selected term
+  const fetchCart = useCallback(async (termId: string) => {
+    try {
+      const response = await fetch(`/api/cart?termId=${encodeURIComponent(termId)}`);
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCart(data.data.cart);
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError('Failed to load your cart');
+      }
+    } catch (error) {
+      setError('Failed to load your cart');
+    }
+  }, [router]);
+
+  // Fetch the credit load, limits and overload request for the selected term
+  const fetchCreditSummary = useCallback(async (termId: string) => {
+    try {
+      const response = await fetch(`/api/overloads?termId=${encodeURIComponent(termId)}`);
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCreditSummary(data.data);
+      }
+    } catch (error) {
+      console.error('Frontend: Failed to load credit load:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (cartTermId) {
+      setCartValidation(null);
+      setCartResults(null);
+      fetchCart(cartTermId);
+      fetchCreditSummary(cartTermId);
+    }
+  }, [cartTermId, fetchCart, fetchCreditSummary]);
+
+  // Handle class enrollment, or joining the waitlist of a full class
+  const handleEnroll = async (classId: string, action: 'enroll' | 'waitlist' = 'enroll') => {
     setEnrollingClassId(classId);
     setError(null);
     setSuccessMessage(null);
@@ -133,17 +263,21 @@ export function DashboardClient({ session }: DashboardClientProps) {
         },
         body: JSON.stringify({
           classId,
-          action: 'enroll',
+          action,
         }),
       });
 
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSuccessMessage(`Successfully enrolled in ${data.data.className}!`);
+        setSuccessMessage(
+          action === 'waitlist'
+            ? `Joined the waitlist for ${data.data.className} at position #${data.data.waitlistPosition}.`
+            : `Successfully enrolled in ${data.data.className}!`
+        );
         
-        // Refresh enrollments
-        await fetchEnrollments(false);
+        // Refresh enrollments and seat counts
+        await Promise.all([fetchEnrollments(false, [classId]), fetchClasses()]);
       } else if (response.status === 401) {
         router.push('/login');
       } else {
@@ -157,12 +291,12 @@ export function DashboardClient({ session }: DashboardClientProps) {
   };
 
   // Handle class unenrollment
-  const handleUnenroll = async (className: string) => {
+  const handleUnenroll = async (classId: string, className: string) => {
     if (!confirm(`Are you sure you want to unenroll from ${className}?`)) {
       return;
     }
 
-    setUnenrolling(className);
+    setUnenrolling(classId);
     setError(null);
     setSuccessMessage(null);
 
@@ -173,17 +307,21 @@ export function DashboardClient({ session }: DashboardClientProps) {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          className,
+          classId,
         }),
       });
 
       const data = await response.json();
 
       if (response.ok && data.success) {
-        setSuccessMessage(`Successfully unenrolled from ${className}!`);
+        setSuccessMessage(
+          data.data?.enrollment?.status === 'withdrawn'
+            ? `Withdrawn from ${className}. A W will appear on your record.`
+            : `Successfully unenrolled from ${className}!`
+        );
         
-        // Refresh enrollments
-        await fetchEnrollments(false);
+        // Refresh enrollments and seat counts
+        await Promise.all([fetchEnrollments(false, [classId]), fetchClasses()]);
       } else if (response.status === 401) {
         router.push('/login');
       } else {
@@ -196,6 +334,215 @@ export function DashboardClient({ session }: DashboardClientProps) {
     }
   };
 
+  // Add a class to the cart, or take it out
+  const handleCartChange = async (classItem: Class, action: 'add' | 'remove') => {
+    if (!classItem.termId) {
+      return;
+    }
+
+    setCartBusy(true);
+    setError(null);
+    setCartValidation(null);
+    setCartResults(null);
+
+    try {
+      const response = await fetch('/api/cart', {
+        method: action === 'add' ? 'POST' : 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          termId: classItem.termId,
+          classId: classItem.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCartTermId(classItem.termId);
+        setCart(data.data.cart);
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Failed to update your cart');
+      }
+    } catch (error) {
+      setError('Failed to update your cart. Please try again.');
+    } finally {
+      setCartBusy(false);
+    }
+  };
+
+  // Check the whole cart before registering
+  const handleValidateCart = async () => {
+    if (!cartTermId) {
+      return;
+    }
+
+    setCartBusy(true);
+    setError(null);
+    setCartResults(null);
+
+    try {
+      const response = await fetch(`/api/cart/validate?termId=${encodeURIComponent(cartTermId)}`);
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setCartValidation(data.data.validation);
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Failed to check your cart');
+      }
+    } catch (error) {
+      setError('Failed to check your cart. Please try again.');
+    } finally {
+      setCartBusy(false);
+    }
+  };
+
+  // Register for the whole cart in one step
+  const handleSubmitCart = async (mode: CartSubmitMode) => {
+    if (!cartTermId) {
+      return;
+    }
+
+    setCartBusy(true);
+    setError(null);
+    setSuccessMessage(null);
+    setCartValidation(null);
+
+    try {
+      const response = await fetch('/api/cart/submit', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          termId: cartTermId,
+          mode,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.status === 401) {
+        router.push('/login');
+        return;
+      }
+
+      // Results come back whether or not anything was enrolled
+      if (data.data?.submission) {
+        setCartResults(data.data.submission.items);
+        setCart(data.data.submission.cart ?? { termId: cartTermId, classIds: [] });
+      }
+
+      if (response.ok && data.success) {
+        setSuccessMessage(data.message);
+
+        // Refresh enrollments, seat counts and credit load
+        await Promise.all([
+          fetchEnrollments(false, (data.data?.submission?.items ?? []).map((item: CartItemResult) => item.classId)),
+          fetchClasses(),
+          fetchCreditSummary(cartTermId),
+        ]);
+      } else {
+        setError(data.error || 'Registration failed');
+      }
+    } catch (error) {
+      setError('Registration failed. Please try again.');
+    } finally {
+      setCartBusy(false);
+    }
+  };
+
+  // Ask an advisor to raise the credit limit for the selected term
+  const handleRequestOverload = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!cartTermId) {
+      return;
+    }
+
+    setCartBusy(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch('/api/overloads', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          termId: cartTermId,
+          requestedCredits: Number(overloadCredits),
+          reason: overloadReason,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setSuccessMessage('Overload request sent to your advisor.');
+        setShowOverloadForm(false);
+        setOverloadCredits('');
+        setOverloadReason('');
+        await fetchCreditSummary(cartTermId);
+      } else if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Failed to request an overload');
+      }
+    } catch (error) {
+      setError('Failed to request an overload. Please try again.');
+    } finally {
+      setCartBusy(false);
+    }
+  };
+
+  // Start or stop viewing as a student, then reload as the new user
+  const changeViewAs = async (method: 'POST' | 'DELETE') => {
+    setViewAsBusy(true);
+    setError(null);
+    setSuccessMessage(null);
+
+    try {
+      const response = await fetch('/api/admin/impersonation', {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        ...(method === 'POST' && { body: JSON.stringify({ email: viewAsEmail, reason: viewAsReason }) }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        // Refresh the session token first, so the change applies to every request
+        await update();
+        window.location.assign(ROUTES.DASHBOARD);
+        return;
+      }
+
+      if (response.status === 401) {
+        router.push('/login');
+      } else {
+        setError(data.error || 'Failed to change who you are viewing as');
+      }
+    } catch (error) {
+      setError('Failed to change who you are viewing as. Please try again.');
+    } finally {
+      setViewAsBusy(false);
+    }
+  };
+
+  const handleStartViewAs = async (event: React.FormEvent) => {
+    event.preventDefault();
+    await changeViewAs('POST');
+  };
+
   // Handle logout
   const handleLogout = async () => {
     await signOut({ callbackUrl: '/' });
@@ -208,6 +555,25 @@ export function DashboardClient({ session }: DashboardClientProps) {
     );
   };
 
+  // Get the user's waitlist entry for a class, if any
+  const getWaitlistEntry = (classId: string) => {
+    return enrollments.find(enrollment =>
+      enrollment.classId === classId && enrollment.status === 'waitlisted'
+    );
+  };
+
+  const isInCart = (classId: string) => {
+    return !!cart?.classIds.includes(classId);
+  };
+
+  const getCartIssue = (classId: string) => {
+    return cartValidation?.items.find(item => item.classId === classId)?.issue ?? null;
+  };
+
+  const cartClasses = (cart?.classIds || [])
+    .map(classId => classes.find(classItem => classItem.id === classId))
+    .filter((classItem): classItem is Class => !!classItem);
+
   // Clear messages after 5 seconds
   useEffect(() => {
     if (successMessage) {
@@ -225,8 +591,27 @@ export function DashboardClient({ session }: DashboardClientProps) {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100">
+      {/* Shown on every screen while an admin views as a student */}
+      {impersonatedBy && (
+        <div className="bg-amber-100 border-b border-amber-300 sticky top-0 z-20" role="status">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap justify-between items-center gap-2">
+            <p className="text-sm text-amber-900">
+              Viewing as <span className="font-semibold">{session.user.name}</span> ({session.user.email}).
+              Read-only; signed in as {impersonatedBy}. Every request is recorded in the audit log.
+            </p>
+            <button
+              onClick={() => changeViewAs('DELETE')}
+              disabled={viewAsBusy}
+              className="px-3 py-1 text-sm rounded-lg font-medium bg-amber-600 text-white hover:bg-amber-700 disabled:bg-gray-300 transition-colors"
+            >
+              Stop viewing
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
-      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-10">
+      <header className={`bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky z-10 ${impersonatedBy ? 'top-10' : 'top-0'}`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
             <div className="flex items-center space-x-3">
@@ -239,12 +624,36 @@ export function DashboardClient({ session }: DashboardClientProps) {
               </div>
             </div>
             
-            <button
-              onClick={handleLogout}
-              className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
-            >
-              Sign Out
-            </button>
+            <div className="flex items-center space-x-2">
+              {session.user.role === 'instructor' && (
+                <Link
+                  href={ROUTES.INSTRUCTOR}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+                >
+                  My Classes
+                </Link>
+              )}
+              <Link
+                href={ROUTES.PROFILE}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Profile
+              </Link>
+              {!impersonatedBy && (
+                <Link
+                  href={ROUTES.SECURITY}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+                >
+                  Security
+                </Link>
+              )}
+              <button
+                onClick={handleLogout}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Sign Out
+              </button>
+            </div>
           </div>
         </div>
       </header>
@@ -263,6 +672,40 @@ export function DashboardClient({ session }: DashboardClientProps) {
           </div>
         )}
 
+        {/* Admins can see the dashboard exactly as a student does */}
+        {session.user.role === 'admin' && !impersonatedBy && (
+          <section className="mb-8 bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">View as student</h2>
+            <form onSubmit={handleStartViewAs} className="flex flex-wrap gap-2">
+              <input
+                type="email"
+                value={viewAsEmail}
+                onChange={(event) => setViewAsEmail(event.target.value)}
+                placeholder="Student email"
+                required
+                className="w-64 px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <input
+                type="text"
+                value={viewAsReason}
+                onChange={(event) => setViewAsReason(event.target.value)}
+                placeholder="Reason, e.g. the ticket you are working on"
+                required
+                minLength={10}
+                maxLength={500}
+                className="flex-1 min-w-64 px-3 py-2 border border-gray-300 rounded-lg"
+              />
+              <button
+                type="submit"
+                disabled={viewAsBusy}
+                className="px-4 py-2 rounded-lg font-medium bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-300"
+              >
+                View as student
+              </button>
+            </form>
+          </section>
+        )}
+
         {/* My Enrolled Classes */}
         <section className="mb-12">
           <h2 className="text-2xl font-bold text-gray-900 mb-6">My Enrolled Classes</h2>
@@ -294,31 +737,49 @@ export function DashboardClient({ session }: DashboardClientProps) {
                         {enrollment.className}
                       </h3>
                       <p className="text-sm text-gray-600">
-                        Enrolled on {new Date(enrollment.enrolledAt).toLocaleDateString()}
+                        {enrollment.status === 'waitlisted'
+                          ? `Waitlisted on ${new Date(enrollment.enrolledAt).toLocaleDateString()}`
+                          : enrollment.status === 'withdrawn' && enrollment.withdrawnAt
+                          ? `Withdrew on ${new Date(enrollment.withdrawnAt).toLocaleDateString()}`
+                          : `Enrolled on ${new Date(enrollment.enrolledAt).toLocaleDateString()}`}
                       </p>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <span className="px-3 py-1 bg-green-100 text-green-800 text-sm font-medium rounded-full">
-                        Enrolled
-                      </span>
-                      <button
-                        onClick={() => handleUnenroll(enrollment.className)}
-                        disabled={unenrolling === enrollment.className}
-                        className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
-                          unenrolling === enrollment.className
-                            ? 'bg-gray-100 text-gray-500 cursor-not-allowed'
-                            : 'bg-red-500 text-white hover:bg-red-600 shadow-sm hover:shadow-md'
-                        }`}
-                      >
-                        {unenrolling === enrollment.className ? (
-                          <div className="flex items-center space-x-2">
-                            <div className="w-4 h-4 border-2 border-gray-400/30 border-t-gray-400 rounded-full animate-spin" />
-                            <span>Unenrolling...</span>
-                          </div>
-                        ) : (
-                          'Unenroll'
-                        )}
-                      </button>
+                      {enrollment.status === 'waitlisted' ? (
+                        <span className="px-3 py-1 bg-amber-100 text-amber-800 text-sm font-medium rounded-full">
+                          Waitlist #{enrollment.waitlistPosition}
+                        </span>
+                      ) : enrollment.status === 'withdrawn' ? (
+                        <span className="px-3 py-1 bg-gray-100 text-gray-700 text-sm font-medium rounded-full">
+                          Withdrawn
+                        </span>
+                      ) : (
+                        <span className="px-3 py-1 bg-green-100 text-green-800 text-sm font-medium rounded-full">
+                          Enrolled
+                        </span>
+                      )}
+                      {enrollment.status !== 'withdrawn' && (
+                        <button
+                          onClick={() => handleUnenroll(enrollment.classId, enrollment.className)}
+                          disabled={unenrolling === enrollment.classId}
+                          className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                            unenrolling === enrollment.classId
+                              ? 'bg-gray-100 text-gray-500 cursor-not-allowed'
+                              : 'bg-red-500 text-white hover:bg-red-600 shadow-sm hover:shadow-md'
+                          }`}
+                        >
+                          {unenrolling === enrollment.classId ? (
+                            <div className="flex items-center space-x-2">
+                              <div className="w-4 h-4 border-2 border-gray-400/30 border-t-gray-400 rounded-full animate-spin" />
+                              <span>Unenrolling...</span>
+                            </div>
+                          ) : enrollment.status === 'waitlisted' ? (
+                            'Leave Waitlist'
+                          ) : (
+                            'Unenroll'
+                          )}
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -327,6 +788,175 @@ export function DashboardClient({ session }: DashboardClientProps) {
           )}
         </section>
 
+        {/* Registration Cart */}
+        {termIds.length > 0 && (
+          <section className="mb-12">
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold text-gray-900">My Cart</h2>
+              {termIds.length > 1 && (
+                <select
+                  value={cartTermId ?? ''}
+                  onChange={(event) => setCartTermId(event.target.value)}
+                  className="px-3 py-2 bg-white border border-gray-300 rounded-lg text-sm"
+                  aria-label="Term"
+                >
+                  {termIds.map(termId => {
+                    const semester = classes.find(classItem => classItem.termId === termId)?.semester;
+                    return <option key={termId} value={termId}>{semester || termId}</option>;
+                  })}
+                </select>
+              )}
+            </div>
+
+            <div className="bg-white/70 backdrop-blur-sm rounded-xl p-6 border border-white/30 shadow-sm">
+              {creditSummary && (
+                <div className="mb-4 pb-4 border-b border-gray-200 text-sm text-gray-700">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <p>
+                      <span className="font-medium">{creditSummary.currentCredits} credits</span> enrolled
+                      {' '}(minimum {creditSummary.creditLimit.minCredits}, maximum {creditSummary.creditLimit.maxCredits}
+                      {creditSummary.creditLimit.overloadApproved && ' with approved overload'})
+                    </p>
+                    {creditSummary.overloadRequest && creditSummary.overloadRequest.status !== 'denied' ? (
+                      <span className={`px-3 py-1 text-sm font-medium rounded-full ${
+                        creditSummary.overloadRequest.status === 'approved'
+                          ? 'bg-green-100 text-green-800'
+                          : 'bg-amber-100 text-amber-800'
+                      }`}>
+                        Overload to {creditSummary.overloadRequest.requestedCredits} {creditSummary.overloadRequest.status}
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => setShowOverloadForm(!showOverloadForm)}
+                        className="text-indigo-700 hover:text-indigo-900 font-medium"
+                      >
+                        Request Overload
+                      </button>
+                    )}
+                  </div>
+                  {creditSummary.overloadRequest?.status === 'denied' && (
+                    <p className="mt-1 text-red-700">
+                      Your overload request was denied.
+                      {creditSummary.overloadRequest.reviewNote && ` ${creditSummary.overloadRequest.reviewNote}`}
+                    </p>
+                  )}
+                  {showOverloadForm && (
+                    <form onSubmit={handleRequestOverload} className="mt-3 space-y-2">
+                      <input
+                        type="number"
+                        min={creditSummary.creditLimit.maxCredits + 1}
+                        value={overloadCredits}
+                        onChange={(event) => setOverloadCredits(event.target.value)}
+                        placeholder="Credits you need"
+                        required
+                        className="w-40 px-3 py-2 border border-gray-300 rounded-lg"
+                      />
+                      <textarea
+                        value={overloadReason}
+                        onChange={(event) => setOverloadReason(event.target.value)}
+                        placeholder="Why do you need the extra credits?"
+                        required
+                        minLength={10}
+                        maxLength={500}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg"
+                      />
+                      <button
+                        type="submit"
+                        disabled={cartBusy}
+                        className="px-4 py-2 rounded-lg font-medium bg-indigo-600 text-white hover:bg-indigo-700"
+                      >
+                        Send Request
+                      </button>
+                    </form>
+                  )}
+                </div>
+              )}
+
+              {cartResults && (
+                <ul className="mb-4 space-y-1 text-sm">
+                  {cartResults.map(result => (
+                    <li key={result.classId} className={result.outcome === 'enrolled' ? 'text-green-700' : 'text-red-700'}>
+                      <span className="font-medium">{result.className || result.classId}:</span>{' '}
+                      {CART_OUTCOME_LABELS[result.outcome]}
+                      {result.issue && ` - ${result.issue.message}`}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {cartClasses.length === 0 ? (
+                <p className="text-gray-600">Your cart is empty. Add classes below, then register for all of them at once.</p>
+              ) : (
+                <>
+                  <ul className="divide-y divide-gray-200 mb-4">
+                    {cartClasses.map(classItem => {
+                      const issue = getCartIssue(classItem.id);
+
+                      return (
+                        <li key={classItem.id} className="py-3 flex items-center justify-between">
+                          <div>
+                            <p className="font-medium text-gray-900">{classItem.name}</p>
+                            <p className="text-sm text-gray-600">{classItem.schedule} · {classItem.credits} credits</p>
+                            {issue ? (
+                              <p className="text-sm text-red-700">{issue.message}</p>
+                            ) : cartValidation ? (
+                              <p className="text-sm text-green-700">Ready to register</p>
+                            ) : null}
+                          </div>
+                          <button
+                            onClick={() => handleCartChange(classItem, 'remove')}
+                            disabled={cartBusy}
+                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800 font-medium"
+                          >
+                            Remove
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  {cartValidation && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      {cartValidation.totalCredits} of {cartValidation.maxCredits} credits this term
+                      {cartValidation.belowMinimum && (
+                        <span className="text-amber-700"> - below the minimum load of {cartValidation.minCredits}</span>
+                      )}
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={handleValidateCart}
+                      disabled={cartBusy}
+                      className="px-4 py-2 rounded-lg font-medium bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+                    >
+                      Check Cart
+                    </button>
+                    <button
+                      onClick={() => handleSubmitCart('all-or-nothing')}
+                      disabled={cartBusy}
+                      className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                        cartBusy
+                          ? 'bg-blue-100 text-blue-600 cursor-not-allowed'
+                          : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+                      }`}
+                    >
+                      Register for All
+                    </button>
+                    <button
+                      onClick={() => handleSubmitCart('best-effort')}
+                      disabled={cartBusy}
+                      className="px-4 py-2 rounded-lg font-medium bg-white border border-blue-600 text-blue-700 hover:bg-blue-50"
+                    >
+                      Register for Available
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          </section>
+        )}
+
         {/* Available Classes */}
         <section>
           <h2 className="text-2xl font-bold text-gray-900 mb-6">Available Classes</h2>
@@ -337,8 +967,10 @@ export function DashboardClient({ session }: DashboardClientProps) {
             </div>
           ) : (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-              {classes.map((classItem) => {
+              {/* Cancelled classes stay in the catalog but can't be joined */}
+              {classes.filter(classItem => classItem.status !== 'cancelled').map((classItem) => {
                 const isEnrolled = isEnrolledInClass(classItem.id);
+                const waitlistEntry = getWaitlistEntry(classItem.id);
                 const isEnrolling = enrollingClassId === classItem.id;
                 const isFull = classItem.currentEnrollment >= classItem.capacity;
 
@@ -388,33 +1020,52 @@ export function DashboardClient({ session }: DashboardClientProps) {
                       <div className="text-sm">
                         <span className="font-medium text-gray-900">{classItem.credits} credits</span>
                       </div>
-                      
-                      <button
-                        onClick={() => handleEnroll(classItem.id)}
-                        disabled={isEnrolled || isEnrolling || isFull}
-                        className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
-                          isEnrolled
-                            ? 'bg-green-100 text-green-800 cursor-not-allowed'
-                            : isFull
-                            ? 'bg-gray-100 text-gray-500 cursor-not-allowed'
-                            : isEnrolling
-                            ? 'bg-blue-100 text-blue-600 cursor-not-allowed'
-                            : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
-                        }`}
-                      >
-                        {isEnrolling ? (
-                          <div className="flex items-center space-x-2">
-                            <div className="w-4 h-4 border-2 border-blue-600/30 border-t-blue-600 rounded-full animate-spin" />
-                            <span>Enrolling...</span>
-                          </div>
-                        ) : isEnrolled ? (
-                          'Enrolled'
-                        ) : isFull ? (
-                          'Full'
-                        ) : (
-                          'Enroll'
+
+                      <div className="flex items-center space-x-2">
+                        {classItem.termId && !isEnrolled && !waitlistEntry && (
+                          <button
+                            onClick={() => handleCartChange(classItem, isInCart(classItem.id) ? 'remove' : 'add')}
+                            disabled={cartBusy}
+                            className={`px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200 ${
+                              isInCart(classItem.id)
+                                ? 'bg-indigo-100 text-indigo-800 hover:bg-indigo-200'
+                                : 'bg-white border border-indigo-300 text-indigo-700 hover:bg-indigo-50'
+                            }`}
+                          >
+                            {isInCart(classItem.id) ? 'In Cart' : 'Add to Cart'}
+                          </button>
                         )}
-                      </button>
+                        <button
+                          onClick={() => handleEnroll(classItem.id, isFull ? 'waitlist' : 'enroll')}
+                          disabled={isEnrolled || isEnrolling || !!waitlistEntry}
+                          className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                            isEnrolled
+                              ? 'bg-green-100 text-green-800 cursor-not-allowed'
+                              : waitlistEntry
+                              ? 'bg-amber-100 text-amber-800 cursor-not-allowed'
+                              : isEnrolling
+                              ? 'bg-blue-100 text-blue-600 cursor-not-allowed'
+                              : isFull
+                              ? 'bg-amber-500 text-white hover:bg-amber-600 shadow-sm hover:shadow-md'
+                              : 'bg-blue-600 text-white hover:bg-blue-700 shadow-sm hover:shadow-md'
+                          }`}
+                        >
+                          {isEnrolling ? (
+                            <div className="flex items-center space-x-2">
+                              <div className="w-4 h-4 border-2 border-blue-600/30 border-t-blue-600 rounded-full animate-spin" />
+                              <span>{isFull ? 'Joining...' : 'Enrolling...'}</span>
+                            </div>
+                          ) : isEnrolled ? (
+                            'Enrolled'
+                          ) : waitlistEntry ? (
+                            `Waitlist #${waitlistEntry.waitlistPosition}`
+                          ) : isFull ? (
+                            'Join Waitlist'
+                          ) : (
+                            'Enroll'
+                          )}
+                        </button>
+                      </div>
                     </div>
                   </div>
                 );
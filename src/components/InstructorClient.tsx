@@ -0,0 +1,227 @@
+'use client';
+
+/**
+ * Instructor Client Component - Rosters of the classes an instructor teaches
+ *
+ * FEATURES:
+ * - Lists the instructor's classes with seats taken and waitlist length
+ * - Shows a class roster: enrolled students, then the waitlist in order
+ * - Downloads the roster as CSV or JSON
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { signOut } from 'next-auth/react';
+import Link from 'next/link';
+import type { Session } from 'next-auth';
+import { ROUTES } from '@/lib/constants';
+import type { RosterEntry } from '@/lib/class-roster';
+import type { Class } from '@/types';
+
+interface TaughtClass extends Class {
+  waitlistCount: number;
+}
+
+interface InstructorClientProps {
+  session: Session;
+}
+
+export function InstructorClient({ session }: InstructorClientProps) {
+  const [classes, setClasses] = useState<TaughtClass[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [roster, setRoster] = useState<RosterEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClasses = useCallback(async () => {
+    try {
+      const response = await fetch('/api/instructor/classes');
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setClasses(data.data.classes);
+        setSelectedId(current => current ?? data.data.classes[0]?.id ?? null);
+      } else {
+        setError(data.error || 'Failed to load your classes');
+      }
+    } catch (error) {
+      setError('Failed to load your classes. Please try again.');
+    }
+  }, []);
+
+  const fetchRoster = useCallback(async (classId: string) => {
+    setRoster(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/instructor/classes/${encodeURIComponent(classId)}/roster`);
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setRoster(data.data.roster);
+      } else {
+        setError(data.error || 'Failed to load the roster');
+      }
+    } catch (error) {
+      setError('Failed to load the roster. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchClasses();
+  }, [fetchClasses]);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchRoster(selectedId);
+    }
+  }, [selectedId, fetchRoster]);
+
+  const selected = classes?.find(classItem => classItem.id === selectedId);
+  const rosterUrl = selected ? `/api/instructor/classes/${encodeURIComponent(selected.id)}/roster` : '';
+  const enrolled = roster?.filter(entry => entry.status === 'active') ?? [];
+  const waitlist = roster?.filter(entry => entry.status === 'waitlisted') ?? [];
+
+  const linkClass = 'px-4 py-2 rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 transition-colors';
+
+  const renderTable = (entries: RosterEntry[], showPosition: boolean) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            {showPosition && <th className="py-2 pr-4 font-medium">#</th>}
+            <th className="py-2 pr-4 font-medium">Name</th>
+            <th className="py-2 pr-4 font-medium">Student ID</th>
+            <th className="py-2 pr-4 font-medium">Email</th>
+            <th className="py-2 pr-4 font-medium">{showPosition ? 'Joined waitlist' : 'Enrolled'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(entry => (
+            <tr key={entry.email} className="border-b border-gray-100 last:border-0">
+              {showPosition && <td className="py-2 pr-4 text-gray-900">{entry.waitlistPosition}</td>}
+              <td className="py-2 pr-4 text-gray-900">{entry.name || '—'}</td>
+              <td className="py-2 pr-4 text-gray-900">{entry.studentId || '—'}</td>
+              <td className="py-2 pr-4 text-gray-900 break-all">{entry.email}</td>
+              <td className="py-2 pr-4 text-gray-600">{new Date(entry.enrolledAt).toLocaleString()}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-10">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">SR</span>
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">My Classes</h1>
+                <p className="text-sm text-gray-600">{session.user.name}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Link
+                href={ROUTES.DASHBOARD}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Dashboard
+              </Link>
+              <button
+                onClick={() => signOut({ callbackUrl: '/' })}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Status Messages */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        )}
+
+        {!classes ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : classes.length === 0 ? (
+          <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+            <p className="text-gray-600">
+              You are not listed as the instructor of any class. Ask the registrar to add your account to the classes you teach.
+            </p>
+          </section>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <nav className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-4 space-y-1" aria-label="Your classes">
+              {classes.map(classItem => (
+                <button
+                  key={classItem.id}
+                  onClick={() => setSelectedId(classItem.id)}
+                  aria-current={classItem.id === selectedId ? 'true' : undefined}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    classItem.id === selectedId ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  <span className="block font-medium">{classItem.courseCode || classItem.name}</span>
+                  <span className="block text-xs text-gray-500">
+                    {classItem.semester} · {classItem.currentEnrollment}/{classItem.capacity} enrolled
+                    {classItem.waitlistCount > 0 && ` · ${classItem.waitlistCount} waiting`}
+                    {classItem.status === 'cancelled' && ' · Cancelled'}
+                  </span>
+                </button>
+              ))}
+            </nav>
+
+            {selected && (
+              <section className="lg:col-span-3 bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6 space-y-6">
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{selected.name}</h2>
+                    <p className="text-sm text-gray-600">{selected.schedule} · {selected.location}</p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <a href={`${rosterUrl}?format=csv`} className={linkClass} download>
+                      Export CSV
+                    </a>
+                    <a href={`${rosterUrl}?format=json`} className={linkClass} download>
+                      Export JSON
+                    </a>
+                  </div>
+                </div>
+
+                {!roster ? (
+                  <p className="text-gray-600">Loading roster...</p>
+                ) : (
+                  <>
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-2">Enrolled ({enrolled.length})</h3>
+                      {enrolled.length === 0 ? (
+                        <p className="text-sm text-gray-600">Nobody is enrolled yet.</p>
+                      ) : renderTable(enrolled, false)}
+                    </div>
+
+                    <div>
+                      <h3 className="font-semibold text-gray-900 mb-2">Waitlist ({waitlist.length})</h3>
+                      {waitlist.length === 0 ? (
+                        <p className="text-sm text-gray-600">Nobody is waiting for a seat.</p>
+                      ) : renderTable(waitlist, true)}
+                    </div>
+                  </>
+                )}
+              </section>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,330 @@
+'use client';
+
+/**
+ * Profile Client Component - Self-service account settings
+ *
+ * FEATURES:
+ * - Shows the account details the user cannot change (email, student ID, role)
+ * - Updates the name and refreshes the session so it shows everywhere
+ * - Email contact preferences per topic
+ * - Password change that checks the current password
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import Link from 'next/link';
+import type { Session } from 'next-auth';
+import { ROUTES } from '@/lib/constants';
+import { nameSchema, passwordSchema } from '@/lib/validations';
+import type { ContactPreferences, UserRole } from '@/types';
+
+interface Profile {
+  email: string;
+  name: string;
+  studentId: string;
+  role: UserRole;
+  contactPreferences: ContactPreferences;
+  createdAt: string;
+}
+
+interface ProfileClientProps {
+  session: Session;
+}
+
+const PREFERENCE_LABELS: Record<keyof ContactPreferences, string> = {
+  classChanges: 'Email me when a class I am in or waiting for is cancelled',
+  overloadDecisions: 'Email me when an advisor decides on my credit overload request',
+};
+
+export function ProfileClient({ session }: ProfileClientProps) {
+  const { data: liveSession, update } = useSession();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [name, setName] = useState('');
+  const [preferences, setPreferences] = useState<ContactPreferences | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const showProfile = (next: Profile) => {
+    setProfile(next);
+    setName(next.name);
+    setPreferences(next.contactPreferences);
+  };
+
+  const fetchProfile = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/me');
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        showProfile(data.data.user);
+      } else {
+        setError(data.error || 'Failed to load your profile');
+      }
+    } catch (error) {
+      setError('Failed to load your profile. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  // Send a profile change and show the result
+  const saveProfile = async (changes: Record<string, unknown>, successMessage: string): Promise<boolean> => {
+    if (busy) return false;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/users/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        showProfile(data.data.user);
+        setMessage(successMessage);
+        return true;
+      }
+
+      setError(data.error || 'Failed to update your profile');
+      return false;
+    } catch (error) {
+      setError('Failed to update your profile. Please try again.');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveDetails = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Client-side validation for UX
+    const result = nameSchema.safeParse(name);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    if (await saveProfile({ name: result.data, contactPreferences: preferences }, 'Your profile has been saved.')) {
+      // Refresh the session so the new name shows everywhere
+      await update();
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Client-side validation for UX
+    const result = passwordSchema.safeParse(newPassword);
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    if (await saveProfile({ currentPassword, newPassword }, 'Your password has been changed. Your other sessions have been signed out.')) {
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors';
+  const buttonClass = 'px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 transition-colors';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-10">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">SR</span>
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Profile</h1>
+                <p className="text-sm text-gray-600">{liveSession?.user.name ?? session.user.name}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Link
+                href={ROUTES.DASHBOARD}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Dashboard
+              </Link>
+              <button
+                onClick={() => signOut({ callbackUrl: '/' })}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Status Messages */}
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg" role="status">
+            <p className="text-green-700 font-medium">{message}</p>
+          </div>
+        )}
+
+        {!profile || !preferences ? (
+          <p className="text-gray-600">Loading...</p>
+        ) : (
+          <>
+            <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Account</h2>
+              <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+                <div>
+                  <dt className="text-gray-500">Email</dt>
+                  <dd className="text-gray-900 break-all">{profile.email}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Student ID</dt>
+                  <dd className="text-gray-900">{profile.studentId}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Role</dt>
+                  <dd className="text-gray-900 capitalize">{profile.role}</dd>
+                </div>
+              </dl>
+              <p className="mt-4 text-sm text-gray-500">
+                Contact the registrar to change these. Two-factor sign-in is on the{' '}
+                <Link href={ROUTES.SECURITY} className="text-blue-600 hover:text-blue-700">Security</Link> page.
+              </p>
+            </section>
+
+            <form
+              onSubmit={handleSaveDetails}
+              className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6 space-y-4"
+              noValidate
+            >
+              <h2 className="text-lg font-semibold text-gray-900">Details and contact preferences</h2>
+
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+                  Full Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  autoComplete="name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className={inputClass}
+                  disabled={busy}
+                />
+              </div>
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-gray-700 mb-2">Email notifications</legend>
+                {(Object.keys(PREFERENCE_LABELS) as (keyof ContactPreferences)[]).map(topic => (
+                  <label key={topic} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={preferences[topic]}
+                      onChange={(e) => setPreferences({ ...preferences, [topic]: e.target.checked })}
+                      disabled={busy}
+                    />
+                    <span>{PREFERENCE_LABELS[topic]}</span>
+                  </label>
+                ))}
+                <p className="text-xs text-gray-500">
+                  Security emails, such as password changes, are always sent.
+                </p>
+              </fieldset>
+
+              <button type="submit" disabled={busy} className={buttonClass}>
+                {busy ? 'Saving...' : 'Save'}
+              </button>
+            </form>
+
+            <form
+              onSubmit={handleChangePassword}
+              className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6 space-y-4"
+              noValidate
+            >
+              <h2 className="text-lg font-semibold text-gray-900">Change password</h2>
+
+              <div>
+                <label htmlFor="currentPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Current Password
+                </label>
+                <input
+                  id="currentPassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  className={inputClass}
+                  disabled={busy}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="newPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  New Password
+                </label>
+                <input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  className={inputClass}
+                  placeholder="At least 8 characters, with upper and lower case and a number"
+                  disabled={busy}
+                />
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-700 mb-2">
+                  Confirm New Password
+                </label>
+                <input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className={inputClass}
+                  disabled={busy}
+                />
+              </div>
+
+              <button type="submit" disabled={busy || !currentPassword || !newPassword} className={buttonClass}>
+                {busy ? 'Saving...' : 'Change Password'}
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
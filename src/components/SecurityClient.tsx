@@ -0,0 +1,493 @@
+'use client';
+
+/**
+ * Security Client Component - Two-factor sign-in and session settings
+ *
+ * FEATURES:
+ * - Sets up an authenticator app from a QR code or a typed secret
+ * - Shows one-time recovery codes once, when they are created
+ * - Turns two-factor sign-in off or replaces recovery codes after a current code
+ * - Tells users whose role requires two-factor sign-in to finish setup
+ * - Lists active sessions and recent sign-ins, with per-session and
+ *   "sign out everywhere" revocation
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { signOut, useSession } from 'next-auth/react';
+import Link from 'next/link';
+import type { Session } from 'next-auth';
+import { ROUTES } from '@/lib/constants';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface SessionSummary {
+  id: string;
+  device: string;
+  ip: string;
+  createdAt: string;
+  lastSeenAt: string;
+  revokedAt?: string;
+  active: boolean;
+  current: boolean;
+}
+
+interface SecurityClientProps {
+  session: Session;
+}
+
+export function SecurityClient({ session }: SecurityClientProps) {
+  const { update } = useSession();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [sessions, setSessions] = useState<SessionSummary[] | null>(null);
+  const [code, setCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/me/two-factor');
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setStatus(data.data.twoFactor);
+      } else {
+        setError(data.error || 'Failed to load two-factor settings');
+      }
+    } catch (error) {
+      setError('Failed to load two-factor settings. Please try again.');
+    }
+  }, []);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/users/me/sessions');
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setSessions(data.data.sessions);
+      } else {
+        setError(data.error || 'Failed to load your sessions');
+      }
+    } catch (error) {
+      setError('Failed to load your sessions. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    fetchSessions();
+  }, [fetchStatus, fetchSessions]);
+
+  // Send a code-protected request and handle the common result
+  const sendCode = async (url: string, method: 'POST' | 'DELETE') => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    });
+    const data = await response.json();
+
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+
+    setCode('');
+    return data;
+  };
+
+  const handleStartSetup = async () => {
+    if (busy) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/users/me/two-factor/setup', { method: 'POST' });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setSetup(data.data.setup);
+        setRecoveryCodes(null);
+      } else {
+        setError(data.error || 'Failed to start two-factor setup');
+      }
+    } catch (error) {
+      setError('Failed to start two-factor setup. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleConfirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (busy) return;
+
+    setBusy(true);
+    setError(null);
+
+    try {
+      const data = await sendCode('/api/users/me/two-factor', 'POST');
+      setSetup(null);
+      setRecoveryCodes(data.data.recoveryCodes);
+      setMessage(data.message);
+      // Refresh the session so the rest of the app opens up
+      await update();
+      await fetchStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to turn on two-factor sign-in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (busy) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await sendCode('/api/users/me/two-factor', 'DELETE');
+      setRecoveryCodes(null);
+      setMessage(data.message);
+      await fetchStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to turn off two-factor sign-in');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (busy) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const data = await sendCode('/api/users/me/two-factor/recovery-codes', 'POST');
+      setRecoveryCodes(data.data.recoveryCodes);
+      setMessage(data.message);
+      await fetchStatus();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to create recovery codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevokeSession = async (target: SessionSummary) => {
+    if (busy) return;
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/users/me/sessions/${target.id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        // This device's session has ended; finish signing out here
+        if (target.current) {
+          await signOut({ callbackUrl: '/login' });
+          return;
+        }
+
+        setMessage(`${target.device} has been signed out.`);
+        await fetchSessions();
+      } else {
+        setError(data.error || 'Failed to sign out the session');
+      }
+    } catch (error) {
+      setError('Failed to sign out the session. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (busy) return;
+
+    if (!confirm('Sign out on every device, including this one?')) {
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch('/api/users/me/sessions', { method: 'DELETE' });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        await signOut({ callbackUrl: '/login' });
+        return;
+      }
+
+      setError(data.error || 'Failed to sign out everywhere');
+    } catch (error) {
+      setError('Failed to sign out everywhere. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const setupPending = status?.required && !status.enabled;
+  const activeSessions = sessions?.filter(item => item.active) ?? [];
+  const endedSessions = sessions?.filter(item => !item.active) ?? [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-100">
+      {/* Header */}
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200/50 sticky top-0 z-10">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-r from-blue-600 to-indigo-600 rounded-lg flex items-center justify-center">
+                <span className="text-white font-bold text-sm">SR</span>
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900">Security</h1>
+                <p className="text-sm text-gray-600">{session.user.email}</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {!setupPending && (
+                <Link
+                  href={ROUTES.DASHBOARD}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+                >
+                  Dashboard
+                </Link>
+              )}
+              <button
+                onClick={() => signOut({ callbackUrl: '/' })}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800 font-medium transition-colors duration-200"
+              >
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        {/* Status Messages */}
+        {setupPending && (
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg" role="alert">
+            <p className="text-amber-800 font-medium">
+              Your role requires two-factor sign-in. Set it up to continue using the app.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg" role="alert">
+            <p className="text-red-700 font-medium">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg" role="status">
+            <p className="text-green-700 font-medium">{message}</p>
+          </div>
+        )}
+
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-2">Two-factor sign-in</h2>
+
+          {!status ? (
+            <p className="text-gray-600">Loading...</p>
+          ) : status.enabled ? (
+            <div className="space-y-4">
+              <p className="text-gray-700">
+                Two-factor sign-in is <span className="font-semibold text-green-700">on</span>.
+                You have {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'}.
+              </p>
+
+              <div>
+                <label htmlFor="manage-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Current code or recovery code
+                </label>
+                <input
+                  id="manage-code"
+                  type="text"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="Needed to change these settings"
+                  disabled={busy}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-3">
+                <button
+                  onClick={handleRegenerate}
+                  disabled={busy || !code}
+                  className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+                >
+                  New recovery codes
+                </button>
+                {!status.required && (
+                  <button
+                    onClick={handleDisable}
+                    disabled={busy || !code}
+                    className="px-4 py-2 rounded-lg font-medium border border-red-300 text-red-700 hover:bg-red-50 disabled:border-gray-200 disabled:text-gray-400 transition-colors"
+                  >
+                    Turn off
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : setup ? (
+            <form onSubmit={handleConfirmSetup} className="space-y-4">
+              <p className="text-gray-700">
+                Scan this QR code with an authenticator app, or type the key into the app by hand.
+              </p>
+              {/* eslint-disable-next-line @next/next/no-img-element -- data URL rendered on the server */}
+              <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-48 h-48" />
+              <p className="text-sm text-gray-600">
+                Key: <code className="font-mono break-all">{setup.secret}</code>
+              </p>
+
+              <div>
+                <label htmlFor="setup-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Code from the app
+                </label>
+                <input
+                  id="setup-code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="6-digit code"
+                  disabled={busy}
+                />
+              </div>
+
+              <button
+                type="submit"
+                disabled={busy || !code}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+              >
+                {busy ? 'Checking...' : 'Turn on'}
+              </button>
+            </form>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-gray-700">
+                Add a code from an authenticator app to each sign-in, so a stolen password is not enough to get in.
+              </p>
+              <button
+                onClick={handleStartSetup}
+                disabled={busy}
+                className="px-4 py-2 rounded-lg font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-300 disabled:text-gray-500 transition-colors"
+              >
+                Set up two-factor sign-in
+              </button>
+            </div>
+          )}
+        </section>
+
+        {/* Recovery codes are shown once, right after they are created */}
+        {recoveryCodes && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-amber-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Your recovery codes</h2>
+            <p className="text-gray-700 mb-4">
+              Each code signs you in once if you lose your app. Save them somewhere safe now; they will not be shown again.
+            </p>
+            <ul className="grid grid-cols-2 gap-2 font-mono text-gray-900">
+              {recoveryCodes.map(recoveryCode => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Where you&apos;re signed in</h2>
+            <button
+              onClick={handleSignOutEverywhere}
+              disabled={busy || !sessions}
+              className="px-4 py-2 rounded-lg font-medium border border-red-300 text-red-700 hover:bg-red-50 disabled:border-gray-200 disabled:text-gray-400 transition-colors"
+            >
+              Sign out everywhere
+            </button>
+          </div>
+
+          {!sessions ? (
+            <p className="text-gray-600">Loading...</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {activeSessions.map(item => (
+                <li key={item.id} className="py-3 flex justify-between items-center gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {item.device}
+                      {item.current && <span className="ml-2 text-sm font-normal text-green-700">This device</span>}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {item.ip} · Signed in {new Date(item.createdAt).toLocaleString()} · Last active {new Date(item.lastSeenAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRevokeSession(item)}
+                    disabled={busy}
+                    className="px-3 py-1 text-sm rounded-lg font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:text-gray-400 transition-colors"
+                  >
+                    Sign out
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {endedSessions.length > 0 && (
+          <section className="bg-white/80 backdrop-blur-sm rounded-2xl shadow-lg border border-white/30 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">Recent sign-ins</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Sessions that have ended. If you do not recognise one, change your password.
+            </p>
+            <ul className="divide-y divide-gray-200">
+              {endedSessions.map(item => (
+                <li key={item.id} className="py-3">
+                  <p className="font-medium text-gray-900">{item.device}</p>
+                  <p className="text-sm text-gray-600">
+                    {item.ip} · Signed in {new Date(item.createdAt).toLocaleString()} ·{' '}
+                    {item.revokedAt
+                      ? `Signed out ${new Date(item.revokedAt).toLocaleString()}`
+                      : `Expired; last active ${new Date(item.lastSeenAt).toLocaleString()}`}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+/**
+ * Account lockout and suspicious sign-in signals
+ *
+ * Failed sign-ins are counted on the user record, so the count survives
+ * restarts and is shared by every server instance. MAX_FAILED_ATTEMPTS
+ * failures within FAILURE_WINDOW lock the account; each further lock
+ * before a successful sign-in lasts twice as long. The user is emailed when
+ * the account locks, and a successful sign-in, password change or admin
+ * unlock clears it.
+ *
+ * Two signals are written to the audit log for admins to review: many
+ * accounts failing to sign in from one address (entity type "ip"), and a
+ * successful sign-in from an address the account has not used recently.
+ */
+
+import { writeAuditEntry } from './audit';
+import { getLockedUsers, lockUser, recordFailedLogin, recordSuccessfulLogin } from './db';
+import { sendNotification } from './notifications';
+import { getRateLimitStore } from './rate-limit';
+import { LOCKOUT_CONFIG } from './constants';
+import type { User } from '@/types';
+
+// Recorded as the actor of changes made by sign-in itself
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Lock-related fields safe to show admins
+ */
+export interface AccountLock {
+  email: string;
+  name: string;
+  lockedUntil: string;
+  lockoutCount: number;
+}
+
+/**
+ * Get how long a lock lasts
+ *
+ * @param previousLocks - Locks since the last successful sign-in, before this one
+ * @returns number - Lock duration in seconds
+ */
+export function getLockDuration(previousLocks: number): number {
+  return Math.min(
+    LOCKOUT_CONFIG.BASE_LOCK_DURATION * 2 ** previousLocks,
+    LOCKOUT_CONFIG.MAX_LOCK_DURATION
+  );
+}
+
+/**
+ * SECURITY: Check whether a user is locked out of sign-in
+ */
+export function isAccountLocked(user: Pick<User, 'lockedUntil'>, now: number = Date.now()): boolean {
+  return !!user.lockedUntil && Date.parse(user.lockedUntil) > now;
+}
+
+/**
+ * Count a failed sign-in from an address, and flag the address once it has
+ * failed for LOCKOUT_CONFIG.IP_ACCOUNT_THRESHOLD different accounts
+ */
+async function recordAddressFailure(email: string, clientIP: string): Promise<void> {
+  const store = getRateLimitStore();
+  const windowMs = LOCKOUT_CONFIG.FAILURE_WINDOW * 1000;
+  const now = Date.now();
+
+  // Only the first failure for each account counts towards the address
+  const pair = await store.hit(`sign-in-ip-account:${clientIP}:${email}`, windowMs, now);
+  if (pair.hits !== 1) {
+    return;
+  }
+
+  const accounts = await store.hit(`sign-in-ip-accounts:${clientIP}`, windowMs, now);
+
+  if (accounts.hits === LOCKOUT_CONFIG.IP_ACCOUNT_THRESHOLD) {
+    console.warn(`Failed sign-ins for ${accounts.hits} accounts from ${clientIP}`);
+
+    await writeAuditEntry({
+      actor: email,
+      action: 'security.ip_many_accounts',
+      entityType: 'ip',
+      entityId: clientIP,
+      after: { accounts: accounts.hits, windowSeconds: LOCKOUT_CONFIG.FAILURE_WINDOW },
+    });
+  }
+}
+
+/**
+ * SECURITY: Count a failed sign-in to an account and lock it at the limit
+ *
+ * @param user - Account that failed to sign in
+ * @param clientIP - Address the attempt came from
+ * @returns Promise<User> - The account after the failure
+ */
+export async function recordFailedSignIn(user: User, clientIP: string): Promise<User> {
+  await recordAddressFailure(user.email, clientIP);
+
+  const since = new Date(Date.now() - LOCKOUT_CONFIG.FAILURE_WINDOW * 1000).toISOString();
+  const updated = await recordFailedLogin(user.email, since);
+
+  if ((updated.failedLoginCount ?? 0) < LOCKOUT_CONFIG.MAX_FAILED_ATTEMPTS) {
+    return updated;
+  }
+
+  const previousLocks = updated.lockoutCount ?? 0;
+  const lockedUntil = new Date(Date.now() + getLockDuration(previousLocks) * 1000).toISOString();
+  const locked = await lockUser(user.email, lockedUntil, previousLocks + 1);
+
+  await writeAuditEntry({
+    actor: SYSTEM_ACTOR,
+    action: 'user.lock',
+    entityType: 'user',
+    entityId: user.email,
+    subject: user.email,
+    after: { lockedUntil, lockoutCount: previousLocks + 1, clientIP },
+  });
+
+  await sendNotification({
+    to: user.email,
+    subject: 'Your account has been locked',
+    body: `Hi ${user.name},\n\nAfter ${LOCKOUT_CONFIG.MAX_FAILED_ATTEMPTS} failed sign-in attempts, your account is locked until ${new Date(lockedUntil).toUTCString()}. If these attempts were not you, reset your password; resetting it also unlocks your account.`,
+  });
+
+  return locked;
+}
+
+/**
+ * SECURITY: Count a failed sign-in to an address with no account
+ *
+ * Unknown addresses appear to lock just like real accounts, so the lock
+ * message does not reveal which addresses are registered.
+ *
+ * @param email - Address that was tried
+ * @param clientIP - Address the attempt came from
+ * @returns Promise<boolean> - True once the address should appear locked
+ */
+export async function recordUnknownAccountFailure(email: string, clientIP: string): Promise<boolean> {
+  await recordAddressFailure(email, clientIP);
+
+  const attempts = await getRateLimitStore().hit(
+    `sign-in-unknown:${email}`,
+    LOCKOUT_CONFIG.FAILURE_WINDOW * 1000,
+    Date.now()
+  );
+
+  return attempts.hits > LOCKOUT_CONFIG.MAX_FAILED_ATTEMPTS;
+}
+
+/**
+ * SECURITY: Record a successful sign-in, clearing failures and flagging a new address
+ *
+ * @param user - Account that signed in
+ * @param clientIP - Address the sign-in came from
+ */
+export async function recordSuccessfulSignIn(user: User, clientIP: string): Promise<void> {
+  const knownIps = user.knownLoginIps ?? [];
+
+  // The first sign-in has nothing to compare with
+  if (knownIps.length > 0 && !knownIps.includes(clientIP)) {
+    console.warn(`Sign-in from a new address for ${user.email}`);
+
+    await writeAuditEntry({
+      actor: user.email,
+      action: 'security.new_login_ip',
+      entityType: 'user',
+      entityId: user.email,
+      after: { clientIP, knownIps },
+    });
+  }
+
+  const updatedIps = [...knownIps.filter(ip => ip !== clientIP), clientIP].slice(-LOCKOUT_CONFIG.KNOWN_IP_COUNT);
+  await recordSuccessfulLogin(user.email, updatedIps);
+}
+
+/**
+ * List accounts that are locked now
+ */
+export async function getAccountLocks(): Promise<AccountLock[]> {
+  const users = await getLockedUsers();
+
+  return users.map(user => ({
+    email: user.email,
+    name: user.name,
+    lockedUntil: user.lockedUntil!,
+    lockoutCount: user.lockoutCount ?? 1,
+  }));
+}
+
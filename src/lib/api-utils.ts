@@ -10,9 +10,14 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ZodError } from 'zod';
-import { HTTP_STATUS } from './constants';
+import { HTTP_STATUS, REQUEST_ID_HEADER } from './constants';
+import { getRateLimitHeaders, RateLimiter } from './rate-limit';
+import type { RateLimitResult } from './rate-limit';
 import type { ApiResponse } from './validations';
 
+export { RateLimiter } from './rate-limit';
+export type { RateLimitResult } from './rate-limit';
+
 /**
  * SECURITY: Create standardized API response with proper headers
  */
@@ -41,10 +46,12 @@ export function createApiResponse<T = any>(
 
 /**
  * SECURITY: Create error response with safe error messages
+ * Optional data lets clients act on the error (e.g. offer a waitlist)
  */
 export function createErrorResponse(
   error: string | Error | ZodError,
-  status: number = HTTP_STATUS.INTERNAL_SERVER_ERROR
+  status: number = HTTP_STATUS.INTERNAL_SERVER_ERROR,
+  data?: Record<string, unknown>
 ): NextResponse<ApiResponse> {
   let errorMessage: string;
   let errorDetails: string[] = [];
@@ -66,6 +73,7 @@ export function createErrorResponse(
     success: false,
     error: errorMessage,
     ...(errorDetails.length > 0 && { details: errorDetails }),
+    ...(data && { data }),
   };
 
   return NextResponse.json(response, {
@@ -90,10 +98,22 @@ export function validateMethod(request: NextRequest, allowedMethods: string[]):
  * SECURITY: Get client IP address for rate limiting
  */
 export function getClientIP(request: NextRequest): string {
+  // Fallback to connection IP
+  return getClientIPFromHeaders(name => request.headers.get(name)) || request.ip || 'unknown';
+}
+
+/**
+ * SECURITY: Get client IP address from proxy headers
+ * For callers without a NextRequest, such as the NextAuth authorize callback
+ *
+ * @param getHeader - Reads a header by lower-case name
+ * @returns string | null - Address, or null if no proxy header is set
+ */
+export function getClientIPFromHeaders(getHeader: (name: string) => string | null | undefined): string | null {
   // Check various headers for the real IP
-  const forwarded = request.headers.get('x-forwarded-for');
-  const realIP = request.headers.get('x-real-ip');
-  const cfConnectingIP = request.headers.get('cf-connecting-ip');
+  const forwarded = getHeader('x-forwarded-for');
+  const realIP = getHeader('x-real-ip');
+  const cfConnectingIP = getHeader('cf-connecting-ip');
   
   if (forwarded) {
     return forwarded.split(',')[0].trim();
@@ -107,8 +127,36 @@ export function getClientIP(request: NextRequest): string {
     return cfConnectingIP;
   }
   
-  // Fallback to connection IP
-  return request.ip || 'unknown';
+  return null;
+}
+
+/**
+ * SECURITY: Get the id middleware assigned to this request
+ *
+ * Middleware always replaces any client-supplied value, so the id can be
+ * trusted in the audit log. Requests middleware does not run on get a fresh id.
+ */
+export function getRequestId(request: NextRequest): string {
+  return request.headers.get(REQUEST_ID_HEADER) || crypto.randomUUID();
+}
+
+/**
+ * SECURITY: Get the base URL for links sent by email
+ *
+ * Always NEXTAUTH_URL, never the request's Host header: a client can forge
+ * that header and have a real single-use token emailed on a link to its own
+ * domain.
+ *
+ * @throws Error if NEXTAUTH_URL is not set
+ */
+export function getAppUrl(): string {
+  const appUrl = process.env.NEXTAUTH_URL;
+
+  if (!appUrl) {
+    throw new Error('NEXTAUTH_URL is not set; emailed links cannot be built');
+  }
+
+  return appUrl;
 }
 
 /**
@@ -203,56 +251,23 @@ export function sanitizeForLogging(data: any): any {
 }
 
 /**
- * SECURITY: Rate limiting helper
+ * SECURITY: Create a 429 response with RateLimit-* and Retry-After headers
  */
-export class RateLimiter {
-  private attempts = new Map<string, { count: number; resetTime: number }>();
-  
-  constructor(
-    private maxAttempts: number = 5,
-    private windowMs: number = 15 * 60 * 1000 // 15 minutes
-  ) {}
-  
-  isAllowed(identifier: string): boolean {
-    const now = Date.now();
-    const attempt = this.attempts.get(identifier);
-    
-    if (!attempt || now > attempt.resetTime) {
-      this.attempts.set(identifier, {
-        count: 1,
-        resetTime: now + this.windowMs,
-      });
-      return true;
-    }
-    
-    if (attempt.count >= this.maxAttempts) {
-      return false;
-    }
-    
-    attempt.count++;
-    return true;
-  }
-  
-  reset(identifier: string): void {
-    this.attempts.delete(identifier);
-  }
-  
-  getRemainingAttempts(identifier: string): number {
-    const attempt = this.attempts.get(identifier);
-    if (!attempt || Date.now() > attempt.resetTime) {
-      return this.maxAttempts;
-    }
-    return Math.max(0, this.maxAttempts - attempt.count);
-  }
-  
-  getResetTime(identifier: string): number {
-    const attempt = this.attempts.get(identifier);
-    return attempt?.resetTime || 0;
+export function createRateLimitResponse(
+  error: string,
+  result: RateLimitResult
+): NextResponse<ApiResponse> {
+  const response = createErrorResponse(error, HTTP_STATUS.TOO_MANY_REQUESTS);
+
+  for (const [name, value] of Object.entries(getRateLimitHeaders(result))) {
+    response.headers.set(name, value);
   }
+
+  return response;
 }
 
 /**
  * SECURITY: Global rate limiter instances
  */
-export const authRateLimiter = new RateLimiter(5, 15 * 60 * 1000); // 5 attempts per 15 minutes
-export const apiRateLimiter = new RateLimiter(100, 60 * 1000); // 100 requests per minute
\ No newline at end of file
+export const authRateLimiter = new RateLimiter('auth', 5, 15 * 60 * 1000); // 5 attempts per 15 minutes
+export const apiRateLimiter = new RateLimiter('api', 100, 60 * 1000); // 100 requests per minute
@@ -0,0 +1,103 @@
+/**
+ * Audit log
+ *
+ * Records who changed what, with the record before and after the change.
+ * Entries are only ever added; nothing in the application updates or deletes
+ * them.
+ */
+
+import { randomUUID } from 'crypto';
+import { getStorage } from './storage';
+import type { AuditEntry, Enrollment, EnrollmentChange } from '@/types';
+
+/**
+ * Who is making a change, and in which API request
+ */
+export interface AuditContext {
+  actor: string; // Email of the signed-in user
+  requestId?: string;
+  reason?: string; // Required for admin overrides
+}
+
+/**
+ * Copy a record for the log, leaving out undefined fields
+ */
+function snapshot(record: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(record));
+}
+
+/**
+ * SECURITY: Append an entry to the audit log
+ *
+ * Called after the audited change has succeeded. A failed write is logged
+ * rather than thrown so the caller still reports the change that happened.
+ *
+ * @param entry - What changed (id and timestamp are set here)
+ * @returns Promise<AuditEntry | null> - Stored entry, or null if the write failed
+ */
+export async function writeAuditEntry(
+  entry: Omit<AuditEntry, 'id' | 'timestamp'>
+): Promise<AuditEntry | null> {
+  const auditEntry = snapshot({
+    ...entry,
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+  }) as unknown as AuditEntry;
+
+  try {
+    // Entries are never overwritten
+    await getStorage().appendAuditEntry(auditEntry);
+
+    return auditEntry;
+  } catch (error) {
+    console.error('AUDIT WRITE FAILED:', {
+      action: entry.action,
+      entityId: entry.entityId,
+      actor: entry.actor,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Record a change to an enrollment
+ *
+ * The student is recorded as the subject when someone else made the change,
+ * e.g. an admin override or a waitlist promotion caused by another drop.
+ *
+ * @param context - Actor and request
+ * @param action - e.g. "enrollment.enroll"
+ * @param before - Enrollment before the change (null if there was none)
+ * @param after - Enrollment after the change
+ */
+export async function writeEnrollmentAudit(
+  context: AuditContext,
+  action: string,
+  before: Enrollment | null,
+  after: Enrollment
+): Promise<AuditEntry | null> {
+  return writeAuditEntry({
+    actor: context.actor,
+    action,
+    entityType: 'enrollment',
+    entityId: after.id,
+    subject: after.email !== context.actor ? after.email : undefined,
+    requestId: context.requestId,
+    reason: context.reason,
+    before: before ? { ...before } : undefined,
+    after: { ...after },
+  });
+}
+
+/**
+ * Record waitlist promotions caused by a drop or a capacity change
+ */
+export async function writePromotionAudits(
+  context: AuditContext,
+  promoted: EnrollmentChange[]
+): Promise<void> {
+  for (const change of promoted) {
+    await writeEnrollmentAudit(context, 'enrollment.promote', change.before, change.after);
+  }
+}
@@ -12,6 +12,8 @@
 
 import bcrypt from 'bcryptjs';
 import type { DefaultSession } from 'next-auth';
+import { RateLimiter } from './rate-limit';
+import type { UserRole } from '@/types';
 
 /**
  * SECURITY: 10 salt rounds provides strong security while maintaining reasonable performance
@@ -30,6 +32,8 @@ export interface SessionUser {
   email: string;
   name: string;
   studentId: string;
+  role: UserRole;
+  impersonatedBy?: string; // Email of the admin viewing as this user
 }
 
 /**
@@ -38,12 +42,29 @@ export interface SessionUser {
 declare module 'next-auth' {
   interface Session extends DefaultSession {
     user: SessionUser;
+    sessionId?: string; // Sign-in session in the registry
   }
   
   interface User {
     email: string;
     name: string;
     studentId: string;
+    role: UserRole;
+    twoFactorSetupRequired?: boolean;
+    sessionId?: string;
+  }
+}
+
+/**
+ * Extended JWT type so the role survives between requests
+ */
+declare module 'next-auth/jwt' {
+  interface JWT {
+    studentId?: string;
+    role?: UserRole;
+    twoFactorSetupRequired?: boolean; // Role requires two-factor sign-in that is not set up yet
+    sessionId?: string; // Checked against the session registry on every request
+    impersonating?: Omit<SessionUser, 'impersonatedBy'>; // Student an admin is viewing as
   }
 }
 
@@ -253,42 +274,19 @@ export function validatePasswordStrength(password: string): {
 }
 
 /**
- * SECURITY: Rate limiting for authentication attempts
- * Simple in-memory rate limiter for development
- * In production, use Redis or database-backed rate limiting
+ * SECURITY: Rate limiting for sign-in attempts
+ * Counts are kept in the shared rate limit store (see rate-limit/)
  */
-const authAttempts = new Map<string, { count: number; lastAttempt: number }>();
+const SIGN_IN_RATE_LIMIT = 'sign-in';
 
-export function checkRateLimit(identifier: string, maxAttempts: number = 5, windowMs: number = 15 * 60 * 1000): boolean {
-  const now = Date.now();
-  const attempts = authAttempts.get(identifier);
-  
-  if (!attempts) {
-    authAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return true;
-  }
-  
-  // Reset if window has passed
-  if (now - attempts.lastAttempt > windowMs) {
-    authAttempts.set(identifier, { count: 1, lastAttempt: now });
-    return true;
-  }
-  
-  // Check if limit exceeded
-  if (attempts.count >= maxAttempts) {
-    return false;
-  }
-  
-  // Increment attempts
-  attempts.count++;
-  attempts.lastAttempt = now;
-  
-  return true;
+export async function checkRateLimit(identifier: string, maxAttempts: number = 5, windowMs: number = 15 * 60 * 1000): Promise<boolean> {
+  const result = await new RateLimiter(SIGN_IN_RATE_LIMIT, maxAttempts, windowMs).check(identifier);
+  return result.allowed;
 }
 
 /**
  * SECURITY: Clear rate limit for an identifier (e.g., after successful login)
  */
-export function clearRateLimit(identifier: string): void {
-  authAttempts.delete(identifier);
-}
\ No newline at end of file
+export async function clearRateLimit(identifier: string): Promise<void> {
+  await new RateLimiter(SIGN_IN_RATE_LIMIT).reset(identifier);
+}
@@ -0,0 +1,427 @@
+/**
+ * Registration cart
+ *
+ * Students collect classes for a term in a cart, check the whole cart against
+ * the enrollment rules, and register for it in one step. Classes in the cart
+ * are checked together: two cart classes may not overlap, co-requisites may
+ * be satisfied by a class in the same cart, and the credit limit counts the
+ * whole cart.
+ */
+
+import {
+  getCart,
+  saveCart,
+  clearCart,
+  getClassById,
+  getTermById,
+  getEnrollment,
+  enrollInClass,
+  unenrollFromClass
+} from './db';
+import { ClassFullError, ConflictError, NotFoundError, ValidationError } from './db-errors';
+import {
+  loadStudentRecord,
+  checkRegistrationWindow,
+  checkPrerequisites,
+  checkCorequisites,
+  checkScheduleConflict,
+  checkCreditLimit
+} from './enrollment-rules';
+import type { EnrollmentViolation, StudentRecord } from './enrollment-rules';
+import { MAX_CART_SIZE } from './constants';
+import { writeEnrollmentAudit, writePromotionAudits } from './audit';
+import type { AuditContext } from './audit';
+import { notifyPassedOverOnWaitlist } from './notifications';
+import { getCreditLimit, sumTermCredits } from './credit-limits';
+import type { StudentCreditLimit } from './credit-limits';
+import type { Cart, Class, Enrollment, Term } from '@/types';
+
+/**
+ * How a cart is submitted
+ * - 'all-or-nothing': enroll in every class or none of them
+ * - 'best-effort': enroll in every class that can be taken, skip the rest
+ */
+export type CartSubmitMode = 'all-or-nothing' | 'best-effort';
+
+export interface CartIssue {
+  code:
+    | EnrollmentViolation['code']
+    | 'CLASS_NOT_FOUND'
+    | 'WRONG_TERM'
+    | 'ALREADY_ENROLLED'
+    | 'CLASS_FULL'
+    | 'ENROLLMENT_FAILED';
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Result of checking one class in a cart
+ */
+export interface CartItemCheck {
+  classId: string;
+  className?: string;
+  credits: number;
+  issue: CartIssue | null;
+}
+
+export interface CartValidation {
+  termId: string;
+  valid: boolean;
+  // Credits already held in the term plus every class in the cart that passed
+  totalCredits: number;
+  minCredits: number;
+  maxCredits: number;
+  // The cart would leave the student under their minimum load; a warning only
+  belowMinimum: boolean;
+  items: CartItemCheck[];
+}
+
+/**
+ * What happened to one class when the cart was submitted
+ * - 'enrolled': the student now holds a seat
+ * - 'failed': the class could not be taken; see issue
+ * - 'not_attempted': skipped because another class failed (all-or-nothing)
+ * - 'rolled_back': a seat was taken and released because another class failed
+ */
+export type CartItemOutcome = 'enrolled' | 'failed' | 'not_attempted' | 'rolled_back';
+
+export interface CartItemResult {
+  classId: string;
+  className?: string;
+  outcome: CartItemOutcome;
+  issue?: CartIssue;
+}
+
+export interface CartSubmission {
+  termId: string;
+  mode: CartSubmitMode;
+  enrolledCount: number;
+  items: CartItemResult[];
+  cart: Cart | null; // Classes left in the cart
+}
+
+/**
+ * Everything checkCart needs, loaded up front so the check itself is pure
+ */
+export interface CartCheckContext {
+  termId: string;
+  term: Term | null;
+  classes: Map<string, Class>; // Cart classes that exist
+  existing: Map<string, Enrollment>; // The student's records for cart classes
+  student: StudentRecord;
+  creditLimit: StudentCreditLimit;
+  now?: Date;
+}
+
+function emptyCart(email: string, termId: string): Cart {
+  const now = new Date().toISOString();
+  return { email, termId, classIds: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Describe an existing enrollment that keeps a class out of the cart
+ */
+function describeExisting(enrollment: Enrollment | undefined): CartIssue | null {
+  switch (enrollment?.status) {
+    case 'active':
+      return { code: 'ALREADY_ENROLLED', message: 'You are already enrolled in this class' };
+    case 'waitlisted':
+      return {
+        code: 'ALREADY_ENROLLED',
+        message: 'You are already on the waitlist for this class',
+      };
+    case 'withdrawn':
+      return { code: 'ALREADY_ENROLLED', message: 'You have withdrawn from this class this term' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check every class in a cart against the enrollment rules and each other
+ *
+ * Classes are checked in cart order. A class that passes counts towards the
+ * schedule and credit checks of the classes after it, so when the cart is
+ * over the credit limit the classes added last are the ones reported.
+ *
+ * @param classIds - Classes in the cart
+ * @param context - The term, classes and student record
+ * @returns CartValidation - Per-class result and credit totals
+ */
+export function checkCart(classIds: string[], context: CartCheckContext): CartValidation {
+  const windowViolation = checkRegistrationWindow(context.term, context.now);
+
+  // Co-requisites may be taken together, so every class in the cart counts
+  const cartClasses = classIds
+    .map(classId => context.classes.get(classId))
+    .filter((classItem): classItem is Class => classItem?.termId === context.termId);
+  const corequisiteClasses = [...context.student.activeClasses, ...cartClasses];
+
+  // Active classes plus the cart classes accepted so far
+  const accepted = [...context.student.activeClasses];
+
+  const items = classIds.map((classId): CartItemCheck => {
+    const classItem = context.classes.get(classId);
+
+    if (!classItem) {
+      return { classId, credits: 0, issue: { code: 'CLASS_NOT_FOUND', message: 'Class not found' } };
+    }
+
+    const issue: CartIssue | null =
+      (classItem.termId !== context.termId
+        ? {
+            code: 'WRONG_TERM',
+            message: `${classItem.name} is not offered in this term`,
+            details: { classTermId: classItem.termId ?? null },
+          }
+        : null) ||
+      (classItem.status === 'cancelled'
+        ? { code: 'CLASS_CANCELLED', message: `${classItem.name} has been cancelled` }
+        : null) ||
+      describeExisting(context.existing.get(classId)) ||
+      windowViolation ||
+      checkPrerequisites(classItem, context.student.completedCourses) ||
+      checkCorequisites(classItem, context.student.completedCourses, corequisiteClasses) ||
+      checkScheduleConflict(classItem, accepted) ||
+      checkCreditLimit(classItem, accepted, context.creditLimit) ||
+      (classItem.currentEnrollment >= classItem.capacity
+        ? {
+            code: 'CLASS_FULL',
+            message: `${classItem.name} is full. You can join the waitlist instead.`,
+            details: { canWaitlist: true },
+          }
+        : null);
+
+    if (!issue) {
+      accepted.push(classItem);
+    }
+
+    return { classId, className: classItem.name, credits: classItem.credits, issue };
+  });
+
+  const totalCredits = sumTermCredits(accepted, context.termId);
+
+  return {
+    termId: context.termId,
+    valid: items.every(item => !item.issue),
+    totalCredits,
+    minCredits: context.creditLimit.minCredits,
+    maxCredits: context.creditLimit.maxCredits,
+    belowMinimum: totalCredits < context.creditLimit.minCredits,
+    items,
+  };
+}
+
+/**
+ * Load a student's cart for a term, or an empty one
+ */
+export async function getCartForTerm(email: string, termId: string): Promise<Cart> {
+  return (await getCart(email, termId)) ?? emptyCart(email, termId);
+}
+
+/**
+ * Add a class to a student's cart for its term
+ *
+ * @throws NotFoundError if the class does not exist
+ * @throws ValidationError if the class is cancelled or in another term
+ * @throws ConflictError if the cart is full
+ */
+export async function addToCart(email: string, termId: string, classId: string): Promise<Cart> {
+  const classItem = await getClassById(classId);
+
+  if (!classItem) {
+    throw new NotFoundError('Class not found');
+  }
+
+  if (classItem.termId !== termId) {
+    throw new ValidationError(`${classItem.name} is not offered in this term`);
+  }
+
+  if (classItem.status === 'cancelled') {
+    throw new ValidationError(`${classItem.name} has been cancelled`);
+  }
+
+  const cart = await getCartForTerm(email, termId);
+
+  if (cart.classIds.includes(classId)) {
+    return cart;
+  }
+
+  if (cart.classIds.length >= MAX_CART_SIZE) {
+    throw new ConflictError(`Your cart can hold at most ${MAX_CART_SIZE} classes`);
+  }
+
+  return saveCart(email, termId, [...cart.classIds, classId]);
+}
+
+/**
+ * Remove a class from a student's cart; removing a class that is not in it
+ * leaves the cart unchanged
+ */
+export async function removeFromCart(email: string, termId: string, classId: string): Promise<Cart> {
+  const cart = await getCartForTerm(email, termId);
+
+  if (!cart.classIds.includes(classId)) {
+    return cart;
+  }
+
+  return saveCart(email, termId, cart.classIds.filter(id => id !== classId));
+}
+
+/**
+ * Check a student's whole cart for a term
+ *
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @returns Promise<CartValidation> - Per-class result and credit totals
+ */
+export async function validateCart(email: string, termId: string): Promise<CartValidation> {
+  const cart = await getCartForTerm(email, termId);
+
+  const [term, student, creditLimit, classes, existing] = await Promise.all([
+    getTermById(termId),
+    loadStudentRecord(email),
+    getCreditLimit(email, termId),
+    Promise.all(cart.classIds.map(classId => getClassById(classId))),
+    // Read by key so a record written moments ago is seen
+    Promise.all(cart.classIds.map(classId => getEnrollment(email, classId))),
+  ]);
+
+  return checkCart(cart.classIds, {
+    termId,
+    term,
+    classes: new Map(
+      classes
+        .filter((classItem): classItem is Class => classItem !== null)
+        .map(classItem => [classItem.id, classItem])
+    ),
+    existing: new Map(
+      existing
+        .filter((enrollment): enrollment is Enrollment => enrollment !== null)
+        .map(enrollment => [enrollment.classId, enrollment])
+    ),
+    student,
+    creditLimit,
+  });
+}
+
+/**
+ * Take a seat in one cart class, reporting why it could not be taken
+ */
+async function enrollFromCart(audit: AuditContext, item: CartItemCheck): Promise<CartIssue | null> {
+  try {
+    const enrollment = await enrollInClass(audit.actor, item.className!, item.classId);
+
+    await writeEnrollmentAudit(audit, 'enrollment.enroll', null, enrollment);
+    return null;
+  } catch (error) {
+    if (error instanceof ClassFullError) {
+      return {
+        code: 'CLASS_FULL',
+        message: `${item.className} filled up before your registration went through`,
+        details: { canWaitlist: true },
+      };
+    }
+
+    if (error instanceof ConflictError) {
+      return { code: 'CLASS_CANCELLED', message: `${item.className} was cancelled before your registration went through` };
+    }
+
+    if (error instanceof Error && error.message === 'User is already enrolled in this class') {
+      return { code: 'ALREADY_ENROLLED', message: 'You are already enrolled in this class' };
+    }
+
+    console.error(`Cart enrollment failed for class ${item.classId}:`, error);
+    return { code: 'ENROLLMENT_FAILED', message: 'Enrollment failed. Please try again.' };
+  }
+}
+
+/**
+ * Register for every class in a student's cart
+ *
+ * The cart is validated first. In all-or-nothing mode nothing is attempted
+ * unless every class passes, and seats already taken are released if a later
+ * class fills up in the meantime. Classes the student was enrolled in are
+ * removed from the cart; the rest stay for another try. Every seat taken or
+ * released is written to the audit log.
+ *
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @param mode - All-or-nothing or best-effort
+ * @param requestId - Request id for the audit log
+ * @returns Promise<CartSubmission> - What happened to each class
+ * @throws ValidationError if the cart is empty
+ */
+export async function submitCart(
+  email: string,
+  termId: string,
+  mode: CartSubmitMode,
+  requestId?: string
+): Promise<CartSubmission> {
+  const validation = await validateCart(email, termId);
+  const audit: AuditContext = { actor: email, requestId };
+
+  if (validation.items.length === 0) {
+    throw new ValidationError('Your cart is empty');
+  }
+
+  const results = new Map<string, CartItemResult>(validation.items.map(item => [
+    item.classId,
+    item.issue
+      ? { classId: item.classId, className: item.className, outcome: 'failed', issue: item.issue }
+      : { classId: item.classId, className: item.className, outcome: 'not_attempted' },
+  ]));
+
+  if (mode === 'best-effort' || validation.valid) {
+    const enrolled: CartItemCheck[] = [];
+
+    for (const item of validation.items.filter(check => !check.issue)) {
+      const issue = await enrollFromCart(audit, item);
+
+      if (!issue) {
+        enrolled.push(item);
+        results.set(item.classId, { classId: item.classId, className: item.className, outcome: 'enrolled' });
+        continue;
+      }
+
+      results.set(item.classId, { classId: item.classId, className: item.className, outcome: 'failed', issue });
+
+      if (mode === 'all-or-nothing') {
+        // Undo in reverse so the cart leaves no trace
+        for (const taken of enrolled.reverse()) {
+          try {
+            const { before, after, promoted, skipped } = await unenrollFromClass(email, taken.classId, 'dropped');
+
+            await writeEnrollmentAudit(audit, 'enrollment.rollback', before, after);
+            await writePromotionAudits(audit, promoted ? [promoted] : []);
+            await notifyPassedOverOnWaitlist(skipped);
+            results.set(taken.classId, { classId: taken.classId, className: taken.className, outcome: 'rolled_back' });
+          } catch (rollbackError) {
+            // The seat is still held; report it as enrolled so the student knows
+            console.error(`Cart rollback failed for class ${taken.classId}:`, rollbackError);
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  const items = validation.items.map(item => results.get(item.classId)!);
+  const enrolledIds = new Set(items.filter(item => item.outcome === 'enrolled').map(item => item.classId));
+
+  let cart: Cart | null = await getCartForTerm(email, termId);
+
+  if (enrolledIds.size > 0) {
+    const remaining = cart.classIds.filter(classId => !enrolledIds.has(classId));
+
+    if (remaining.length === 0) {
+      await clearCart(email, termId);
+      cart = null;
+    } else {
+      cart = await saveCart(email, termId, remaining);
+    }
+  }
+
+  return { termId, mode, enrolledCount: enrolledIds.size, items, cart };
+}
@@ -0,0 +1,113 @@
+/**
+ * Class rosters for instructors
+ *
+ * A class belongs to the instructor whose account email is its
+ * instructorEmail, and only they can see who is enrolled or waiting for it.
+ * Rosters list enrolled students in the order they enrolled, then the
+ * waitlist in queue order, and can be exported as CSV or JSON.
+ */
+
+import { compareWaitlistOrder, getClassEnrollments, getUserByEmail } from './db';
+import type { Class, Enrollment } from '@/types';
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const CSV_COLUMNS: [keyof RosterEntry, string][] = [
+  ['name', 'Name'],
+  ['studentId', 'Student ID'],
+  ['email', 'Email'],
+  ['enrolledAt', 'Enrolled'],
+  ['status', 'Status'],
+  ['waitlistPosition', 'Waitlist position'],
+];
+
+/**
+ * One student on a class roster
+ */
+export interface RosterEntry {
+  name: string;
+  studentId: string;
+  email: string;
+  enrolledAt: string;
+  status: Extract<Enrollment['status'], 'active' | 'waitlisted'>;
+  waitlistPosition?: number; // 1-based, waitlisted students only
+}
+
+/**
+ * SECURITY: Check whether a user teaches a class and may see its roster
+ */
+export function canViewRoster(classItem: Pick<Class, 'instructorEmail'>, email: string): boolean {
+  return !!classItem.instructorEmail && classItem.instructorEmail === email.toLowerCase().trim();
+}
+
+/**
+ * Put enrollments in roster order: enrolled by date, then the waitlist queue
+ */
+export function orderRoster(enrollments: Enrollment[]): Enrollment[] {
+  const enrolled = enrollments
+    .filter(enrollment => enrollment.status === 'active')
+    .sort((a, b) => a.enrolledAt.localeCompare(b.enrolledAt));
+  const waitlist = enrollments
+    .filter(enrollment => enrollment.status === 'waitlisted')
+    .sort(compareWaitlistOrder);
+
+  return [...enrolled, ...waitlist];
+}
+
+/**
+ * Get a class roster with each student's name and student ID
+ *
+ * @param classId - Class identifier
+ * @returns Promise<RosterEntry[]> - Enrolled students, then the waitlist
+ */
+export async function getClassRoster(classId: string): Promise<RosterEntry[]> {
+  const enrollments = orderRoster(await getClassEnrollments(classId));
+  const students = await Promise.all(enrollments.map(enrollment => getUserByEmail(enrollment.email)));
+
+  let waitlistPosition = 0;
+
+  return enrollments.map((enrollment, i) => ({
+    // Accounts may be gone while their enrollments remain
+    name: students[i]?.name ?? '',
+    studentId: students[i]?.studentId ?? '',
+    email: enrollment.email,
+    enrolledAt: enrollment.enrolledAt,
+    status: enrollment.status as RosterEntry['status'],
+    ...(enrollment.status === 'waitlisted' && { waitlistPosition: ++waitlistPosition }),
+  }));
+}
+
+/**
+ * SECURITY: Quote a CSV cell, and neutralise text a spreadsheet would run as a formula
+ */
+export function escapeCsvCell(value: string | number | undefined): string {
+  let text = value === undefined ? '' : String(value);
+
+  if (FORMULA_PREFIXES.some(prefix => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a roster as CSV (RFC 4180) with a header row
+ */
+export function rosterToCsv(roster: RosterEntry[]): string {
+  const rows = [
+    CSV_COLUMNS.map(([, heading]) => heading),
+    ...roster.map(entry => CSV_COLUMNS.map(([key]) => entry[key])),
+  ];
+
+  return rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * File name for a downloaded roster, e.g. "roster-CS-101.csv"
+ */
+export function getRosterFileName(classItem: Pick<Class, 'id' | 'courseCode'>, format: 'csv' | 'json'): string {
+  const label = (classItem.courseCode || classItem.id).replace(/[^A-Za-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+  return `roster-${label || 'class'}.${format}`;
+}
@@ -10,24 +10,79 @@ export const ROUTES = {
   HOME: '/',
   LOGIN: '/login',
   REGISTER: '/register',
+  FORGOT_PASSWORD: '/forgot-password',
+  RESET_PASSWORD: '/reset-password',
   DASHBOARD: '/dashboard',
   CLASSES: '/classes',
   PROFILE: '/profile',
+  SECURITY: '/security',
+  INSTRUCTOR: '/instructor',
 } as const;
 
 export const API_ROUTES = {
   AUTH: '/api/auth',
   REGISTER: '/api/register',
+  VERIFY_EMAIL: '/api/auth/verify',
   ENROLLMENTS: '/api/enrollments',
+  CART: '/api/cart',
   CLASSES: '/api/classes',
   USERS: '/api/users',
 } as const;
 
+export const USER_ROLES = {
+  STUDENT: 'student',
+  INSTRUCTOR: 'instructor',
+  ADVISOR: 'advisor',
+  ADMIN: 'admin',
+} as const;
+
+// Role given to new accounts and to users stored before roles existed
+export const DEFAULT_USER_ROLE = USER_ROLES.STUDENT;
+
 export const ENROLLMENT_STATUS = {
   ACTIVE: 'active',
   DROPPED: 'dropped',
+  WAITLISTED: 'waitlisted',
+  WITHDRAWN: 'withdrawn',
+} as const;
+
+export const STUDENT_CATEGORIES = {
+  FULL_TIME: 'full-time',
+  PART_TIME: 'part-time',
+  GRADUATE: 'graduate',
 } as const;
 
+// Category of students stored without one
+export const DEFAULT_STUDENT_CATEGORY = STUDENT_CATEGORIES.FULL_TIME;
+
+// Credit load per term for each category, unless the term sets its own
+export const DEFAULT_CREDIT_LIMITS = {
+  [STUDENT_CATEGORIES.FULL_TIME]: { minCredits: 12, maxCredits: 18 },
+  [STUDENT_CATEGORIES.PART_TIME]: { minCredits: 0, maxCredits: 11 },
+  [STUDENT_CATEGORIES.GRADUATE]: { minCredits: 9, maxCredits: 15 },
+} as const;
+
+// Emails a user gets unless they opt out on their profile
+export const DEFAULT_CONTACT_PREFERENCES = {
+  classChanges: true,
+  overloadDecisions: true,
+} as const;
+
+// No overload request may ask for more than this
+export const MAX_OVERLOAD_CREDITS = 24;
+
+// Most classes a registration cart can hold
+export const MAX_CART_SIZE = 10;
+
+// Header carrying the id middleware assigns to every request; recorded in the audit log
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+// Set by the middleware to the request's method and path, e.g. "GET /api/cart"
+export const REQUEST_TARGET_HEADER = 'x-request-target';
+
+// Grades on a completed course that do not satisfy a requirement
+export const NON_PASSING_GRADES = ['F', 'W', 'I', 'NC'] as const;
+
 export const HTTP_STATUS = {
   OK: 200,
   CREATED: 201,
@@ -53,4 +108,66 @@ export const VALIDATION_RULES = {
 export const SESSION_CONFIG = {
   MAX_AGE: 24 * 60 * 60, // 24 hours in seconds
   UPDATE_AGE: 60 * 60, // 1 hour in seconds
-} as const;
\ No newline at end of file
+  ACTIVITY_UPDATE_AGE: 5 * 60, // Record session activity at most every 5 minutes
+  HISTORY_RETENTION: 30 * 24 * 60 * 60, // Keep ended sessions in the login history for 30 days
+} as const;
+
+// Methods that never change data
+export const SAFE_HTTP_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+export const IMPERSONATION_CONFIG = {
+  MAX_DURATION: 60 * 60, // Viewing as a student ends by itself after 1 hour
+  WRITE_ROUTES: ['/api/admin/impersonation'], // The only writes allowed while viewing
+  // Closed while viewing; they show or change the student's sign-in security
+  BLOCKED_ROUTES: ['/security', '/api/users/me/two-factor', '/api/users/me/sessions'],
+} as const;
+
+export const PASSWORD_RESET_CONFIG = {
+  TOKEN_TTL: 30 * 60, // 30 minutes in seconds
+  TOKEN_BYTES: 32, // 256 bits of randomness per token
+} as const;
+
+export const EMAIL_VERIFICATION_CONFIG = {
+  TOKEN_TTL: 24 * 60 * 60, // 24 hours in seconds
+} as const;
+
+// Sign-in error code for accounts whose email is not verified yet
+export const EMAIL_NOT_VERIFIED_ERROR = 'EmailNotVerified';
+
+// RFC 6238 parameters understood by common authenticator apps
+export const TOTP_CONFIG = {
+  PERIOD: 30, // Seconds per code
+  DIGITS: 6,
+  WINDOW: 1, // Steps of clock drift accepted either side
+  SECRET_BYTES: 20, // 160-bit secret, as recommended for HMAC-SHA1
+  RECOVERY_CODE_COUNT: 10,
+} as const;
+
+// Progressive lockout after repeated failed sign-ins
+export const LOCKOUT_CONFIG = {
+  MAX_FAILED_ATTEMPTS: 5, // Failures within FAILURE_WINDOW that lock the account
+  FAILURE_WINDOW: 15 * 60, // Seconds; older failures are forgotten
+  BASE_LOCK_DURATION: 15 * 60, // Seconds for the first lock; doubles with each further one
+  MAX_LOCK_DURATION: 24 * 60 * 60, // Seconds
+  KNOWN_IP_COUNT: 10, // Sign-in addresses remembered per account
+  IP_ACCOUNT_THRESHOLD: 10, // Accounts failing from one address within FAILURE_WINDOW that is flagged
+} as const;
+
+// Sign-in error code for locked accounts
+export const ACCOUNT_LOCKED_ERROR = 'AccountLocked';
+
+// Sign-in error codes for the second step of two-factor sign-in
+export const TWO_FACTOR_REQUIRED_ERROR = 'TwoFactorRequired';
+export const TWO_FACTOR_INVALID_ERROR = 'TwoFactorInvalid';
+
+// Notices the sign-in page shows for its `notice` query parameter. Only these
+// fixed texts are shown, so a crafted link cannot put its own words there.
+export const LOGIN_NOTICES = {
+  'registered': 'Registration successful! Check your email for a link to verify your address, then sign in.',
+  'password-reset': 'Your password has been reset. Please sign in.',
+  'email-verified': 'Your email is verified. Please sign in.',
+  'verify-invalid': 'This verification link is invalid or has expired. Sign in to request a new one.',
+  'verify-failed': 'Email verification failed. Please try again later.',
+} as const;
+
+export type LoginNotice = keyof typeof LOGIN_NOTICES;
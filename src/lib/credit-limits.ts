@@ -0,0 +1,98 @@
+/**
+ * Credit-hour limits
+ *
+ * Each student category has a minimum and maximum credit load per term. A
+ * term may override the defaults, and an approved overload request raises a
+ * student's maximum for that term only.
+ */
+
+import { getUserByEmail, getTermById, getOverloadRequest, createOverloadRequest } from './db';
+import { ValidationError } from './db-errors';
+import { DEFAULT_CREDIT_LIMITS, DEFAULT_STUDENT_CATEGORY } from './constants';
+import type { Class, CreditLimit, OverloadRequest, StudentCategory, Term } from '@/types';
+
+/**
+ * The limits that apply to one student in one term
+ */
+export interface StudentCreditLimit extends CreditLimit {
+  category: StudentCategory;
+  overloadApproved: boolean; // maxCredits comes from an approved overload
+}
+
+/**
+ * Work out a student's limits from the term, their category and any overload
+ *
+ * @param term - Term whose limits apply (null for the defaults)
+ * @param category - Student category
+ * @param overload - The student's overload request for the term, if any
+ * @returns StudentCreditLimit - Minimum and maximum credits
+ */
+export function resolveCreditLimit(
+  term: Term | null,
+  category: StudentCategory,
+  overload: OverloadRequest | null = null
+): StudentCreditLimit {
+  const base = term?.creditLimits?.[category] ?? DEFAULT_CREDIT_LIMITS[category];
+
+  // An approved overload can only raise the limit
+  const overloadApproved = overload?.status === 'approved' && overload.requestedCredits > base.maxCredits;
+
+  return {
+    category,
+    minCredits: base.minCredits,
+    maxCredits: overloadApproved ? overload!.requestedCredits : base.maxCredits,
+    overloadApproved,
+  };
+}
+
+/**
+ * Sum the credits of the classes that belong to a term
+ */
+export function sumTermCredits(classes: Class[], termId: string): number {
+  return classes
+    .filter(classItem => classItem.termId === termId)
+    .reduce((total, classItem) => total + classItem.credits, 0);
+}
+
+/**
+ * Load the limits that apply to a student in a term
+ *
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @returns Promise<StudentCreditLimit> - Minimum and maximum credits
+ */
+export async function getCreditLimit(email: string, termId: string): Promise<StudentCreditLimit> {
+  const [user, term, overload] = await Promise.all([
+    getUserByEmail(email),
+    getTermById(termId),
+    getOverloadRequest(email, termId),
+  ]);
+
+  return resolveCreditLimit(term, user?.category ?? DEFAULT_STUDENT_CATEGORY, overload);
+}
+
+/**
+ * File an overload request for a term
+ *
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @param requestedCredits - Maximum load the student is asking for
+ * @param reason - Why the student needs the overload
+ * @returns Promise<OverloadRequest> - Pending request
+ * @throws ValidationError if the student may already take that many credits
+ * @throws ConflictError if a pending or approved request exists
+ */
+export async function requestOverload(
+  email: string,
+  termId: string,
+  requestedCredits: number,
+  reason: string
+): Promise<OverloadRequest> {
+  const limit = await getCreditLimit(email, termId);
+
+  if (requestedCredits <= limit.maxCredits) {
+    throw new ValidationError(`You can already take up to ${limit.maxCredits} credits this term`);
+  }
+
+  return createOverloadRequest(email, termId, requestedCredits, reason);
+}
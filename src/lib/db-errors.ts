@@ -36,10 +36,22 @@ export class ConflictError extends DatabaseError {
   }
 }
 
+export class ClassFullError extends ConflictError {
+  constructor(message: string = 'This class is full') {
+    super(message);
+    this.name = 'ClassFullError';
+  }
+}
+
 /**
  * SECURITY: Handle DynamoDB errors safely without exposing internal details
  */
 export function handleDynamoDBError(error: any): DatabaseError {
+  // Errors raised by our own validation are already safe to surface
+  if (error instanceof DatabaseError) {
+    return error;
+  }
+
   // Don't log sensitive information
   const errorName = error?.name || 'UnknownError';
   
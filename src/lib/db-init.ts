@@ -1,170 +1,436 @@
 /**
  * Database initialization script for development
  * This script creates the required DynamoDB tables with proper indexes
- * 
+ * and seeds the class catalog
+ *
+ * Safe to re-run: existing tables are kept, indexes added to a definition
+ * since the table was created are added to it, and seed records that already
+ * exist are skipped. Set DYNAMODB_ENDPOINT to bootstrap a local
+ * DynamoDB-compatible server instead of AWS.
+ *
  * SECURITY NOTE: This is for development only. In production, tables should be
  * created through Infrastructure as Code (Terraform, CloudFormation, etc.)
  */
 
-import { 
-  CreateTableCommand, 
+import './load-env';
+import {
+  CreateTableCommand,
   DescribeTableCommand,
+  DescribeTimeToLiveCommand,
+  UpdateTableCommand,
+  UpdateTimeToLiveCommand,
   CreateTableCommandInput,
+  TableDescription,
   BillingMode,
   KeyType,
-  AttributeDefinition,
-  GlobalSecondaryIndex,
-  ProjectionType
+  ProjectionType,
+  ResourceNotFoundException
 } from '@aws-sdk/client-dynamodb';
-import { dynamoDBClient } from './db';
+import { createClass, createTerm } from './db';
+import { ConflictError } from './db-errors';
+import { SEED_CLASSES, SEED_TERMS } from './seed-data';
+import { getStorageBackend } from './storage';
+import { getDynamoDBClients } from './storage/dynamodb';
 
-const USERS_TABLE = process.env.DYNAMODB_USERS_TABLE!;
-const ENROLLMENTS_TABLE = process.env.DYNAMODB_ENROLLMENTS_TABLE!;
+// How long to wait for a table or index to become ACTIVE
+const ACTIVE_TIMEOUT_MS = 5 * 60 * 1000;
+const POLL_INTERVAL_MS = 2000;
 
 /**
- * Check if a table exists
+ * A table to create, and the attribute DynamoDB TTL removes expired items by
  */
-async function tableExists(tableName: string): Promise<boolean> {
-  try {
-    await dynamoDBClient.send(new DescribeTableCommand({ TableName: tableName }));
-    return true;
-  } catch (error) {
-    return false;
-  }
+export interface TableDefinition extends CreateTableCommandInput {
+  timeToLiveAttribute?: string;
 }
 
 /**
- * Create Users table with email as primary key
+ * Every table the application uses, with its key schema and indexes
  */
-async function createUsersTable(): Promise<void> {
-  if (await tableExists(USERS_TABLE)) {
-    console.log(`Table ${USERS_TABLE} already exists`);
-    return;
-  }
-
-  const params: CreateTableCommandInput = {
-    TableName: USERS_TABLE,
-    KeySchema: [
-      {
-        AttributeName: 'email',
-        KeyType: KeyType.HASH, // Partition key
-      },
-    ],
-    AttributeDefinitions: [
-      {
-        AttributeName: 'email',
-        AttributeType: 'S', // String
-      },
-      {
-        AttributeName: 'studentId',
-        AttributeType: 'S', // String
-      },
-    ],
-    GlobalSecondaryIndexes: [
-      {
-        IndexName: 'StudentIdIndex',
-        KeySchema: [
-          {
-            AttributeName: 'studentId',
-            KeyType: KeyType.HASH,
-          },
-        ],
-        Projection: {
-          ProjectionType: ProjectionType.ALL,
+export function getTableDefinitions(): TableDefinition[] {
+  return [
+    // Users: email as primary key
+    {
+      TableName: process.env.DYNAMODB_USERS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'email', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'studentId', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'StudentIdIndex',
+          KeySchema: [{ AttributeName: 'studentId', KeyType: KeyType.HASH }],
+          Projection: { ProjectionType: ProjectionType.ALL },
+        },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // Enrollments: deterministic id, looked up by student and by class
+    {
+      TableName: process.env.DYNAMODB_ENROLLMENTS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'classId', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'EmailIndex',
+          KeySchema: [{ AttributeName: 'email', KeyType: KeyType.HASH }],
+          Projection: { ProjectionType: ProjectionType.ALL },
+        },
+        {
+          IndexName: 'ClassIdIndex',
+          KeySchema: [{ AttributeName: 'classId', KeyType: KeyType.HASH }],
+          Projection: { ProjectionType: ProjectionType.ALL },
+        },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // Classes: id as primary key
+    {
+      TableName: process.env.DYNAMODB_CLASSES_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // CompletedCourses: keyed by student email and course code
+    {
+      TableName: process.env.DYNAMODB_COMPLETED_COURSES_TABLE!,
+      KeySchema: [
+        { AttributeName: 'email', KeyType: KeyType.HASH }, // Partition key
+        { AttributeName: 'courseCode', KeyType: KeyType.RANGE }, // Sort key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'courseCode', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // Terms: id as primary key
+    {
+      TableName: process.env.DYNAMODB_TERMS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // AuditLog: id as primary key, entries per entity by time
+    {
+      TableName: process.env.DYNAMODB_AUDIT_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+        { AttributeName: 'entityId', AttributeType: 'S' },
+        { AttributeName: 'timestamp', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'EntityIndex',
+          KeySchema: [
+            { AttributeName: 'entityId', KeyType: KeyType.HASH },
+            { AttributeName: 'timestamp', KeyType: KeyType.RANGE },
+          ],
+          Projection: { ProjectionType: ProjectionType.ALL },
         },
-      },
-    ],
-    BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
-  };
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // Carts: one per student per term
+    {
+      TableName: process.env.DYNAMODB_CARTS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'email', KeyType: KeyType.HASH }, // Partition key
+        { AttributeName: 'termId', KeyType: KeyType.RANGE }, // Sort key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'termId', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // OverloadRequests: one per student per term, reviewed by status
+    {
+      TableName: process.env.DYNAMODB_OVERLOADS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'email', KeyType: KeyType.HASH }, // Partition key
+        { AttributeName: 'termId', KeyType: KeyType.RANGE }, // Sort key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'termId', AttributeType: 'S' },
+        { AttributeName: 'status', AttributeType: 'S' },
+        { AttributeName: 'createdAt', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'StatusIndex',
+          KeySchema: [
+            { AttributeName: 'status', KeyType: KeyType.HASH },
+            { AttributeName: 'createdAt', KeyType: KeyType.RANGE },
+          ],
+          Projection: { ProjectionType: ProjectionType.ALL },
+        },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // PasswordResetTokens: looked up by the hash of the emailed token
+    {
+      TableName: process.env.DYNAMODB_PASSWORD_RESETS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'tokenHash', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'tokenHash', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+    },
+    // RateLimits: one counter per limiter and identifier, removed by TTL
+    {
+      TableName: process.env.DYNAMODB_RATE_LIMITS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+      timeToLiveAttribute: 'expiresAt',
+    },
+    // Sessions: one per sign-in, listed per user by time, removed by TTL
+    {
+      TableName: process.env.DYNAMODB_SESSIONS_TABLE!,
+      KeySchema: [
+        { AttributeName: 'id', KeyType: KeyType.HASH }, // Partition key
+      ],
+      AttributeDefinitions: [
+        { AttributeName: 'id', AttributeType: 'S' },
+        { AttributeName: 'email', AttributeType: 'S' },
+        { AttributeName: 'createdAt', AttributeType: 'S' },
+      ],
+      GlobalSecondaryIndexes: [
+        {
+          IndexName: 'EmailIndex',
+          KeySchema: [
+            { AttributeName: 'email', KeyType: KeyType.HASH },
+            { AttributeName: 'createdAt', KeyType: KeyType.RANGE },
+          ],
+          Projection: { ProjectionType: ProjectionType.ALL },
+        },
+      ],
+      BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+      timeToLiveAttribute: 'purgeAt',
+    },
+  ];
+}
 
+/**
+ * Describe a table, or null if it does not exist
+ */
+async function describeTable(tableName: string): Promise<TableDescription | null> {
   try {
-    await dynamoDBClient.send(new CreateTableCommand(params));
-    console.log(`Created table: ${USERS_TABLE}`);
+    const result = await getDynamoDBClients().client.send(new DescribeTableCommand({ TableName: tableName }));
+    return result.Table ?? null;
   } catch (error) {
-    console.error(`Error creating table ${USERS_TABLE}:`, error);
+    if (error instanceof ResourceNotFoundException) {
+      return null;
+    }
     throw error;
   }
 }
 
 /**
- * Create Enrollments table with composite primary key
+ * Wait until a table and all of its indexes are ACTIVE
+ */
+async function waitUntilActive(tableName: string): Promise<TableDescription> {
+  const deadline = Date.now() + ACTIVE_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    const table = await describeTable(tableName);
+
+    if (
+      table?.TableStatus === 'ACTIVE' &&
+      (table.GlobalSecondaryIndexes || []).every(index => index.IndexStatus === 'ACTIVE')
+    ) {
+      return table;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  throw new Error(`Timed out waiting for table ${tableName} to become ACTIVE`);
+}
+
+/**
+ * Turn on TTL for a table unless it is already on
  */
-async function createEnrollmentsTable(): Promise<void> {
-  if (await tableExists(ENROLLMENTS_TABLE)) {
-    console.log(`Table ${ENROLLMENTS_TABLE} already exists`);
+async function ensureTimeToLive(
+  tableName: string,
+  attributeName: string,
+  options: { dryRun?: boolean }
+): Promise<void> {
+  const result = await getDynamoDBClients().client.send(new DescribeTimeToLiveCommand({ TableName: tableName }));
+  const status = result.TimeToLiveDescription?.TimeToLiveStatus;
+
+  if (status === 'ENABLED' || status === 'ENABLING') {
     return;
   }
 
-  const params: CreateTableCommandInput = {
-    TableName: ENROLLMENTS_TABLE,
-    KeySchema: [
-      {
-        AttributeName: 'id',
-        KeyType: KeyType.HASH, // Partition key
-      },
-    ],
-    AttributeDefinitions: [
-      {
-        AttributeName: 'id',
-        AttributeType: 'S', // String
-      },
-      {
-        AttributeName: 'email',
-        AttributeType: 'S', // String
-      },
-      {
-        AttributeName: 'classId',
-        AttributeType: 'S', // String
-      },
-    ],
-    GlobalSecondaryIndexes: [
-      {
-        IndexName: 'EmailIndex',
-        KeySchema: [
-          {
-            AttributeName: 'email',
-            KeyType: KeyType.HASH,
-          },
-        ],
-        Projection: {
-          ProjectionType: ProjectionType.ALL,
-        },
-      },
-      {
-        IndexName: 'ClassIdIndex',
-        KeySchema: [
+  if (options.dryRun) {
+    console.log(`[dry run] Would turn on TTL (${attributeName}) for ${tableName}`);
+    return;
+  }
+
+  await getDynamoDBClients().client.send(new UpdateTimeToLiveCommand({
+    TableName: tableName,
+    TimeToLiveSpecification: { AttributeName: attributeName, Enabled: true },
+  }));
+  console.log(`Turned on TTL (${attributeName}) for ${tableName}`);
+}
+
+/**
+ * Create a table if it is missing and add any indexes and TTL it lacks
+ * @param definition - Table to ensure
+ * @param options - With dryRun, only report what would change
+ */
+export async function ensureTable(
+  definition: TableDefinition,
+  options: { dryRun?: boolean } = {}
+): Promise<void> {
+  const { timeToLiveAttribute, ...input } = definition;
+  const tableName = definition.TableName!;
+
+  try {
+    if (await describeTable(tableName)) {
+      console.log(`Table ${tableName} already exists`);
+    } else if (options.dryRun) {
+      console.log(`[dry run] Would create table: ${tableName}`);
+      return;
+    } else {
+      await getDynamoDBClients().client.send(new CreateTableCommand(input));
+      console.log(`Created table: ${tableName}`);
+    }
+
+    // Seeding and index changes need the table to accept requests
+    const table = await waitUntilActive(tableName);
+    const existingIndexes = new Set((table.GlobalSecondaryIndexes || []).map(index => index.IndexName));
+    const onDemand = table.BillingModeSummary?.BillingMode === BillingMode.PAY_PER_REQUEST;
+
+    // DynamoDB creates one index per update, so add them one at a time
+    for (const index of definition.GlobalSecondaryIndexes || []) {
+      if (existingIndexes.has(index.IndexName)) {
+        continue;
+      }
+
+      if (options.dryRun) {
+        console.log(`[dry run] Would add index ${index.IndexName} to ${tableName}`);
+        continue;
+      }
+
+      const keyNames = (index.KeySchema || []).map(key => key.AttributeName);
+
+      await getDynamoDBClients().client.send(new UpdateTableCommand({
+        TableName: tableName,
+        AttributeDefinitions: (definition.AttributeDefinitions || [])
+          .filter(attribute => keyNames.includes(attribute.AttributeName)),
+        GlobalSecondaryIndexUpdates: [
           {
-            AttributeName: 'classId',
-            KeyType: KeyType.HASH,
+            Create: {
+              IndexName: index.IndexName,
+              KeySchema: index.KeySchema,
+              Projection: index.Projection,
+              // Provisioned tables need capacity for the new index; on-demand tables refuse it
+              ...(!onDemand && {
+                ProvisionedThroughput: {
+                  ReadCapacityUnits: table.ProvisionedThroughput?.ReadCapacityUnits || 1,
+                  WriteCapacityUnits: table.ProvisionedThroughput?.WriteCapacityUnits || 1,
+                },
+              }),
+            },
           },
         ],
-        Projection: {
-          ProjectionType: ProjectionType.ALL,
-        },
-      },
-    ],
-    BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
-  };
+      }));
 
-  try {
-    await dynamoDBClient.send(new CreateTableCommand(params));
-    console.log(`Created table: ${ENROLLMENTS_TABLE}`);
+      console.log(`Adding index ${index.IndexName} to ${tableName}`);
+      await waitUntilActive(tableName);
+    }
+
+    if (timeToLiveAttribute) {
+      await ensureTimeToLive(tableName, timeToLiveAttribute, options);
+    }
   } catch (error) {
-    console.error(`Error creating table ${ENROLLMENTS_TABLE}:`, error);
+    console.error(`Error creating table ${tableName}:`, error);
     throw error;
   }
 }
 
+/**
+ * Load the seed term calendar, leaving terms that already exist untouched
+ */
+async function seedTerms(): Promise<void> {
+  for (const seedTerm of SEED_TERMS) {
+    try {
+      await createTerm(seedTerm);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        console.log(`Term ${seedTerm.id} already exists, skipping`);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Load the seed catalog, leaving classes that already exist untouched
+ */
+async function seedClasses(): Promise<void> {
+  for (const seedClass of SEED_CLASSES) {
+    try {
+      await createClass(seedClass);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        console.log(`Class ${seedClass.id} already exists, skipping`);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
 /**
  * Initialize all required tables
  */
 export async function initializeTables(): Promise<void> {
   try {
+    // The memory backend starts from the seed data on its own
+    if (getStorageBackend() !== 'dynamodb') {
+      throw new Error('db:init requires STORAGE_BACKEND=dynamodb');
+    }
+
     console.log('Initializing DynamoDB tables...');
-    
-    await createUsersTable();
-    await createEnrollmentsTable();
-    
+
+    for (const definition of getTableDefinitions()) {
+      await ensureTable(definition);
+    }
+
+    await seedTerms();
+    await seedClasses();
+
     console.log('Database initialization completed successfully!');
   } catch (error) {
     console.error('Database initialization failed:', error);
@@ -185,4 +451,4 @@ if (require.main === module) {
       console.error('Failed to initialize tables:', error);
       process.exit(1);
     });
-}
\ No newline at end of file
+}
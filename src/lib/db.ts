@@ -1,192 +1,1183 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { 
-  DynamoDBDocumentClient, 
-  PutCommand, 
-  GetCommand, 
-  QueryCommand,
-  ScanCommand,
-  PutCommandInput,
-  GetCommandInput,
-  QueryCommandInput
-} from '@aws-sdk/lib-dynamodb';
+/**
+ * Database layer
+ *
+ * Validation and enrollment rules shared by every storage backend. Reads and
+ * writes go through the adapter selected in ./storage, so importing this
+ * module never requires AWS configuration.
+ */
+
 import { 
   handleDynamoDBError, 
   validateEmail, 
   validateStudentId, 
   validateName,
-  ConflictError 
+  DatabaseError,
+  ValidationError,
+  NotFoundError,
+  ConflictError
 } from './db-errors';
+import { parseSchedule } from './schedule';
+import { normalizeCourseCode } from './prerequisites';
+import { USER_ROLES, DEFAULT_USER_ROLE, STUDENT_CATEGORIES, MAX_OVERLOAD_CREDITS } from './constants';
+import { getStorage } from './storage';
+import { validatePromotion } from './enrollment-rules';
+import type { AuditRange, DropStatus, ReadOptions } from './storage';
+import type {
+  AuditEntry,
+  Cart,
+  Class,
+  CompletedCourse,
+  Enrollment,
+  EnrollmentChange,
+  OverloadRequest,
+  OverloadStatus,
+  PasswordResetToken,
+  SkippedPromotion,
+  StudentCategory,
+  Term,
+  User,
+  UserRole,
+  UserSession
+} from '../types';
 
-// SECURITY: Validate all required environment variables exist
-function validateEnvironmentVariables(): void {
-  const requiredEnvVars = [
-    'AWS_REGION',
-    'AWS_ACCESS_KEY_ID',
-    'AWS_SECRET_ACCESS_KEY',
-    'DYNAMODB_USERS_TABLE',
-    'DYNAMODB_ENROLLMENTS_TABLE'
-  ];
+export type { AuditRange, DropStatus, ReadOptions } from './storage';
+export type { Enrollment, EnrollmentChange, User } from '../types';
+
+/**
+ * SECURITY: Create user with parameterized query to prevent NoSQL injection
+ * @param email - User email (validated input)
+ * @param passwordHash - Hashed password (never log this)
+ * @param name - User display name
+ * @param studentId - Unique student identifier
+ * @returns Promise<User> - Created user object
+ */
+export async function createUser(
+  email: string, 
+  passwordHash: string, 
+  name: string, 
+  studentId: string,
+  role: UserRole = DEFAULT_USER_ROLE
+): Promise<User> {
+  try {
+    // SECURITY: Validate all inputs before database operation
+    validateEmail(email);
+    validateName(name);
+    validateStudentId(studentId);
+    
+    if (!passwordHash || typeof passwordHash !== 'string') {
+      throw new Error('Password hash is required');
+    }
+    
+    const now = new Date().toISOString();
+    
+    const user: User = {
+      email: email.toLowerCase().trim(), // Normalize email
+      passwordHash,
+      name: name.trim(),
+      studentId: studentId.trim(),
+      role,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await getStorage().createUser(user);
+    
+    // SECURITY: Never log password hash
+    console.log(`User created successfully: ${email}`);
+    
+    return user;
+  } catch (error) {
+    // SECURITY: Use safe error handling
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get user by email with parameterized query
+ * @param email - User email to search for
+ * @returns Promise<User | null> - User object or null if not found
+ */
+export async function getUserByEmail(email: string): Promise<User | null> {
+  try {
+    // SECURITY: Validate email input
+    validateEmail(email);
+    
+    const user = await getStorage().getUser(email.toLowerCase().trim());
+    
+    // Return null if user not found (don't throw error)
+    if (!user) {
+      return null;
+    }
+
+    // Users created before roles existed are students
+    return { ...user, role: user.role || DEFAULT_USER_ROLE };
+  } catch (error) {
+    console.error('Error getting user by email:', error);
+    // SECURITY: Return null instead of throwing to prevent information leakage
+    return null;
+  }
+}
+
+/**
+ * SECURITY: Change a user's role with parameterized query
+ * Takes effect at the user's next sign-in
+ * @param email - User email
+ * @param role - New role
+ * @returns Promise<User> - Updated user
+ */
+export async function updateUserRole(email: string, role: UserRole): Promise<User> {
+  try {
+    validateEmail(email);
+
+    if (!(Object.values(USER_ROLES) as string[]).includes(role)) {
+      throw new ValidationError(`Invalid role: ${role}`);
+    }
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), { role });
+
+    console.log(`User ${email} role set to ${role}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Change a student's category with parameterized query
+ * The category decides which credit limits apply
+ * @param email - User email
+ * @param category - New category
+ * @returns Promise<User> - Updated user
+ */
+export async function updateStudentCategory(email: string, category: StudentCategory): Promise<User> {
+  try {
+    validateEmail(email);
+
+    if (!(Object.values(STUDENT_CATEGORIES) as string[]).includes(category)) {
+      throw new ValidationError(`Invalid student category: ${category}`);
+    }
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), { category });
+
+    console.log(`User ${email} category set to ${category}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Update the profile fields a user may change themselves
+ * @param email - User email
+ * @param updates - New name and/or contact preferences
+ * @returns Promise<User> - Updated user
+ */
+export async function updateUserProfile(
+  email: string,
+  updates: Pick<Partial<User>, 'name' | 'contactPreferences'>
+): Promise<User> {
+  try {
+    validateEmail(email);
+
+    if (updates.name !== undefined) {
+      validateName(updates.name);
+    }
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), {
+      name: updates.name?.trim(),
+      contactPreferences: updates.contactPreferences,
+    });
+
+    console.log(`Profile updated for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Replace a user's password hash with parameterized query
+ * Records the change time, which voids reset links issued earlier, and lifts
+ * any sign-in lock and forgets earlier locks: the user has proven they hold
+ * the account, so the next lock starts from the shortest duration again
+ * @param email - User email
+ * @param passwordHash - New bcrypt hash (never log this)
+ * @returns Promise<User> - Updated user
+ */
+export async function updateUserPassword(email: string, passwordHash: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), {
+      passwordHash,
+      passwordChangedAt: new Date().toISOString(),
+    }, ['failedLoginCount', 'lastFailedLoginAt', 'lockedUntil', 'lockoutCount']);
+
+    console.log(`Password changed for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Mark a user's email address as verified with parameterized query
+ * @param email - User email
+ * @returns Promise<User> - Updated user
+ */
+export async function markEmailVerified(email: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), {
+      emailVerifiedAt: new Date().toISOString(),
+    });
+
+    console.log(`Email verified for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Store a TOTP secret that waits for its first code
+ * Starting setup again replaces the pending secret; an enabled one is untouched
+ * @param email - User email
+ * @param encryptedSecret - Secret encrypted for storage
+ * @returns Promise<User> - Updated user
+ */
+export async function setPendingTotpSecret(email: string, encryptedSecret: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().updateUser(email.toLowerCase().trim(), { totpPendingSecret: encryptedSecret });
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Turn on two-factor sign-in with a confirmed secret
+ * @param email - User email
+ * @param encryptedSecret - Confirmed secret, encrypted for storage
+ * @param step - TOTP step of the confirming code, so it cannot be reused to sign in
+ * @param recoveryCodeHashes - SHA-256 of the new recovery codes
+ * @returns Promise<User> - Updated user
+ */
+export async function enableTwoFactor(
+  email: string,
+  encryptedSecret: string,
+  step: number,
+  recoveryCodeHashes: string[]
+): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(
+      email.toLowerCase().trim(),
+      {
+        totpSecret: encryptedSecret,
+        totpEnabledAt: new Date().toISOString(),
+        totpLastStep: step,
+        recoveryCodeHashes,
+      },
+      ['totpPendingSecret']
+    );
+
+    console.log(`Two-factor sign-in enabled for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Turn off two-factor sign-in and forget the secret and recovery codes
+ * @param email - User email
+ * @returns Promise<User> - Updated user
+ */
+export async function disableTwoFactor(email: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), {}, [
+      'totpSecret',
+      'totpPendingSecret',
+      'totpEnabledAt',
+      'totpLastStep',
+      'recoveryCodeHashes',
+    ]);
+
+    console.log(`Two-factor sign-in disabled for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Replace a user's recovery codes, voiding the old ones
+ * @param email - User email
+ * @param recoveryCodeHashes - SHA-256 of the new recovery codes
+ * @returns Promise<User> - Updated user
+ */
+export async function replaceRecoveryCodes(email: string, recoveryCodeHashes: string[]): Promise<User> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().updateUser(email.toLowerCase().trim(), { recoveryCodeHashes });
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Record a TOTP step as used
+ * @param email - User email
+ * @param step - Time step of the accepted code
+ * @returns Promise<boolean> - False if the code was already used
+ */
+export async function acceptTotpStep(email: string, step: number): Promise<boolean> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().acceptTotpStep(email.toLowerCase().trim(), step);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Use up a recovery code
+ * @param email - User email
+ * @param codeHash - SHA-256 of the normalized code
+ * @returns Promise<boolean> - False if the code is unknown or already used
+ */
+export async function consumeRecoveryCode(email: string, codeHash: string): Promise<boolean> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().consumeRecoveryCode(email.toLowerCase().trim(), codeHash);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Count a failed sign-in
+ * @param email - User email
+ * @param since - ISO 8601 time before which earlier failures are forgotten
+ * @returns Promise<User> - Updated user with the new failedLoginCount
+ */
+export async function recordFailedLogin(email: string, since: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().recordFailedLogin(email.toLowerCase().trim(), new Date().toISOString(), since);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Lock a user out of sign-in and restart the failure count
+ * @param email - User email
+ * @param lockedUntil - ISO 8601 end of the lock
+ * @param lockoutCount - Locks since the last successful sign-in, including this one
+ * @returns Promise<User> - Updated user
+ */
+export async function lockUser(email: string, lockedUntil: string, lockoutCount: number): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(
+      email.toLowerCase().trim(),
+      { lockedUntil, lockoutCount },
+      ['failedLoginCount', 'lastFailedLoginAt']
+    );
+
+    console.log(`Sign-in locked for ${email} until ${lockedUntil}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Record a successful sign-in, clearing failures and locks
+ * @param email - User email
+ * @param knownLoginIps - Recent sign-in addresses, newest last
+ * @returns Promise<User> - Updated user
+ */
+export async function recordSuccessfulLogin(email: string, knownLoginIps: string[]): Promise<User> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().updateUser(
+      email.toLowerCase().trim(),
+      { lastLoginAt: new Date().toISOString(), knownLoginIps },
+      ['failedLoginCount', 'lastFailedLoginAt', 'lockedUntil', 'lockoutCount']
+    );
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Lift a sign-in lock and forget failures (admin action)
+ * @param email - User email
+ * @returns Promise<User> - Updated user
+ */
+export async function unlockUser(email: string): Promise<User> {
+  try {
+    validateEmail(email);
+
+    const user = await getStorage().updateUser(email.toLowerCase().trim(), {}, [
+      'failedLoginCount',
+      'lastFailedLoginAt',
+      'lockedUntil',
+      'lockoutCount',
+    ]);
+
+    console.log(`Sign-in unlocked for ${email}`);
+
+    return user;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Get users who are locked out of sign-in now
+ * @returns Promise<User[]> - Locked users, soonest unlock first
+ */
+export async function getLockedUsers(): Promise<User[]> {
+  try {
+    const users = await getStorage().listLockedUsers(new Date().toISOString());
+
+    return users.sort((a, b) => a.lockedUntil!.localeCompare(b.lockedUntil!));
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Store a password reset token's hash with parameterized query
+ * @param email - User the token resets
+ * @param tokenHash - SHA-256 of the token (the token itself is never stored)
+ * @param expiresAt - ISO 8601 expiry
+ * @returns Promise<PasswordResetToken> - Stored token record
+ */
+export async function createPasswordResetToken(
+  email: string,
+  tokenHash: string,
+  expiresAt: string
+): Promise<PasswordResetToken> {
+  try {
+    validateEmail(email);
+
+    const token: PasswordResetToken = {
+      tokenHash,
+      email: email.toLowerCase().trim(),
+      createdAt: new Date().toISOString(),
+      expiresAt,
+    };
+
+    await getStorage().putPasswordResetToken(token);
+
+    return token;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Redeem a password reset token with a conditional write
+ * @param tokenHash - SHA-256 of the token from the link
+ * @returns Promise<PasswordResetToken | null> - The token, or null if it is unknown, used or expired
+ */
+export async function redeemPasswordResetToken(tokenHash: string): Promise<PasswordResetToken | null> {
+  try {
+    return await getStorage().redeemPasswordResetToken(tokenHash, new Date().toISOString());
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Record a new sign-in session
+ * @param session - Session with a fresh random id
+ * @returns Promise<UserSession> - Stored session
+ */
+export async function createSession(session: UserSession): Promise<UserSession> {
+  try {
+    validateEmail(session.email);
+
+    const stored: UserSession = { ...session, email: session.email.toLowerCase().trim() };
+    await getStorage().putSession(stored);
+
+    return stored;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Get a sign-in session by id
+ * @param sessionId - Session id from the session token
+ * @returns Promise<UserSession | null> - Session or null if not found
+ */
+export async function getSession(sessionId: string): Promise<UserSession | null> {
+  try {
+    return await getStorage().getSession(sessionId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Get a user's sign-in sessions, including ended ones
+ * @param email - User email
+ * @returns Promise<UserSession[]> - Sessions, newest first
+ */
+export async function getUserSessions(email: string): Promise<UserSession[]> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().listSessionsByEmail(email.toLowerCase().trim());
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Record activity on a session and move its expiry forward
+ * @param sessionId - Session id
+ * @param activity - New last-seen time, expiry and history removal time
+ */
+export async function touchSession(
+  sessionId: string,
+  activity: Pick<UserSession, 'lastSeenAt' | 'expiresAt' | 'purgeAt'>
+): Promise<void> {
+  try {
+    await getStorage().touchSession(sessionId, activity);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: End a session; its token is refused from the next request
+ * @param sessionId - Session id
+ * @returns Promise<boolean> - False if the session is unknown or already revoked
+ */
+export async function revokeSession(sessionId: string): Promise<boolean> {
+  try {
+    return await getStorage().revokeSession(sessionId, new Date().toISOString());
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Start or stop viewing as another user on a session
+ * @param sessionId - The admin's session
+ * @param email - Student to view as, or null to stop
+ * @returns Promise<boolean> - False if the session is unknown or revoked
+ */
+export async function setSessionImpersonation(sessionId: string, email: string | null): Promise<boolean> {
+  try {
+    if (email === null) {
+      return await getStorage().setSessionImpersonation(sessionId, null);
+    }
+
+    validateEmail(email);
+
+    return await getStorage().setSessionImpersonation(sessionId, {
+      impersonating: email.toLowerCase().trim(),
+      impersonationStartedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Fields an admin may change on an existing class. Identity, seat counts and
+ * timestamps are maintained by the database layer.
+ */
+export type ClassUpdate = Partial<Omit<Class, 'id' | 'currentEnrollment' | 'status' | 'cancelledAt' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Get every class in the catalog
+ * @returns Promise<Class[]> - All classes, sorted by id
+ */
+export async function getAllClasses(): Promise<Class[]> {
+  try {
+    const classes = await getStorage().listClasses();
+
+    return classes.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get the classes an instructor teaches
+ * @param email - Instructor email
+ * @returns Promise<Class[]> - Classes whose instructorEmail is the given email
+ */
+export async function getClassesByInstructor(email: string): Promise<Class[]> {
+  // SECURITY: Validate email input
+  validateEmail(email);
+
+  const instructorEmail = email.toLowerCase().trim();
+
+  // The catalog is small and read whole for browsing, so no index is kept
+  return (await getAllClasses()).filter(classItem => classItem.instructorEmail === instructorEmail);
+}
+
+/**
+ * SECURITY: Get a single class by id with parameterized query
+ * @param classId - Class identifier
+ * @returns Promise<Class | null> - Class or null if not found
+ */
+export async function getClassById(classId: string): Promise<Class | null> {
+  try {
+    return await getStorage().getClass(classId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Create a class with parameterized query
+ * @param classData - Class fields (timestamps are set here)
+ * @returns Promise<Class> - Created class
+ */
+export async function createClass(
+  classData: Omit<Class, 'createdAt' | 'updatedAt'>
+): Promise<Class> {
+  try {
+    const now = new Date().toISOString();
+
+    const newClass: Class = {
+      ...classData,
+      // Store structured meetings so conflict checks don't depend on free text
+      meetings: classData.meetings ?? parseSchedule(classData.schedule),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await getStorage().createClass(newClass);
+
+    console.log(`Class created successfully: ${newClass.id} (${newClass.name})`);
+
+    return newClass;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Update class fields with parameterized query
+ *
+ * Capacity may not drop below the seats already taken. Raising capacity
+ * hands the new seats to waitlisted students who can still take them.
+ *
+ * @param classId - Class identifier
+ * @param updates - Fields to change
+ * @returns Promise<{ before, after, promoted, skipped }> - The class before and after, any waitlist promotions, and the students passed over
+ * @throws NotFoundError if the class does not exist
+ */
+export async function updateClass(classId: string, updates: ClassUpdate): Promise<{
+  before: Class;
+  after: Class;
+  promoted: EnrollmentChange[];
+  skipped: SkippedPromotion[];
+}> {
+  try {
+    const before = await getClassById(classId);
+
+    if (!before) {
+      throw new NotFoundError('Class not found');
+    }
+
+    // Keep structured meetings in step with a changed schedule string
+    if (updates.schedule !== undefined && updates.meetings === undefined) {
+      updates = { ...updates, meetings: parseSchedule(updates.schedule) };
+    }
+
+    // Only updates classes that exist, and never below the seats already taken
+    const updated = await getStorage().updateClass(classId, updates);
+
+    if (updates.capacity !== undefined && updated.currentEnrollment < updated.capacity) {
+      const { promoted, skipped } = await fillOpenSeats(classId);
+      const after = promoted.length > 0 ? (await getClassById(classId)) ?? updated : updated;
+
+      return { before, after, promoted, skipped };
+    }
+
+    return { before, after: updated, promoted: [], skipped: [] };
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Cancel a class with parameterized queries
+ *
+ * Marks the class cancelled so nobody can join it, then drops every active
+ * enrollment and releases every waitlist spot. Safe to re-run: a repeat call
+ * only sweeps enrollments left behind by an earlier failure.
+ *
+ * @param classId - Class identifier
+ * @returns Promise<{ before, classItem, dropped, released }> - The class before and after, and the affected enrollments
+ */
+export async function cancelClass(classId: string): Promise<{
+  before: Class;
+  classItem: Class;
+  dropped: EnrollmentChange[];
+  released: EnrollmentChange[];
+}> {
+  try {
+    const existing = await getClassById(classId);
+
+    if (!existing) {
+      throw new NotFoundError('Class not found');
+    }
+
+    // A repeat call keeps the original cancellation time
+    const classItem = await getStorage().updateClass(classId, {
+      status: 'cancelled',
+      cancelledAt: existing.cancelledAt ?? new Date().toISOString(),
+    });
+
+    const dropped: EnrollmentChange[] = [];
+    const released: EnrollmentChange[] = [];
+
+    for (const enrollment of await getClassEnrollments(classId, { consistentRead: true })) {
+      // Nobody can take the seat of a cancelled class, so seats are released
+      // rather than handed to the waitlist
+      await getStorage().drop(enrollment, 'dropped');
+      (enrollment.status === 'waitlisted' ? released : dropped).push(await readChange(enrollment));
+    }
+
+    console.log(`Class ${classId} cancelled: ${dropped.length} dropped, ${released.length} released from waitlist`);
+
+    return { before: existing, classItem: { ...classItem, currentEnrollment: 0 }, dropped, released };
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Delete a class with parameterized query
+ *
+ * Only classes nobody is enrolled or waitlisted in can be deleted; cancel a
+ * class first to clear its enrollments.
+ *
+ * @param classId - Class identifier
+ * @returns Promise<void>
+ */
+export async function deleteClass(classId: string): Promise<void> {
+  try {
+    const enrollments = await getClassEnrollments(classId, { consistentRead: true });
+
+    if (enrollments.length > 0) {
+      throw new ConflictError('Class has enrollments. Cancel it before deleting.');
+    }
+
+    await getStorage().deleteClass(classId);
+
+    console.log(`Class deleted: ${classId}`);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Get every academic term
+ * @returns Promise<Term[]> - All terms, earliest first
+ */
+export async function getAllTerms(): Promise<Term[]> {
+  try {
+    const terms = await getStorage().listTerms();
+
+    return terms.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get a term by id with parameterized query
+ * @param termId - Term identifier
+ * @returns Promise<Term | null> - Term or null if not found
+ */
+export async function getTermById(termId: string): Promise<Term | null> {
+  try {
+    return await getStorage().getTerm(termId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Term fields an admin can change after the term is created
+ */
+export type TermUpdate = Partial<Omit<Term, 'id' | 'createdAt' | 'updatedAt'>>;
+
+/**
+ * Check a term's dates parse and come in order, and its credit limits are ranges
+ */
+function validateTerm(term: Omit<Term, 'createdAt' | 'updatedAt'>): void {
+  const dates = [
+    term.startDate,
+    term.endDate,
+    term.registrationOpensAt,
+    term.registrationClosesAt,
+    term.addDropDeadline,
+    term.withdrawalDeadline,
+  ];
+
+  if (dates.some(date => Number.isNaN(Date.parse(date)))) {
+    throw new ValidationError('Term dates must be valid ISO 8601 timestamps');
+  }
+
+  if (Date.parse(term.startDate) >= Date.parse(term.endDate)) {
+    throw new ValidationError('The term must start before it ends');
+  }
+
+  if (Date.parse(term.registrationOpensAt) >= Date.parse(term.registrationClosesAt)) {
+    throw new ValidationError('Registration must open before it closes');
+  }
+
+  if (Date.parse(term.addDropDeadline) > Date.parse(term.withdrawalDeadline)) {
+    throw new ValidationError('The add/drop deadline must come before the withdrawal deadline');
+  }
+
+  for (const [category, limit] of Object.entries(term.creditLimits ?? {})) {
+    if (limit.minCredits > limit.maxCredits) {
+      throw new ValidationError(`The ${category} minimum cannot be above its maximum`);
+    }
+  }
+}
+
+/**
+ * SECURITY: Create a term with parameterized query
+ * @param termData - Term fields (timestamps are set here)
+ * @returns Promise<Term> - Created term
+ */
+export async function createTerm(termData: Omit<Term, 'createdAt' | 'updatedAt'>): Promise<Term> {
+  try {
+    validateTerm(termData);
+
+    const now = new Date().toISOString();
+    const term: Term = { ...termData, createdAt: now, updatedAt: now };
+
+    await getStorage().createTerm(term);
+
+    console.log(`Term created successfully: ${term.id} (${term.name})`);
+
+    return term;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Update a term's name, dates or credit limits with parameterized query
+ * The dates are checked together with the ones left unchanged. Credit limit
+ * categories left out use the default limits.
+ * @param termId - Term identifier
+ * @param updates - Fields to change
+ * @returns Promise<Term> - Updated term
+ */
+export async function updateTerm(termId: string, updates: TermUpdate): Promise<Term> {
+  try {
+    const existing = await getStorage().getTerm(termId);
+    if (!existing) {
+      throw new NotFoundError('Term not found');
+    }
+
+    validateTerm({ ...existing, ...updates });
+
+    const term = await getStorage().updateTerm(termId, updates);
+
+    console.log(`Term ${termId} updated: ${Object.keys(updates).join(', ')}`);
+
+    return term;
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get a student's completed courses with parameterized query
+ * @param email - Student email
+ * @returns Promise<CompletedCourse[]> - Completed courses, including failed attempts
+ */
+export async function getCompletedCourses(email: string): Promise<CompletedCourse[]> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().listCompletedCourses(email.toLowerCase().trim());
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Record a completed course on a student's record with parameterized query
+ * Re-recording the same course replaces the earlier attempt.
+ *
+ * @param email - Student email
+ * @param courseCode - Catalog code of the course, e.g. "CS 101"
+ * @param details - Optional grade and term
+ * @returns Promise<CompletedCourse> - Stored record
+ */
+export async function recordCompletedCourse(
+  email: string,
+  courseCode: string,
+  details: { grade?: string; term?: string } = {}
+): Promise<CompletedCourse> {
+  try {
+    validateEmail(email);
+
+    if (!courseCode || typeof courseCode !== 'string') {
+      throw new ValidationError('Course code is required');
+    }
+
+    const record: CompletedCourse = {
+      email: email.toLowerCase().trim(),
+      courseCode: normalizeCourseCode(courseCode),
+      ...(details.grade && { grade: details.grade.toUpperCase().trim() }),
+      ...(details.term && { term: details.term.trim() }),
+      completedAt: new Date().toISOString(),
+    };
+
+    return await getStorage().putCompletedCourse(record);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get a student's registration cart for a term with parameterized query
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @returns Promise<Cart | null> - Cart or null if the student has none
+ */
+export async function getCart(email: string, termId: string): Promise<Cart | null> {
+  try {
+    validateEmail(email);
 
-  const missingVars = requiredEnvVars.filter(varName => !process.env[varName]);
-  
-  if (missingVars.length > 0) {
-    throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
+    return await getStorage().getCart(email.toLowerCase().trim(), termId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
   }
 }
 
-// Validate environment variables on module initialization
-validateEnvironmentVariables();
-
-// SECURITY: Initialize DynamoDB client with credentials from environment variables ONLY
-const dynamoDBClient = new DynamoDBClient({
-  region: process.env.AWS_REGION!,
-  credentials: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-  },
-});
+/**
+ * SECURITY: Replace the classes in a student's cart with parameterized query
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @param classIds - Classes in the cart, in the order they were added
+ * @returns Promise<Cart> - Stored cart
+ */
+export async function saveCart(email: string, termId: string, classIds: string[]): Promise<Cart> {
+  try {
+    validateEmail(email);
 
-// Create DynamoDB Document Client for easier operations
-const docClient = DynamoDBDocumentClient.from(dynamoDBClient);
+    const normalizedEmail = email.toLowerCase().trim();
+    const existing = await getStorage().getCart(normalizedEmail, termId);
+    const now = new Date().toISOString();
 
-// Table names from environment variables
-const USERS_TABLE = process.env.DYNAMODB_USERS_TABLE!;
-const ENROLLMENTS_TABLE = process.env.DYNAMODB_ENROLLMENTS_TABLE!;
+    return await getStorage().putCart({
+      email: normalizedEmail,
+      termId,
+      // A class is only ever in the cart once
+      classIds: [...new Set(classIds)],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
 
-// DEBUG: Log environment variables on module load
-console.log('=== DB MODULE INITIALIZATION ===');
-console.log('USERS_TABLE:', USERS_TABLE);
-console.log('ENROLLMENTS_TABLE:', ENROLLMENTS_TABLE);
-console.log('AWS_REGION:', process.env.AWS_REGION);
-console.log('AWS_ACCESS_KEY_ID exists:', !!process.env.AWS_ACCESS_KEY_ID);
-console.log('AWS_SECRET_ACCESS_KEY exists:', !!process.env.AWS_SECRET_ACCESS_KEY);
-console.log('=== DB MODULE INITIALIZATION END ===');
+/**
+ * SECURITY: Empty a student's cart for a term with parameterized query
+ * @param email - Student email
+ * @param termId - Term identifier
+ */
+export async function clearCart(email: string, termId: string): Promise<void> {
+  try {
+    validateEmail(email);
 
-// TypeScript interfaces for type safety
-export interface User {
-  email: string;
-  passwordHash: string;
-  name: string;
-  studentId: string;
-  createdAt: string;
-  updatedAt: string;
+    await getStorage().deleteCart(email.toLowerCase().trim(), termId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
 }
 
-export interface Enrollment {
-  id: string;
-  email: string;
-  className: string;
-  classId: string;
-  enrolledAt: string;
-  status: 'active' | 'dropped';
+/**
+ * SECURITY: Get a student's overload request for a term with parameterized query
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @returns Promise<OverloadRequest | null> - Request or null if none was filed
+ */
+export async function getOverloadRequest(email: string, termId: string): Promise<OverloadRequest | null> {
+  try {
+    validateEmail(email);
+
+    return await getStorage().getOverloadRequest(email.toLowerCase().trim(), termId);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
 }
 
 /**
- * SECURITY: Create user with parameterized query to prevent NoSQL injection
- * @param email - User email (validated input)
- * @param passwordHash - Hashed password (never log this)
- * @param name - User display name
- * @param studentId - Unique student identifier
- * @returns Promise<User> - Created user object
+ * SECURITY: File a credit overload request with parameterized query
+ * A denied request may be replaced; a pending or approved one may not
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @param requestedCredits - Maximum load the student is asking for
+ * @param reason - Why the student needs the overload
+ * @returns Promise<OverloadRequest> - Pending request
+ * @throws ConflictError if a pending or approved request exists
  */
-export async function createUser(
-  email: string, 
-  passwordHash: string, 
-  name: string, 
-  studentId: string
-): Promise<User> {
+export async function createOverloadRequest(
+  email: string,
+  termId: string,
+  requestedCredits: number,
+  reason: string
+): Promise<OverloadRequest> {
   try {
-    // SECURITY: Validate all inputs before database operation
     validateEmail(email);
-    validateName(name);
-    validateStudentId(studentId);
-    
-    if (!passwordHash || typeof passwordHash !== 'string') {
-      throw new Error('Password hash is required');
+
+    if (!Number.isInteger(requestedCredits) || requestedCredits < 1 || requestedCredits > MAX_OVERLOAD_CREDITS) {
+      throw new ValidationError(`Requested credits must be a whole number from 1 to ${MAX_OVERLOAD_CREDITS}`);
     }
-    
+
     const now = new Date().toISOString();
-    
-    const user: User = {
-      email: email.toLowerCase().trim(), // Normalize email
-      passwordHash,
-      name: name.trim(),
-      studentId: studentId.trim(),
+
+    const request: OverloadRequest = {
+      email: email.toLowerCase().trim(),
+      termId,
+      requestedCredits,
+      reason: reason.trim(),
+      status: 'pending',
       createdAt: now,
       updatedAt: now,
     };
 
-    // SECURITY: Use parameterized PutCommand to prevent injection
-    const params: PutCommandInput = {
-      TableName: USERS_TABLE,
-      Item: user,
-      // Prevent overwriting existing users
-      ConditionExpression: 'attribute_not_exists(email)',
-    };
+    await getStorage().putOverloadRequest(request);
 
-    await docClient.send(new PutCommand(params));
-    
-    // SECURITY: Never log password hash
-    console.log(`User created successfully: ${email}`);
-    
-    return user;
+    console.log(`Overload request filed by ${email} for ${termId} (${requestedCredits} credits)`);
+
+    return request;
   } catch (error) {
-    // SECURITY: Use safe error handling
     throw handleDynamoDBError(error);
   }
 }
 
 /**
- * SECURITY: Get user by email with parameterized query
- * @param email - User email to search for
- * @returns Promise<User | null> - User object or null if not found
+ * SECURITY: Get overload requests in a status with parameterized query
+ * @param status - Request status
+ * @returns Promise<OverloadRequest[]> - Requests, oldest first
  */
-export async function getUserByEmail(email: string): Promise<User | null> {
+export async function getOverloadRequests(status: OverloadStatus): Promise<OverloadRequest[]> {
+  try {
+    return await getStorage().listOverloadRequests(status);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Approve or deny a pending overload request with parameterized query
+ * @param email - Student email
+ * @param termId - Term identifier
+ * @param decision - 'approved' or 'denied'
+ * @param reviewer - Email of the advisor or admin deciding
+ * @param note - Optional note for the student
+ * @returns Promise<{ before, after }> - The request before and after the decision
+ * @throws NotFoundError if there is no request
+ * @throws ConflictError if the request was already reviewed
+ */
+export async function reviewOverloadRequest(
+  email: string,
+  termId: string,
+  decision: Exclude<OverloadStatus, 'pending'>,
+  reviewer: string,
+  note?: string
+): Promise<{ before: OverloadRequest; after: OverloadRequest }> {
   try {
-    // SECURITY: Validate email input
     validateEmail(email);
-    
-    // SECURITY: Use parameterized GetCommand
-    const params: GetCommandInput = {
-      TableName: USERS_TABLE,
-      Key: {
-        email: email.toLowerCase().trim(),
-      },
-    };
 
-    const result = await docClient.send(new GetCommand(params));
-    
-    // Return null if user not found (don't throw error)
-    if (!result.Item) {
-      return null;
+    const normalizedEmail = email.toLowerCase().trim();
+    const before = await getStorage().getOverloadRequest(normalizedEmail, termId);
+
+    if (!before) {
+      throw new NotFoundError('Overload request not found');
     }
 
-    return result.Item as User;
+    const after = await getStorage().reviewOverloadRequest(normalizedEmail, termId, {
+      status: decision,
+      reviewedBy: reviewer,
+      reviewedAt: new Date().toISOString(),
+      reviewNote: note?.trim() || undefined,
+    });
+
+    console.log(`Overload request of ${email} for ${termId} ${decision} by ${reviewer}`);
+
+    return { before, after };
   } catch (error) {
-    console.error('Error getting user by email:', error);
-    // SECURITY: Return null instead of throwing to prevent information leakage
-    return null;
+    throw handleDynamoDBError(error);
   }
 }
 
+/**
+ * Deterministic enrollment key: one record per student per class, so the
+ * enrollment write itself can reject duplicates inside a transaction
+ */
+export function getEnrollmentId(email: string, classId: string): string {
+  return `${email.toLowerCase().trim()}-${classId}`;
+}
+
 /**
  * SECURITY: Enroll user in class with parameterized query
+ *
+ * The enrollment record and the class seat counter are written in a single
+ * conditional transaction, so concurrent requests can never overbook a class.
+ *
  * @param email - User email
  * @param className - Name of the class
  * @param classId - Unique class identifier
- * @returns Promise<void>
+ * @returns Promise<Enrollment> - Active enrollment
+ * @throws ClassFullError if no seats are left
  */
 export async function enrollInClass(
   email: string, 
   className: string, 
   classId: string
-): Promise<void> {
+): Promise<Enrollment> {
   try {
     const now = new Date().toISOString();
-    const enrollmentId = `${email}-${classId}-${Date.now()}`;
 
     const enrollment: Enrollment = {
-      id: enrollmentId,
+      id: getEnrollmentId(email, classId),
       email: email.toLowerCase().trim(), // Normalize email to match user records
       className,
       classId,
@@ -196,22 +1187,16 @@ export async function enrollInClass(
 
     // DEBUG: Log the enrollment being created
     console.log('DB: Creating enrollment:', JSON.stringify(enrollment, null, 2));
-    console.log('DB: Table name:', ENROLLMENTS_TABLE);
-
-    // SECURITY: Use parameterized PutCommand
-    const params: PutCommandInput = {
-      TableName: ENROLLMENTS_TABLE,
-      Item: enrollment,
-      // Prevent duplicate enrollments
-      ConditionExpression: 'attribute_not_exists(id)',
-    };
 
-    await docClient.send(new PutCommand(params));
+    await getStorage().enroll(enrollment);
     
     console.log(`DB: Successfully created enrollment for ${email} in ${className}`);
+
+    return enrollment;
   } catch (error) {
-    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') {
-      throw new Error('User is already enrolled in this class');
+    // Duplicate enrollments and full classes are reported to the student
+    if (error instanceof DatabaseError || (error instanceof Error && error.message === 'User is already enrolled in this class')) {
+      throw error;
     }
     
     console.error('Error enrolling in class:', error);
@@ -219,70 +1204,349 @@ export async function enrollInClass(
   }
 }
 
-export async function getUserEnrollments(email: string): Promise<Enrollment[]> {
+/**
+ * SECURITY: Get a user's enrollments with parameterized query
+ * @param email - User email
+ * @param options - Read options
+ * @param writtenClassIds - Classes just enrolled in or dropped; read by key,
+ *   since the email index may not have caught up with them yet
+ * @returns Promise<Enrollment[]> - Active, waitlisted and withdrawn enrollments
+ */
+export async function getUserEnrollments(
+  email: string,
+  options: ReadOptions = {},
+  writtenClassIds: string[] = []
+): Promise<Enrollment[]> {
   try {
-    console.log('Getting enrollments for:', email);
-    
-    const params = {
-      TableName: ENROLLMENTS_TABLE,
-      FilterExpression: 'email = :email',
-      ExpressionAttributeValues: {
-        ':email': email.toLowerCase().trim()
-        // NO IndexName - scan the table directly
-        // NO FilterExpression for status - filter in JavaScript
+    validateEmail(email);
+
+    const normalizedEmail = email.toLowerCase().trim();
+
+    // Active, waitlisted and withdrawn enrollments (dropped are excluded)
+    const listed = await getStorage().listEnrollmentsByEmail(normalizedEmail, options);
+    const written = await Promise.all(writtenClassIds.map(classId => (
+      getStorage().getEnrollment(getEnrollmentId(normalizedEmail, classId))
+    )));
+
+    const byId = new Map(listed.map(enrollment => [enrollment.id, enrollment]));
+    for (const enrollment of written) {
+      if (enrollment) {
+        byId.set(enrollment.id, enrollment);
       }
+    }
+
+    const enrollments = [...byId.values()].filter(enrollment => enrollment.status !== 'dropped');
+
+    // Attach the queue position to every waitlisted enrollment
+    return await Promise.all(enrollments.map(async (enrollment) => (
+      enrollment.status === 'waitlisted'
+        ? { ...enrollment, waitlistPosition: await getWaitlistPosition(enrollment) }
+        : enrollment
+    )));
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Order waitlisted enrollments by when they joined; the id breaks ties
+ * between students who joined in the same millisecond, so every reader of
+ * the queue agrees on who is first
+ */
+export function compareWaitlistOrder(a: Enrollment, b: Enrollment): number {
+  return (a.waitlistedAt || '').localeCompare(b.waitlistedAt || '') || a.id.localeCompare(b.id);
+}
+
+/**
+ * SECURITY: Get the waitlist for a class in queue order with parameterized query
+ * @param classId - Class identifier
+ * @param options - Read options
+ * @returns Promise<Enrollment[]> - Waitlisted enrollments, first in line first
+ */
+export async function getClassWaitlist(
+  classId: string,
+  options: ReadOptions = {}
+): Promise<Enrollment[]> {
+  try {
+    const waitlist = await getStorage().listEnrollmentsByClass(classId, ['waitlisted'], options);
+
+    return waitlist.sort(compareWaitlistOrder);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * SECURITY: Get the active and waitlisted enrollments for a class with parameterized query
+ * @param classId - Class identifier
+ * @param options - Read options
+ * @returns Promise<Enrollment[]> - Enrollments holding a seat or a waitlist spot
+ */
+export async function getClassEnrollments(
+  classId: string,
+  options: ReadOptions = {}
+): Promise<Enrollment[]> {
+  try {
+    return await getStorage().listEnrollmentsByClass(classId, ['active', 'waitlisted'], options);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
+/**
+ * Compute a waitlisted enrollment's 1-based position in its class queue
+ */
+async function getWaitlistPosition(enrollment: Enrollment): Promise<number> {
+  const waitlist = await getClassWaitlist(enrollment.classId);
+
+  // The index may lag behind a fresh write, so count who is ahead rather than
+  // searching for this enrollment in the result
+  const ahead = waitlist.filter(entry =>
+    entry.id !== enrollment.id && compareWaitlistOrder(entry, enrollment) < 0
+  );
+
+  return ahead.length + 1;
+}
+
+/**
+ * SECURITY: Add user to a full class's waitlist with parameterized query
+ *
+ * The waitlist entry is only written while the class is full; otherwise the
+ * student should simply enroll.
+ *
+ * @param email - User email
+ * @param className - Name of the class
+ * @param classId - Unique class identifier
+ * @returns Promise<Enrollment> - Waitlisted enrollment with its queue position
+ */
+export async function joinWaitlist(
+  email: string,
+  className: string,
+  classId: string
+): Promise<Enrollment> {
+  try {
+    const now = new Date().toISOString();
+
+    const enrollment: Enrollment = {
+      id: getEnrollmentId(email, classId),
+      email: email.toLowerCase().trim(),
+      className,
+      classId,
+      enrolledAt: now,
+      waitlistedAt: now,
+      status: 'waitlisted',
     };
 
-    const result = await docClient.send(new ScanCommand(params));
-    console.log('Scan returned:', result.Count, 'items');
-    
-    const allEnrollments = (result.Items as Enrollment[]) || [];
-    
-    // Filter for active enrollments only (exclude dropped)
-    const activeEnrollments = allEnrollments.filter(enrollment => enrollment.status === 'active');
-    console.log('Active enrollments:', activeEnrollments.length);
-    
-    return activeEnrollments;
+    await getStorage().joinWaitlist(enrollment);
+
+    console.log(`DB: Added ${email} to the waitlist for ${className}`);
+
+    return { ...enrollment, waitlistPosition: await getWaitlistPosition(enrollment) };
   } catch (error) {
-    console.error('Error getting enrollments:', error);
-    return [];
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+
+    console.error('Error joining waitlist:', error);
+    throw new Error('Failed to join waitlist');
+  }
+}
+
+/**
+ * How many times a drop retries promotion when the head of the waitlist
+ * changes underneath it
+ */
+const MAX_PROMOTION_ATTEMPTS = 3;
+
+/**
+ * Re-read an enrollment after a change to pair it with its earlier state
+ */
+async function readChange(before: Enrollment): Promise<EnrollmentChange> {
+  const after = await getStorage().getEnrollment(before.id);
+  return { before, after: after ?? before };
+}
+
+/**
+ * Find the first student on a class's waitlist who can still take a seat
+ *
+ * Rules were checked when each student joined the waitlist, but since then
+ * they may have enrolled in a class at the same time or reached their credit
+ * limit. Students passed over keep their place and are added to skipped.
+ */
+async function findNextEligible(
+  classItem: Class,
+  skipped: Map<string, SkippedPromotion>
+): Promise<Enrollment | null> {
+  for (const candidate of await getClassWaitlist(classItem.id, { consistentRead: true })) {
+    const violation = await validatePromotion(candidate.email, classItem);
+
+    if (!violation) {
+      return candidate;
+    }
+
+    console.log(`Passed over ${candidate.email} on the waitlist for ${candidate.className}: ${violation.code}`);
+    skipped.set(candidate.id, { enrollment: candidate, reason: violation.message });
+  }
+
+  return null;
+}
+
+/**
+ * Drop an active enrollment and hand its seat to the next eligible waitlisted
+ * student, or release the seat if nobody can take it. Withdrawals happen
+ * after the add/drop deadline, when nobody can be added, so they only
+ * release the seat.
+ *
+ * @returns The waitlisted enrollment that took the seat, or null, and the students passed over
+ */
+async function releaseSeat(
+  enrollment: Enrollment,
+  dropStatus: DropStatus
+): Promise<{ promoted: Enrollment | null; skipped: SkippedPromotion[] }> {
+  const skipped = new Map<string, SkippedPromotion>();
+  const classItem = dropStatus === 'dropped' ? await getClassById(enrollment.classId) : null;
+
+  for (let attempt = 0; attempt < MAX_PROMOTION_ATTEMPTS && classItem; attempt++) {
+    const next = await findNextEligible(classItem, skipped);
+
+    if (!next) {
+      break;
+    }
+
+    // False when the student left or was promoted concurrently; look again
+    if (await getStorage().transferSeat(enrollment, next, dropStatus)) {
+      console.log(`Promoted ${next.email} from the waitlist for ${next.className}, replacing ${enrollment.email}`);
+      skipped.delete(next.id);
+      return { promoted: next, skipped: [...skipped.values()] };
+    }
+  }
+
+  await getStorage().drop(enrollment, dropStatus);
+  return { promoted: null, skipped: [...skipped.values()] };
+}
+
+/**
+ * Promote eligible waitlisted students into a class's free seats, first in
+ * line first
+ * @param classId - Class identifier
+ * @returns Promise<{ promoted, skipped }> - Enrollments that were promoted, and the students passed over
+ */
+async function fillOpenSeats(classId: string): Promise<{
+  promoted: EnrollmentChange[];
+  skipped: SkippedPromotion[];
+}> {
+  const promoted: EnrollmentChange[] = [];
+  const skipped = new Map<string, SkippedPromotion>();
+  let retries = 0;
+
+  while (retries < MAX_PROMOTION_ATTEMPTS) {
+    const classItem = await getClassById(classId);
+
+    if (!classItem || classItem.status === 'cancelled' || classItem.currentEnrollment >= classItem.capacity) {
+      break;
+    }
+
+    const next = await findNextEligible(classItem, skipped);
+
+    if (!next) {
+      break;
+    }
+
+    const result = await getStorage().promoteIntoOpenSeat(next);
+
+    // Seats filled concurrently
+    if (result === 'full') {
+      break;
+    }
+
+    if (result === 'promoted') {
+      console.log(`Promoted ${next.email} from the waitlist for ${next.className} into a new seat`);
+      skipped.delete(next.id);
+      promoted.push(await readChange(next));
+    } else {
+      // The student left or was promoted concurrently; look again
+      retries++;
+    }
+  }
+
+  return { promoted, skipped: [...skipped.values()] };
+}
+
+/**
+ * SECURITY: Get a user's enrollment in a class with parameterized query
+ * @param email - User email
+ * @param classId - Class identifier
+ * @returns Promise<Enrollment | null> - Enrollment in any status, or null if none
+ */
+export async function getEnrollment(email: string, classId: string): Promise<Enrollment | null> {
+  try {
+    validateEmail(email);
+
+    // Read straight after a write must see it; reads by key are consistent
+    const enrollment = await getStorage().getEnrollment(getEnrollmentId(email, classId));
+
+    if (enrollment) {
+      return enrollment.status === 'waitlisted'
+        ? { ...enrollment, waitlistPosition: await getWaitlistPosition(enrollment) }
+        : enrollment;
+    }
+
+    // Enrollments written before deterministic ids are only found by searching
+    const enrollments = await getUserEnrollments(email);
+    return enrollments.find(enrollment => enrollment.classId === classId) || null;
+  } catch (error) {
+    throw handleDynamoDBError(error);
   }
 }
 
 /**
  * SECURITY: Unenroll user from class with parameterized query
+ *
+ * Dropping an active enrollment frees a seat, which is given to the first
+ * student on the waitlist in the same transaction. Dropping a waitlisted
+ * enrollment just leaves the queue.
+ *
  * @param email - User email
  * @param classId - Class identifier to unenroll from
- * @returns Promise<void>
+ * @param dropStatus - 'withdrawn' after the term's add/drop deadline
+ * @returns Promise<{ before, after, promoted, skipped }> - The enrollment before and after the drop, the waitlisted enrollment given the seat, and the waitlisted students passed over
+ * @throws NotFoundError if the user holds no seat or waitlist spot in the class
  */
-export async function unenrollFromClass(email: string, classIdOrName: string): Promise<void> {
+export async function unenrollFromClass(
+  email: string,
+  classId: string,
+  dropStatus: DropStatus = 'dropped'
+): Promise<EnrollmentChange & { promoted: EnrollmentChange | null; skipped: SkippedPromotion[] }> {
   try {
-    // First, find the enrollment record
-    const enrollments = await getUserEnrollments(email);
-    const enrollment = enrollments.find(e => 
-      e.classId === classIdOrName || e.className === classIdOrName
-    );
-    
-    if (!enrollment) {
-      throw new Error('Enrollment not found');
+    const enrollment = await getEnrollment(email, classId);
+
+    // Dropped and withdrawn enrollments have nothing left to release
+    if (!enrollment || (enrollment.status !== 'active' && enrollment.status !== 'waitlisted')) {
+      throw new NotFoundError('Enrollment not found');
     }
 
-    // Update enrollment status to 'dropped'
-    const params: PutCommandInput = {
-      TableName: ENROLLMENTS_TABLE,
-      Item: {
-        ...enrollment,
-        status: 'dropped',
-        updatedAt: new Date().toISOString(),
-      },
-    };
+    let next: Enrollment | null = null;
+    let skipped: SkippedPromotion[] = [];
 
-    await docClient.send(new PutCommand(params));
+    if (enrollment.status === 'waitlisted') {
+      // Leaving a waitlist never counts as a withdrawal
+      await getStorage().drop(enrollment, 'dropped');
+    } else {
+      ({ promoted: next, skipped } = await releaseSeat(enrollment, dropStatus));
+    }
     
-    console.log(`User ${email} unenrolled from class ${enrollment.className}`);
+    console.log(`User ${email} ${dropStatus === 'withdrawn' ? 'withdrew from' : 'unenrolled from'} class ${enrollment.className}`);
+
+    return {
+      ...(await readChange(enrollment)),
+      promoted: next ? await readChange(next) : null,
+      skipped,
+    };
   } catch (error) {
-    console.error('Error unenrolling from class:', error);
-    throw new Error('Failed to unenroll from class');
+    if (!(error instanceof NotFoundError)) {
+      console.error('Error unenrolling from class:', error);
+    }
+    throw handleDynamoDBError(error);
   }
 }
 
@@ -294,43 +1558,47 @@ export async function unenrollFromClass(email: string, classIdOrName: string): P
  */
 export async function isUserEnrolledInClass(email: string, classId: string): Promise<boolean> {
   try {
-    const enrollments = await getUserEnrollments(email);
-    return enrollments.some(enrollment => enrollment.classId === classId);
+    const enrollment = await getEnrollment(email, classId);
+    return enrollment?.status === 'active';
   } catch (error) {
     console.error('Error checking enrollment status:', error);
     return false;
   }
 }
 
+/**
+ * SECURITY: Get the audit history of an enrollment, class, user or term with parameterized query
+ * @param entityId - Enrollment id, class id, user email or term id
+ * @param range - Optional inclusive ISO 8601 time range
+ * @returns Promise<AuditEntry[]> - Entries, oldest first
+ */
+export async function getAuditEntries(entityId: string, range: AuditRange = {}): Promise<AuditEntry[]> {
+  try {
+    if (range.from && range.to && range.from > range.to) {
+      throw new ValidationError('The start of the range must not be after its end');
+    }
+
+    return await getStorage().listAuditEntries(entityId, range);
+  } catch (error) {
+    throw handleDynamoDBError(error);
+  }
+}
+
 /**
  * DEBUG: Get all enrollments in the table (for debugging only)
  */
 export async function getAllEnrollments(): Promise<Enrollment[]> {
   try {
     console.log('=== DB SCAN DEBUG START ===');
-    console.log('DB: Getting ALL enrollments from table:', ENROLLMENTS_TABLE);
-    console.log('DB: AWS Region:', process.env.AWS_REGION);
-    console.log('DB: AWS Access Key ID exists:', !!process.env.AWS_ACCESS_KEY_ID);
-    console.log('DB: AWS Secret Key exists:', !!process.env.AWS_SECRET_ACCESS_KEY);
-    
-    const params = {
-      TableName: ENROLLMENTS_TABLE,
-    };
+    console.log('DB: Storage backend:', getStorage().backend);
 
-    console.log('DB: Sending scan command...');
-    const result = await docClient.send(new ScanCommand(params));
-    
-    console.log('DB: Scan completed successfully');
-    console.log('DB: Total enrollments in table:', result.Count);
-    console.log('DB: Scan result metadata:', {
-      Count: result.Count,
-      ScannedCount: result.ScannedCount,
-      ConsumedCapacity: result.ConsumedCapacity
-    });
-    console.log('DB: All enrollments:', JSON.stringify(result.Items, null, 2));
+    const enrollments = await getStorage().listAllEnrollments();
+
+    console.log('DB: Total enrollments:', enrollments.length);
+    console.log('DB: All enrollments:', JSON.stringify(enrollments, null, 2));
     console.log('=== DB SCAN DEBUG END ===');
     
-    return (result.Items as Enrollment[]) || [];
+    return enrollments;
   } catch (error) {
     console.error('=== DB SCAN ERROR ===');
     console.error('DB: Error getting all enrollments:', error);
@@ -341,6 +1609,3 @@ export async function getAllEnrollments(): Promise<Enrollment[]> {
     return [];
   }
 }
-
-// Export the DynamoDB client for advanced operations if needed
-export { docClient, dynamoDBClient };
\ No newline at end of file
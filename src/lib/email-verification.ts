@@ -0,0 +1,171 @@
+/**
+ * Email verification
+ *
+ * New accounts cannot sign in until the owner opens a link sent to their
+ * address. The link carries the email and an expiry signed with an HMAC of
+ * NEXTAUTH_SECRET, so nothing needs to be stored to check it. Registration
+ * can also be limited to institutional domains with REGISTRATION_EMAIL_DOMAINS.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getUserByEmail, markEmailVerified } from './db';
+import { ValidationError } from './db-errors';
+import { sendNotification } from './notifications';
+import { API_ROUTES, EMAIL_VERIFICATION_CONFIG } from './constants';
+import type { User } from '@/types';
+
+const INVALID_LINK_MESSAGE = 'This verification link is invalid or has expired. Sign in to request a new one.';
+
+interface VerificationPayload {
+  email: string;
+  exp: number; // Expiry in seconds since the epoch
+}
+
+/**
+ * SECURITY: Sign a payload with the app secret
+ */
+function sign(encodedPayload: string): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is required to sign verification links');
+  }
+
+  return createHmac('sha256', secret).update(`email-verification:${encodedPayload}`).digest('base64url');
+}
+
+/**
+ * SECURITY: Create a signed verification token for an email address
+ *
+ * @param email - Address to verify
+ * @param now - Current time in milliseconds (for testing)
+ * @returns string - `<payload>.<signature>`, both base64url
+ */
+export function createVerificationToken(email: string, now = Date.now()): string {
+  const payload: VerificationPayload = {
+    email,
+    exp: Math.floor(now / 1000) + EMAIL_VERIFICATION_CONFIG.TOKEN_TTL,
+  };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  return `${encodedPayload}.${sign(encodedPayload)}`;
+}
+
+/**
+ * SECURITY: Check a verification token's signature and expiry
+ *
+ * @param token - Token from the link
+ * @param now - Current time in milliseconds (for testing)
+ * @returns string | null - Verified email, or null if the token is forged, malformed or expired
+ */
+export function readVerificationToken(token: string, now = Date.now()): string | null {
+  const [encodedPayload, signature, ...rest] = token.split('.');
+
+  if (!encodedPayload || !signature || rest.length > 0) {
+    return null;
+  }
+
+  // SECURITY: Constant-time comparison so the signature cannot be guessed byte by byte
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8')) as VerificationPayload;
+
+    if (typeof payload.email !== 'string' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    return payload.exp * 1000 > now ? payload.email : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SECURITY: Email a verification link to a user
+ *
+ * @param user - User to verify
+ * @param appUrl - Base URL of the app for the link, e.g. NEXTAUTH_URL
+ */
+export async function sendVerificationEmail(user: User, appUrl: string): Promise<void> {
+  const link = new URL(API_ROUTES.VERIFY_EMAIL, appUrl);
+  link.searchParams.set('token', createVerificationToken(user.email));
+
+  await sendNotification({
+    to: user.email,
+    subject: 'Verify your email address',
+    body: [
+      `Hi ${user.name},`,
+      '',
+      'Please confirm your email address to finish creating your account:',
+      '',
+      link.toString(),
+      '',
+      `The link expires in ${EMAIL_VERIFICATION_CONFIG.TOKEN_TTL / 3600} hours. If you did not create an account, you can ignore this email.`,
+    ].join('\n'),
+  });
+
+  console.log(`Verification link sent to ${user.email}`);
+}
+
+/**
+ * SECURITY: Mark the address in a verification token as verified
+ *
+ * Opening a link again after verifying is harmless and succeeds.
+ *
+ * @param token - Token from the link
+ * @returns Promise<string> - Email that was verified
+ * @throws ValidationError if the token is invalid or expired, or the account is gone
+ */
+export async function verifyEmail(token: string): Promise<string> {
+  const email = readVerificationToken(token);
+
+  if (!email) {
+    throw new ValidationError(INVALID_LINK_MESSAGE);
+  }
+
+  const user = await getUserByEmail(email);
+
+  if (!user) {
+    throw new ValidationError(INVALID_LINK_MESSAGE);
+  }
+
+  if (!user.emailVerifiedAt) {
+    await markEmailVerified(user.email);
+  }
+
+  return user.email;
+}
+
+/**
+ * Get the email domains registration is limited to
+ *
+ * @returns string[] - Lowercase domains from REGISTRATION_EMAIL_DOMAINS; empty means any domain
+ */
+export function getAllowedRegistrationDomains(): string[] {
+  return (process.env.REGISTRATION_EMAIL_DOMAINS || '')
+    .split(',')
+    .map(domain => domain.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * SECURITY: Check whether an email may register
+ * A configured domain also admits its subdomains, e.g. asu.edu admits student.asu.edu
+ *
+ * @param email - Normalized email address
+ * @param allowedDomains - Domains to accept; empty accepts any
+ */
+export function isRegistrationEmailAllowed(email: string, allowedDomains = getAllowedRegistrationDomains()): boolean {
+  if (allowedDomains.length === 0) {
+    return true;
+  }
+
+  const domain = email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+
+  return allowedDomains.some(allowed => domain === allowed || domain.endsWith(`.${allowed}`));
+}
@@ -0,0 +1,339 @@
+/**
+ * Enrollment eligibility rules
+ *
+ * Checks a student against the registration rules before a seat or waitlist
+ * spot is written. Each check returns a violation describing exactly what is
+ * wrong, or null when the rule is satisfied.
+ */
+
+import { getUserEnrollments, getClassById, getCompletedCourses, getTermById } from './db';
+import type { DropStatus } from './db';
+import { findScheduleConflict } from './schedule';
+import { evaluateRequirement, normalizeCourseCode } from './prerequisites';
+import { getRegistrationStatus, getDropOutcome, describeRegistrationWindow } from './terms';
+import { formatDate } from './utils';
+import { NON_PASSING_GRADES } from './constants';
+import { getCreditLimit, sumTermCredits } from './credit-limits';
+import type { StudentCreditLimit } from './credit-limits';
+import type { Class, Enrollment, Term } from '@/types';
+
+export interface EnrollmentViolation {
+  code:
+    | 'CLASS_CANCELLED'
+    | 'REGISTRATION_CLOSED'
+    | 'WITHDRAWAL_DEADLINE_PASSED'
+    | 'SCHEDULE_CONFLICT'
+    | 'PREREQUISITE_NOT_MET'
+    | 'COREQUISITE_NOT_MET'
+    | 'CREDIT_LIMIT_EXCEEDED';
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * How a requested drop should be carried out, or why it cannot be
+ */
+export type DropPlan =
+  | { dropStatus: DropStatus; violation?: undefined }
+  | { dropStatus?: undefined; violation: EnrollmentViolation };
+
+/**
+ * What the rules need to know about a student
+ */
+export interface StudentRecord {
+  activeClasses: Class[];
+  completedCourses: Set<string>; // Normalized codes with a passing grade
+}
+
+/**
+ * Load the classes behind a student's active enrollments
+ */
+async function getActiveClasses(email: string): Promise<Class[]> {
+  const enrollments = await getUserEnrollments(email);
+  const active = enrollments.filter(enrollment => enrollment.status === 'active');
+
+  const classes = await Promise.all(active.map(enrollment => getClassById(enrollment.classId)));
+
+  return classes.filter((classItem): classItem is Class => classItem !== null);
+}
+
+/**
+ * Load the codes of courses a student has passed
+ */
+async function getPassedCourseCodes(email: string): Promise<Set<string>> {
+  const completed = await getCompletedCourses(email);
+  const nonPassing: readonly string[] = NON_PASSING_GRADES;
+
+  return new Set(
+    completed
+      .filter(course => !course.grade || !nonPassing.includes(course.grade))
+      .map(course => normalizeCourseCode(course.courseCode))
+  );
+}
+
+/**
+ * Load everything the rules need about a student in one round of reads
+ */
+export async function loadStudentRecord(email: string): Promise<StudentRecord> {
+  const [activeClasses, completedCourses] = await Promise.all([
+    getActiveClasses(email),
+    getPassedCourseCodes(email),
+  ]);
+
+  return { activeClasses, completedCourses };
+}
+
+/**
+ * Load the term whose calendar governs a class, if it has one
+ */
+async function getClassTerm(classItem: Class | null): Promise<Term | null> {
+  if (!classItem?.termId) {
+    return null;
+  }
+
+  return getTermById(classItem.termId);
+}
+
+/**
+ * Reject enrollment outside the term's registration window
+ */
+export function checkRegistrationWindow(
+  term: Term | null,
+  now: Date = new Date()
+): EnrollmentViolation | null {
+  // Classes without a term predate the term calendar and stay open
+  if (!term) {
+    return null;
+  }
+
+  const status = getRegistrationStatus(term, now);
+
+  if (status === 'open') {
+    return null;
+  }
+
+  return {
+    code: 'REGISTRATION_CLOSED',
+    message: describeRegistrationWindow(term, status),
+    details: {
+      termId: term.id,
+      registrationOpensAt: term.registrationOpensAt,
+      registrationClosesAt: term.registrationClosesAt,
+    },
+  };
+}
+
+/**
+ * Decide whether an enrollment may be dropped now and how it is recorded
+ *
+ * Before the add/drop deadline a drop leaves no trace; between add/drop and
+ * the withdrawal deadline it is recorded as a withdrawal; after that it is
+ * refused. Leaving a waitlist is always a plain drop.
+ *
+ * @param enrollment - Enrollment to drop
+ * @param classItem - Class the enrollment belongs to (null if it was removed)
+ * @returns Promise<DropPlan> - Drop status to record, or the violation
+ */
+export async function planDrop(
+  enrollment: Enrollment,
+  classItem: Class | null,
+  now: Date = new Date()
+): Promise<DropPlan> {
+  const term = await getClassTerm(classItem);
+
+  if (!term || enrollment.status === 'waitlisted') {
+    return { dropStatus: 'dropped' };
+  }
+
+  const outcome = getDropOutcome(term, now);
+
+  if (outcome !== 'closed') {
+    return { dropStatus: outcome };
+  }
+
+  return {
+    violation: {
+      code: 'WITHDRAWAL_DEADLINE_PASSED',
+      message: `The withdrawal deadline for ${term.name} passed on ${formatDate(term.withdrawalDeadline)}`,
+      details: { termId: term.id, withdrawalDeadline: term.withdrawalDeadline },
+    },
+  };
+}
+
+/**
+ * Reject a class whose meetings overlap one the student is already taking
+ */
+export function checkScheduleConflict(
+  classItem: Class,
+  activeClasses: Class[]
+): EnrollmentViolation | null {
+  const conflict = findScheduleConflict(classItem, activeClasses);
+
+  if (!conflict) {
+    return null;
+  }
+
+  return {
+    code: 'SCHEDULE_CONFLICT',
+    message: `This class conflicts with ${conflict.name} (${conflict.schedule})`,
+    details: {
+      conflictingClassId: conflict.id,
+      conflictingClassName: conflict.name,
+      conflictingSchedule: conflict.schedule,
+    },
+  };
+}
+
+/**
+ * Reject a class whose prerequisites the student has not passed
+ */
+export function checkPrerequisites(
+  classItem: Class,
+  completedCourses: Set<string>
+): EnrollmentViolation | null {
+  if (!classItem.prerequisiteRules) {
+    return null;
+  }
+
+  const result = evaluateRequirement(classItem.prerequisiteRules, completedCourses);
+
+  if (result.met) {
+    return null;
+  }
+
+  return {
+    code: 'PREREQUISITE_NOT_MET',
+    message: `Missing prerequisite for ${classItem.name}: ${result.missing}`,
+    details: { missing: result.missing },
+  };
+}
+
+/**
+ * Reject a class whose co-requisites are neither passed nor being taken now
+ */
+export function checkCorequisites(
+  classItem: Class,
+  completedCourses: Set<string>,
+  activeClasses: Class[]
+): EnrollmentViolation | null {
+  if (!classItem.corequisiteRules) {
+    return null;
+  }
+
+  const satisfied = new Set(completedCourses);
+  for (const active of activeClasses) {
+    if (active.courseCode) {
+      satisfied.add(normalizeCourseCode(active.courseCode));
+    }
+  }
+
+  const result = evaluateRequirement(classItem.corequisiteRules, satisfied);
+
+  if (result.met) {
+    return null;
+  }
+
+  return {
+    code: 'COREQUISITE_NOT_MET',
+    message: `${classItem.name} must be taken with or after ${result.missing}`,
+    details: { missing: result.missing },
+  };
+}
+
+/**
+ * Reject a class that would take the student past their maximum credit load
+ *
+ * Only classes in the same term count. Classes without a term predate the
+ * term calendar and are not limited.
+ */
+export function checkCreditLimit(
+  classItem: Class,
+  activeClasses: Class[],
+  limit: StudentCreditLimit
+): EnrollmentViolation | null {
+  if (!classItem.termId) {
+    return null;
+  }
+
+  const currentCredits = sumTermCredits(
+    activeClasses.filter(active => active.id !== classItem.id),
+    classItem.termId
+  );
+
+  if (currentCredits + classItem.credits <= limit.maxCredits) {
+    return null;
+  }
+
+  return {
+    code: 'CREDIT_LIMIT_EXCEEDED',
+    message: limit.overloadApproved
+      ? `${classItem.name} would bring you to ${currentCredits + classItem.credits} credits; your approved overload allows ${limit.maxCredits}`
+      : `${classItem.name} would bring you to ${currentCredits + classItem.credits} credits; the limit is ${limit.maxCredits}. You can request an overload from your advisor.`,
+    details: {
+      currentCredits,
+      classCredits: classItem.credits,
+      maxCredits: limit.maxCredits,
+      canRequestOverload: !limit.overloadApproved,
+    },
+  };
+}
+
+/**
+ * Run every enrollment rule for a student and class
+ *
+ * @param email - Student email
+ * @param classItem - Class the student wants to join
+ * @returns Promise<EnrollmentViolation | null> - First rule broken, or null if eligible
+ */
+export async function validateEnrollment(
+  email: string,
+  classItem: Class
+): Promise<EnrollmentViolation | null> {
+  if (classItem.status === 'cancelled') {
+    return { code: 'CLASS_CANCELLED', message: `${classItem.name} has been cancelled` };
+  }
+
+  const term = await getClassTerm(classItem);
+  const windowViolation = checkRegistrationWindow(term);
+
+  if (windowViolation) {
+    return windowViolation;
+  }
+
+  const [student, creditLimit] = await Promise.all([
+    loadStudentRecord(email),
+    classItem.termId ? getCreditLimit(email, classItem.termId) : null,
+  ]);
+
+  return (
+    checkPrerequisites(classItem, student.completedCourses) ||
+    checkCorequisites(classItem, student.completedCourses, student.activeClasses) ||
+    checkScheduleConflict(classItem, student.activeClasses) ||
+    (creditLimit && checkCreditLimit(classItem, student.activeClasses, creditLimit))
+  );
+}
+
+/**
+ * Check a waitlisted student can still take a seat that has come free
+ *
+ * Prerequisites and the registration window were checked when they joined
+ * the waitlist; their schedule and credit load may have changed since.
+ *
+ * @param email - Waitlisted student's email
+ * @param classItem - Class with the free seat
+ * @returns Promise<EnrollmentViolation | null> - Rule now broken, or null if they can take the seat
+ */
+export async function validatePromotion(
+  email: string,
+  classItem: Class
+): Promise<EnrollmentViolation | null> {
+  const [activeClasses, creditLimit] = await Promise.all([
+    getActiveClasses(email),
+    classItem.termId ? getCreditLimit(email, classItem.termId) : null,
+  ]);
+
+  return (
+    checkScheduleConflict(classItem, activeClasses) ||
+    (creditLimit && checkCreditLimit(classItem, activeClasses, creditLimit))
+  );
+}
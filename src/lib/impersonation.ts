@@ -0,0 +1,122 @@
+/**
+ * Admin impersonation ("view as student")
+ *
+ * An admin starts viewing as a student on their own sign-in session. The jwt
+ * callback reads that session on every request and puts the student in the
+ * token, so the app then treats the student as the signed-in user while
+ * `impersonatedBy` keeps the admin's email. The middleware refuses changes
+ * and security settings while viewing, and the server checks the same rules
+ * again. Every page and signed-in API request made while viewing is audited
+ * with the admin as the actor. Viewing ends when the admin
+ * stops it, signs out, or after IMPERSONATION_CONFIG.MAX_DURATION.
+ */
+
+import { writeAuditEntry } from './audit';
+import { getUserByEmail } from './db';
+import { IMPERSONATION_CONFIG, SAFE_HTTP_METHODS } from './constants';
+import type { SessionUser } from './auth';
+import type { UserRole, UserSession } from '@/types';
+
+// Only these accounts can be viewed; staff accounts hold other people's data
+const IMPERSONATABLE_ROLES: UserRole[] = ['student'];
+
+/**
+ * The user an admin is viewing as, as carried in the token
+ */
+export type ImpersonatedUser = Omit<SessionUser, 'impersonatedBy'>;
+
+/**
+ * Check whether an account may be viewed by an admin
+ */
+export function canImpersonate(role: UserRole): boolean {
+  return IMPERSONATABLE_ROLES.includes(role);
+}
+
+/**
+ * SECURITY: Check whether viewing as another user has run past its limit
+ */
+export function isImpersonationExpired(
+  session: Pick<UserSession, 'impersonationStartedAt'>,
+  now: number = Date.now()
+): boolean {
+  return !session.impersonationStartedAt ||
+    Date.parse(session.impersonationStartedAt) + IMPERSONATION_CONFIG.MAX_DURATION * 1000 <= now;
+}
+
+/**
+ * SECURITY: Work out who a session is viewing as, for the token
+ *
+ * @param session - The admin's session from the registry
+ * @param current - Who the token is viewing as now, reused if unchanged
+ * @returns Promise<ImpersonatedUser | undefined> - The student, or undefined when not viewing
+ */
+export async function resolveImpersonation(
+  session: UserSession,
+  current?: ImpersonatedUser
+): Promise<ImpersonatedUser | undefined> {
+  if (!session.impersonating || isImpersonationExpired(session)) {
+    return undefined;
+  }
+
+  if (current?.email === session.impersonating) {
+    return current;
+  }
+
+  const user = await getUserByEmail(session.impersonating);
+
+  if (!user || !canImpersonate(user.role)) {
+    return undefined;
+  }
+
+  return {
+    email: user.email,
+    name: user.name,
+    studentId: user.studentId,
+    role: user.role,
+  };
+}
+
+/**
+ * SECURITY: Check whether a request may run while an admin views as a student
+ *
+ * The middleware refuses writes and the student's security settings first;
+ * this applies the same rules to requests whose token did not show the
+ * viewing yet.
+ *
+ * @param target - "METHOD /path" set by the middleware
+ */
+export function isAllowedWhileImpersonating(target: string | undefined): boolean {
+  const [method, path = ''] = (target ?? '').split(' ');
+
+  if (IMPERSONATION_CONFIG.BLOCKED_ROUTES.some(route => path.startsWith(route))) {
+    return false;
+  }
+
+  return SAFE_HTTP_METHODS.includes(method) ||
+    IMPERSONATION_CONFIG.WRITE_ROUTES.some(route => path.startsWith(route));
+}
+
+/**
+ * SECURITY: Record a request made while an admin views as a student
+ *
+ * @param user - The student, with the admin in impersonatedBy
+ * @param request - Request id and "METHOD /path" set by the middleware
+ */
+export async function auditImpersonatedRequest(
+  user: SessionUser,
+  request: { requestId?: string; target?: string }
+): Promise<void> {
+  if (!user.impersonatedBy) {
+    return;
+  }
+
+  await writeAuditEntry({
+    actor: user.impersonatedBy,
+    requestId: request.requestId,
+    action: 'impersonation.request',
+    entityType: 'user',
+    entityId: user.email,
+    subject: user.email,
+    after: { request: request.target },
+  });
+}
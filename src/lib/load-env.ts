@@ -0,0 +1,11 @@
+/**
+ * Environment loading for command-line scripts
+ *
+ * Next.js loads .env.local for the app; scripts run with tsx do not. Import
+ * this first in a script so it sees the same configuration. Variables already
+ * set in the shell take precedence.
+ */
+
+import { config } from 'dotenv';
+
+config({ path: ['.env.local', '.env'], quiet: true });
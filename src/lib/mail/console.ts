@@ -0,0 +1,18 @@
+/**
+ * Console mail transport
+ *
+ * Writes each message to the server log. For local development only: messages
+ * such as password reset links are readable by anyone with the log.
+ */
+
+import type { Mailer } from './types';
+
+export function createConsoleMailer(from: string): Mailer {
+  return {
+    transport: 'console',
+
+    async send(message) {
+      console.log(`[mail] from=${from} to=${message.to} subject="${message.subject}"\n${message.body}`);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * File mail transport
+ *
+ * Writes each message to its own file so local development and tests can
+ * open the mail a user would receive. Files are readable by the owner only.
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { Mailer } from './types';
+
+export function createFileMailer(directory: string, from: string): Mailer {
+  return {
+    transport: 'file',
+
+    async send(message) {
+      const date = new Date();
+      // Sortable by time; the suffix keeps messages sent together apart
+      const fileName = `${date.toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.txt`;
+
+      await mkdir(directory, { recursive: true, mode: 0o700 });
+      await writeFile(
+        path.join(directory, fileName),
+        [
+          `From: ${from}`,
+          `To: ${message.to}`,
+          `Subject: ${message.subject}`,
+          `Date: ${date.toUTCString()}`,
+          '',
+          message.body,
+          '',
+        ].join('\n'),
+        { mode: 0o600 }
+      );
+
+      console.log(`[mail] to=${message.to} subject="${message.subject}" written to ${fileName}`);
+    },
+  };
+}
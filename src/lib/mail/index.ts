@@ -0,0 +1,49 @@
+/**
+ * Mail transport selection
+ *
+ * MAIL_TRANSPORT picks the transport: 'console' (default) logs messages,
+ * 'file' writes each one to MAIL_DIR (default .mail). MAIL_FROM sets the
+ * sender. Add a transport for a real mail service by implementing Mailer.
+ */
+
+import { createConsoleMailer } from './console';
+import { createFileMailer } from './file';
+import type { Mailer, MailTransport } from './types';
+
+export type { Mailer, MailMessage, MailTransport } from './types';
+
+const MAIL_TRANSPORTS: MailTransport[] = ['console', 'file'];
+
+const DEFAULT_MAIL_DIR = '.mail';
+const DEFAULT_MAIL_FROM = 'no-reply@localhost';
+
+let mailer: Mailer | null = null;
+
+/**
+ * Read the configured transport
+ * @throws Error if MAIL_TRANSPORT names an unknown transport
+ */
+export function getMailTransport(): MailTransport {
+  const transport = (process.env.MAIL_TRANSPORT || 'console').toLowerCase();
+
+  if (!(MAIL_TRANSPORTS as string[]).includes(transport)) {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${transport}. Expected one of: ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+
+  return transport as MailTransport;
+}
+
+/**
+ * Get the mailer for the configured transport, creating it on first call
+ */
+export function getMailer(): Mailer {
+  if (!mailer) {
+    const from = process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+
+    mailer = getMailTransport() === 'file'
+      ? createFileMailer(process.env.MAIL_DIR || DEFAULT_MAIL_DIR, from)
+      : createConsoleMailer(from);
+  }
+
+  return mailer;
+}
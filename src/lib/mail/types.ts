@@ -0,0 +1,21 @@
+/**
+ * Mailer contract
+ *
+ * Every transport delivers a plain-text message to one recipient. Transports
+ * report failures by throwing; callers decide whether a failed delivery
+ * matters.
+ */
+
+export type MailTransport = 'console' | 'file';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface Mailer {
+  readonly transport: MailTransport;
+
+  send(message: MailMessage): Promise<void>;
+}
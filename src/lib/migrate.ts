@@ -0,0 +1,287 @@
+/**
+ * Migration runner for development and deployment
+ * Applies pending migrations in version order: npm run db:migrate
+ *
+ *   npm run db:migrate -- --dry-run   Report what would change, write nothing
+ *   npm run db:migrate -- --status    List applied and pending migrations
+ *
+ * Applied versions are recorded in the migrations table. A failed migration is
+ * not recorded, so fixing the cause and re-running picks up where it stopped;
+ * backfills skip items that are already migrated.
+ */
+
+import './load-env';
+import {
+  BillingMode,
+  CreateTableCommandInput,
+  DescribeTableCommand,
+  KeyType
+} from '@aws-sdk/client-dynamodb';
+import { PutCommand, ScanCommand, ScanCommandInput, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ensureTable } from './db-init';
+import { MIGRATIONS } from './migrations';
+import type { Migration, MigrationContext, StoredItem } from './migrations';
+import { getStorageBackend } from './storage';
+import { getDynamoDBClients } from './storage/dynamodb';
+
+/**
+ * Record of an applied migration
+ */
+export interface MigrationRecord {
+  version: number;
+  name: string;
+  appliedAt: string;
+  itemsScanned: number;
+  itemsUpdated: number;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+}
+
+function getMigrationsTableDefinition(): CreateTableCommandInput {
+  const tableName = process.env.DYNAMODB_MIGRATIONS_TABLE;
+
+  if (!tableName) {
+    throw new Error('Missing required environment variable: DYNAMODB_MIGRATIONS_TABLE');
+  }
+
+  return {
+    TableName: tableName,
+    KeySchema: [
+      { AttributeName: 'version', KeyType: KeyType.HASH }, // Partition key
+    ],
+    AttributeDefinitions: [
+      { AttributeName: 'version', AttributeType: 'N' },
+    ],
+    BillingMode: BillingMode.PAY_PER_REQUEST, // On-demand billing for development
+  };
+}
+
+/**
+ * Check that migrations have unique versions in ascending order
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  migrations.forEach((migration, index) => {
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`Migration ${migration.name} has an invalid version: ${migration.version}`);
+    }
+
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migration versions must be unique and ascending: ${migration.version} (${migration.name})`);
+    }
+  });
+}
+
+/**
+ * Migrations not yet applied, in the order they should run
+ */
+export function getPendingMigrations(migrations: Migration[], appliedVersions: Set<number>): Migration[] {
+  return migrations.filter(migration => !appliedVersions.has(migration.version));
+}
+
+/**
+ * Scan a table to completion, following every page
+ */
+async function scanAll<T>(params: ScanCommandInput): Promise<T[]> {
+  const { docClient } = getDynamoDBClients();
+  const items: T[] = [];
+  let exclusiveStartKey: ScanCommandInput['ExclusiveStartKey'];
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      ...params,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    items.push(...((result.Items as T[]) || []));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return items;
+}
+
+/**
+ * Read the applied migrations, or none if the migrations table is missing
+ */
+async function getAppliedMigrations(): Promise<MigrationRecord[]> {
+  try {
+    const records = await scanAll<MigrationRecord>({ TableName: getMigrationsTableDefinition().TableName });
+    return records.sort((a, b) => a.version - b.version);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ResourceNotFoundException') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * SECURITY: Apply a migration's backfill with parameterized updates
+ *
+ * Only the attributes returned by the transform are written, so concurrent
+ * application writes to other attributes are not lost.
+ */
+async function runBackfill(
+  migration: Migration,
+  context: MigrationContext
+): Promise<{ itemsScanned: number; itemsUpdated: number }> {
+  if (!migration.backfill) {
+    return { itemsScanned: 0, itemsUpdated: 0 };
+  }
+
+  const { client, docClient, tables } = context.clients;
+  const tableName = tables[migration.backfill.table];
+
+  let keyNames: string[];
+
+  try {
+    const description = await client.send(new DescribeTableCommand({ TableName: tableName }));
+    keyNames = (description.Table?.KeySchema || []).map(key => key.AttributeName!);
+  } catch (error) {
+    // In a dry run, an earlier step may only have reported the table it would create
+    if (context.dryRun && error instanceof Error && error.name === 'ResourceNotFoundException') {
+      console.log(`[dry run] Table ${tableName} does not exist yet; nothing to backfill`);
+      return { itemsScanned: 0, itemsUpdated: 0 };
+    }
+    throw error;
+  }
+
+  const items = await scanAll<StoredItem>({ TableName: tableName });
+  let itemsUpdated = 0;
+
+  for (const item of items) {
+    const changes = migration.backfill.transform(item);
+
+    if (!changes || Object.keys(changes).length === 0) {
+      continue;
+    }
+
+    if (context.dryRun) {
+      itemsUpdated++;
+      continue;
+    }
+
+    const fields = Object.entries(changes);
+
+    try {
+      await docClient.send(new UpdateCommand({
+        TableName: tableName,
+        Key: Object.fromEntries(keyNames.map(name => [name, item[name]])),
+        UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+        // Never resurrect an item deleted since the scan
+        ConditionExpression: 'attribute_exists(#key)',
+        ExpressionAttributeNames: {
+          ...Object.fromEntries(fields.map(([name], i) => [`#f${i}`, name])),
+          '#key': keyNames[0],
+        },
+        ExpressionAttributeValues: Object.fromEntries(fields.map(([, value], i) => [`:v${i}`, value])),
+      }));
+
+      itemsUpdated++;
+    } catch (error) {
+      if (!(error instanceof Error && error.name === 'ConditionalCheckFailedException')) {
+        throw error;
+      }
+    }
+  }
+
+  console.log(`${context.dryRun ? '[dry run] Would update' : 'Updated'} ${itemsUpdated} of ${items.length} items in ${tableName}`);
+
+  return { itemsScanned: items.length, itemsUpdated };
+}
+
+/**
+ * Apply every pending migration in version order
+ * @param options - With dryRun, report what would change and write nothing
+ * @returns Promise<MigrationRecord[]> - Migrations applied (or that would be)
+ */
+export async function runMigrations(options: MigrationOptions = {}): Promise<MigrationRecord[]> {
+  const dryRun = options.dryRun ?? false;
+
+  // The memory backend always starts from current shapes
+  if (getStorageBackend() !== 'dynamodb') {
+    throw new Error('db:migrate requires STORAGE_BACKEND=dynamodb');
+  }
+
+  validateMigrations(MIGRATIONS);
+
+  const context: MigrationContext = { clients: getDynamoDBClients(), dryRun };
+  const stateTable = getMigrationsTableDefinition();
+
+  await ensureTable(stateTable, { dryRun });
+
+  const applied = new Set((await getAppliedMigrations()).map(record => record.version));
+  const pending = getPendingMigrations(MIGRATIONS, applied);
+
+  if (pending.length === 0) {
+    console.log('No pending migrations');
+    return [];
+  }
+
+  const results: MigrationRecord[] = [];
+
+  for (const migration of pending) {
+    console.log(`${dryRun ? '[dry run] ' : ''}Migration ${migration.version} ${migration.name}: ${migration.description}`);
+
+    if (migration.up) {
+      await migration.up(context);
+    }
+
+    const counts = await runBackfill(migration, context);
+
+    const record: MigrationRecord = {
+      version: migration.version,
+      name: migration.name,
+      appliedAt: new Date().toISOString(),
+      ...counts,
+    };
+
+    if (!dryRun) {
+      await context.clients.docClient.send(new PutCommand({
+        TableName: stateTable.TableName,
+        Item: record,
+        // A concurrent run that applied the same version wins
+        ConditionExpression: 'attribute_not_exists(version)',
+      }));
+    }
+
+    results.push(record);
+  }
+
+  console.log(`${dryRun ? '[dry run] Would apply' : 'Applied'} ${results.length} migration(s)`);
+
+  return results;
+}
+
+/**
+ * Print applied and pending migrations
+ */
+export async function printMigrationStatus(): Promise<void> {
+  validateMigrations(MIGRATIONS);
+
+  const applied = new Map((await getAppliedMigrations()).map(record => [record.version, record]));
+
+  for (const migration of MIGRATIONS) {
+    const record = applied.get(migration.version);
+    const state = record ? `applied ${record.appliedAt}` : 'pending';
+    console.log(`${String(migration.version).padStart(3, '0')} ${migration.name}: ${state}`);
+  }
+}
+
+/**
+ * Run migrations if this file is executed directly
+ */
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const task = args.includes('--status')
+    ? printMigrationStatus()
+    : runMigrations({ dryRun: args.includes('--dry-run') });
+
+  task
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('Migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,21 @@
+/**
+ * Baseline schema: every table and index defined by db:init
+ *
+ * Brings databases created before an index existed (for example ClassIdIndex
+ * on enrollments) up to the current definitions.
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const baselineSchema: Migration = {
+  version: 1,
+  name: 'baseline-schema',
+  description: 'Create missing tables and indexes',
+
+  async up({ dryRun }) {
+    for (const definition of getTableDefinitions()) {
+      await ensureTable(definition, { dryRun });
+    }
+  },
+};
@@ -0,0 +1,33 @@
+/**
+ * Give every enrollment an updatedAt timestamp
+ *
+ * Drops and promotions set updatedAt, but enrollments that never changed
+ * lack it. The latest lifecycle timestamp on the record is the best estimate
+ * of its last change.
+ */
+
+import type { Migration } from './types';
+
+const LIFECYCLE_TIMESTAMPS = ['enrolledAt', 'waitlistedAt', 'promotedAt', 'withdrawnAt'];
+
+export const enrollmentUpdatedAt: Migration = {
+  version: 2,
+  name: 'enrollment-updated-at',
+  description: 'Backfill updatedAt on enrollments',
+
+  backfill: {
+    table: 'enrollments',
+    transform(item) {
+      if (item.updatedAt) {
+        return null;
+      }
+
+      const timestamps = LIFECYCLE_TIMESTAMPS
+        .map(attribute => item[attribute])
+        .filter((value): value is string => typeof value === 'string')
+        .sort();
+
+      return timestamps.length > 0 ? { updatedAt: timestamps[timestamps.length - 1] } : null;
+    },
+  },
+};
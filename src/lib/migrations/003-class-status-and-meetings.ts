@@ -0,0 +1,38 @@
+/**
+ * Give every class a status and structured meetings
+ *
+ * Classes created before cancellation and schedule parsing existed have
+ * neither. Reads already treat them as active and parse the schedule text;
+ * storing both keeps the records uniform.
+ */
+
+import { parseSchedule } from '../schedule';
+import type { Migration, StoredItem } from './types';
+
+export const classStatusAndMeetings: Migration = {
+  version: 3,
+  name: 'class-status-and-meetings',
+  description: 'Backfill status and meetings on classes',
+
+  backfill: {
+    table: 'classes',
+    transform(item) {
+      const changes: StoredItem = {};
+
+      if (!item.status) {
+        changes.status = 'active';
+      }
+
+      if (!item.meetings && typeof item.schedule === 'string') {
+        const meetings = parseSchedule(item.schedule);
+
+        // Leave unparseable schedules for an admin to correct
+        if (meetings.length > 0) {
+          changes.meetings = meetings;
+        }
+      }
+
+      return Object.keys(changes).length > 0 ? changes : null;
+    },
+  },
+};
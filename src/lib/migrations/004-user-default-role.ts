@@ -0,0 +1,19 @@
+/**
+ * Store the student role on users created before roles existed
+ */
+
+import { DEFAULT_USER_ROLE } from '../constants';
+import type { Migration } from './types';
+
+export const userDefaultRole: Migration = {
+  version: 4,
+  name: 'user-default-role',
+  description: 'Backfill role on users',
+
+  backfill: {
+    table: 'users',
+    transform(item) {
+      return item.role ? null : { role: DEFAULT_USER_ROLE };
+    },
+  },
+};
@@ -0,0 +1,22 @@
+/**
+ * Registration carts: one table keyed by student and term
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const cartsTable: Migration = {
+  version: 5,
+  name: 'carts-table',
+  description: 'Create the registration carts table',
+
+  async up({ clients, dryRun }) {
+    const definition = getTableDefinitions().find(table => table.TableName === clients.tables.carts);
+
+    if (!definition) {
+      throw new Error('No table definition for DYNAMODB_CARTS_TABLE');
+    }
+
+    await ensureTable(definition, { dryRun });
+  },
+};
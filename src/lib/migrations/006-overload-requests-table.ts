@@ -0,0 +1,23 @@
+/**
+ * Credit overload requests: one table keyed by student and term, with an
+ * index for reviewing requests by status
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const overloadRequestsTable: Migration = {
+  version: 6,
+  name: 'overload-requests-table',
+  description: 'Create the credit overload requests table',
+
+  async up({ clients, dryRun }) {
+    const definition = getTableDefinitions().find(table => table.TableName === clients.tables.overloadRequests);
+
+    if (!definition) {
+      throw new Error('No table definition for DYNAMODB_OVERLOADS_TABLE');
+    }
+
+    await ensureTable(definition, { dryRun });
+  },
+};
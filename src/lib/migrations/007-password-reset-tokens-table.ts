@@ -0,0 +1,22 @@
+/**
+ * Password reset tokens: one table keyed by the hash of each emailed token
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const passwordResetTokensTable: Migration = {
+  version: 7,
+  name: 'password-reset-tokens-table',
+  description: 'Create the password reset tokens table',
+
+  async up({ clients, dryRun }) {
+    const definition = getTableDefinitions().find(table => table.TableName === clients.tables.passwordResetTokens);
+
+    if (!definition) {
+      throw new Error('No table definition for DYNAMODB_PASSWORD_RESETS_TABLE');
+    }
+
+    await ensureTable(definition, { dryRun });
+  },
+};
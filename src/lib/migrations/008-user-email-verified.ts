@@ -0,0 +1,19 @@
+/**
+ * Treat users created before email verification as verified, so they can
+ * still sign in
+ */
+
+import type { Migration } from './types';
+
+export const userEmailVerified: Migration = {
+  version: 8,
+  name: 'user-email-verified',
+  description: 'Backfill emailVerifiedAt on existing users',
+
+  backfill: {
+    table: 'users',
+    transform(item) {
+      return item.emailVerifiedAt ? null : { emailVerifiedAt: item.createdAt ?? new Date().toISOString() };
+    },
+  },
+};
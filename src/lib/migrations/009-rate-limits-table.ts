@@ -0,0 +1,23 @@
+/**
+ * Rate limits: one table of counters shared by every server instance, with
+ * TTL removing ended windows
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const rateLimitsTable: Migration = {
+  version: 9,
+  name: 'rate-limits-table',
+  description: 'Create the rate limits table with TTL on expiresAt',
+
+  async up({ clients, dryRun }) {
+    const definition = getTableDefinitions().find(table => table.TableName === clients.tables.rateLimits);
+
+    if (!definition) {
+      throw new Error('No table definition for DYNAMODB_RATE_LIMITS_TABLE');
+    }
+
+    await ensureTable(definition, { dryRun });
+  },
+};
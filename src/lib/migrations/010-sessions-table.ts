@@ -0,0 +1,23 @@
+/**
+ * Sessions: a record per sign-in that session tokens are checked against, so
+ * sessions can be listed and revoked, with TTL removing old login history
+ */
+
+import { ensureTable, getTableDefinitions } from '../db-init';
+import type { Migration } from './types';
+
+export const sessionsTable: Migration = {
+  version: 10,
+  name: 'sessions-table',
+  description: 'Create the sessions table with EmailIndex and TTL on purgeAt',
+
+  async up({ clients, dryRun }) {
+    const definition = getTableDefinitions().find(table => table.TableName === clients.tables.sessions);
+
+    if (!definition) {
+      throw new Error('No table definition for DYNAMODB_SESSIONS_TABLE');
+    }
+
+    await ensureTable(definition, { dryRun });
+  },
+};
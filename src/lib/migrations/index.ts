@@ -0,0 +1,33 @@
+/**
+ * Registered migrations, in version order
+ *
+ * Add new migrations at the end with the next version number. Never change or
+ * remove one that has been applied anywhere.
+ */
+
+import { baselineSchema } from './001-baseline-schema';
+import { enrollmentUpdatedAt } from './002-enrollment-updated-at';
+import { classStatusAndMeetings } from './003-class-status-and-meetings';
+import { userDefaultRole } from './004-user-default-role';
+import { cartsTable } from './005-carts-table';
+import { overloadRequestsTable } from './006-overload-requests-table';
+import { passwordResetTokensTable } from './007-password-reset-tokens-table';
+import { userEmailVerified } from './008-user-email-verified';
+import { rateLimitsTable } from './009-rate-limits-table';
+import { sessionsTable } from './010-sessions-table';
+import type { Migration } from './types';
+
+export type { Migration, MigrationContext, StoredItem } from './types';
+
+export const MIGRATIONS: Migration[] = [
+  baselineSchema,
+  enrollmentUpdatedAt,
+  classStatusAndMeetings,
+  userDefaultRole,
+  cartsTable,
+  overloadRequestsTable,
+  passwordResetTokensTable,
+  userEmailVerified,
+  rateLimitsTable,
+  sessionsTable,
+];
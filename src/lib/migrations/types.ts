@@ -0,0 +1,38 @@
+/**
+ * Migration contract
+ *
+ * A migration evolves tables that already hold data. Versions are applied in
+ * ascending order and recorded in the migrations table, so each runs once.
+ */
+
+import type { DynamoDBClients, DynamoDBTables } from '../storage/dynamodb';
+
+export type StoredItem = Record<string, unknown>;
+
+export interface MigrationContext {
+  clients: DynamoDBClients;
+  // Report what would change without writing anything
+  dryRun: boolean;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  description: string;
+  /**
+   * Schema changes such as new tables or indexes; runs before the backfill
+   * and must honour context.dryRun
+   */
+  up?: (context: MigrationContext) => Promise<void>;
+  /**
+   * Item changes applied to every item in one table
+   */
+  backfill?: {
+    table: keyof DynamoDBTables;
+    /**
+     * Attributes to set on the item, or null if it needs no change. Return
+     * null for items already migrated so an interrupted run can be repeated.
+     */
+    transform: (item: StoredItem) => StoredItem | null;
+  };
+}
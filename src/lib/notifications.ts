@@ -0,0 +1,132 @@
+/**
+ * Student notifications
+ *
+ * Tells students about changes they did not make themselves. Messages go
+ * through the configured mail transport (see ./mail). Users can opt out of
+ * each topic in their contact preferences.
+ */
+
+import { getMailer } from './mail';
+import type { MailMessage } from './mail';
+import { getUserByEmail } from './db';
+import { DEFAULT_CONTACT_PREFERENCES } from './constants';
+import type { Class, ContactPreferences, OverloadRequest, SkippedPromotion, Term, User } from '@/types';
+
+export type Notification = MailMessage;
+
+/**
+ * Deliver a notification
+ *
+ * SECURITY: Failures are logged, never thrown, so a delivery problem cannot
+ * undo the change the student is being told about.
+ */
+export async function sendNotification(notification: Notification): Promise<void> {
+  try {
+    await getMailer().send(notification);
+  } catch (error) {
+    console.error('Failed to send notification:', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+/**
+ * Get a user's contact preferences with defaults for topics never set
+ */
+export function resolveContactPreferences(user: Pick<User, 'contactPreferences'>): ContactPreferences {
+  return { ...DEFAULT_CONTACT_PREFERENCES, ...user.contactPreferences };
+}
+
+/**
+ * Check whether a user wants email about a topic
+ */
+async function wantsEmail(email: string, topic: keyof ContactPreferences): Promise<boolean> {
+  try {
+    const user = await getUserByEmail(email);
+    return user ? resolveContactPreferences(user)[topic] : DEFAULT_CONTACT_PREFERENCES[topic];
+  } catch (error) {
+    // SECURITY: Fail toward telling the student
+    console.error('Failed to read contact preferences:', error instanceof Error ? error.message : 'Unknown error');
+    return true;
+  }
+}
+
+/**
+ * Only keep the recipients who want email about a topic
+ */
+async function filterRecipients(emails: string[], topic: keyof ContactPreferences): Promise<string[]> {
+  const wanted = await Promise.all(emails.map(email => wantsEmail(email, topic)));
+  return emails.filter((_, index) => wanted[index]);
+}
+
+/**
+ * Tell enrolled and waitlisted students that a class was cancelled
+ *
+ * @param classItem - The cancelled class
+ * @param droppedEmails - Students who held a seat
+ * @param releasedEmails - Students who were on the waitlist
+ */
+export async function notifyClassCancelled(
+  classItem: Class,
+  droppedEmails: string[],
+  releasedEmails: string[]
+): Promise<void> {
+  const subject = `${classItem.name} has been cancelled`;
+  const [dropped, released] = await Promise.all([
+    filterRecipients(droppedEmails, 'classChanges'),
+    filterRecipients(releasedEmails, 'classChanges'),
+  ]);
+
+  await Promise.all([
+    ...dropped.map(to => sendNotification({
+      to,
+      subject,
+      body: `${classItem.name} (${classItem.semester}) has been cancelled. You have been dropped from the class and it will not appear on your record.`,
+    })),
+    ...released.map(to => sendNotification({
+      to,
+      subject,
+      body: `${classItem.name} (${classItem.semester}) has been cancelled. Your place on its waitlist has been released.`,
+    })),
+  ]);
+}
+
+/**
+ * Tell waitlisted students they were passed over for a free seat, and why.
+ * They keep their place in the queue.
+ *
+ * @param skipped - Students passed over, with the rule they would break
+ */
+export async function notifyPassedOverOnWaitlist(skipped: SkippedPromotion[]): Promise<void> {
+  const recipients = new Set(await filterRecipients(skipped.map(({ enrollment }) => enrollment.email), 'classChanges'));
+
+  await Promise.all(skipped
+    .filter(({ enrollment }) => recipients.has(enrollment.email))
+    .map(({ enrollment, reason }) => sendNotification({
+      to: enrollment.email,
+      subject: `A seat in ${enrollment.className} went to the next student on the waitlist`,
+      body: `A seat came free in ${enrollment.className}, but it could not be given to you.\n\n${reason}\n\nYou keep your place on the waitlist, and the next free seat is yours if you can take it then.`,
+    })));
+}
+
+/**
+ * Tell a student whether their credit overload request was approved
+ *
+ * @param request - The reviewed request
+ * @param term - Term the request is for (null if it was removed)
+ */
+export async function notifyOverloadReviewed(request: OverloadRequest, term: Term | null): Promise<void> {
+  if (!(await wantsEmail(request.email, 'overloadDecisions'))) {
+    return;
+  }
+
+  const termName = term?.name ?? request.termId;
+  const approved = request.status === 'approved';
+  const note = request.reviewNote ? `\n\nNote from your advisor: ${request.reviewNote}` : '';
+
+  await sendNotification({
+    to: request.email,
+    subject: `Credit overload ${approved ? 'approved' : 'denied'} for ${termName}`,
+    body: approved
+      ? `Your request to take up to ${request.requestedCredits} credits in ${termName} has been approved.${note}`
+      : `Your request to take up to ${request.requestedCredits} credits in ${termName} has been denied.${note}`,
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Password reset
+ *
+ * A user who forgot their password is emailed a link with a random token.
+ * Only the token's SHA-256 hash is stored, so a leaked table cannot be used to
+ * reset anyone's password. Tokens expire, work once, and stop working when
+ * the password is changed by any other means. A reset signs the account out
+ * everywhere.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { hashPassword } from './auth';
+import {
+  createPasswordResetToken,
+  getUserByEmail,
+  updateUserPassword,
+  redeemPasswordResetToken
+} from './db';
+import { ValidationError } from './db-errors';
+import { sendNotification } from './notifications';
+import { revokeAllSessions } from './session-registry';
+import { PASSWORD_RESET_CONFIG, ROUTES } from './constants';
+
+const INVALID_TOKEN_MESSAGE = 'This reset link is invalid or has expired. Please request a new one.';
+
+/**
+ * SECURITY: Hash a reset token for storage and lookup
+ */
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * SECURITY: Email a password reset link if the account exists
+ *
+ * Resolves the same way whether or not the account exists, so callers cannot
+ * reveal which emails are registered.
+ *
+ * @param email - Address the user entered
+ * @param appUrl - Base URL of the app for the link, e.g. NEXTAUTH_URL
+ */
+export async function requestPasswordReset(email: string, appUrl: string): Promise<void> {
+  const user = await getUserByEmail(email);
+
+  if (!user) {
+    console.log('Password reset requested for an unknown email');
+    return;
+  }
+
+  const token = randomBytes(PASSWORD_RESET_CONFIG.TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET_CONFIG.TOKEN_TTL * 1000).toISOString();
+
+  await createPasswordResetToken(user.email, hashResetToken(token), expiresAt);
+
+  const link = new URL(ROUTES.RESET_PASSWORD, appUrl);
+  link.searchParams.set('token', token);
+
+  await sendNotification({
+    to: user.email,
+    subject: 'Reset your password',
+    body: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your account. To choose a new password, open this link:',
+      '',
+      link.toString(),
+      '',
+      `The link works once and expires in ${PASSWORD_RESET_CONFIG.TOKEN_TTL / 60} minutes. If you did not ask for this, you can ignore this email; your password has not changed.`,
+    ].join('\n'),
+  });
+
+  console.log(`Password reset link sent to ${user.email}`);
+}
+
+/**
+ * SECURITY: Set a new password with a reset token
+ *
+ * The token is redeemed before the password changes, so two requests with
+ * the same link cannot both succeed.
+ *
+ * @param token - Token from the emailed link
+ * @param newPassword - Validated new password
+ * @returns Promise<string> - Email of the account that was reset
+ * @throws ValidationError if the token is unknown, used, expired or outdated
+ */
+export async function resetPassword(token: string, newPassword: string): Promise<string> {
+  const redeemed = await redeemPasswordResetToken(hashResetToken(token));
+
+  if (!redeemed) {
+    throw new ValidationError(INVALID_TOKEN_MESSAGE);
+  }
+
+  const user = await getUserByEmail(redeemed.email);
+
+  // Links issued before the last password change are void
+  if (!user || (user.passwordChangedAt && redeemed.createdAt < user.passwordChangedAt)) {
+    throw new ValidationError(INVALID_TOKEN_MESSAGE);
+  }
+
+  await updateUserPassword(user.email, await hashPassword(newPassword));
+
+  // SECURITY: Whoever knew the old password may still be signed in
+  await revokeAllSessions(user.email);
+
+  await sendNotification({
+    to: user.email,
+    subject: 'Your password was changed',
+    body: `Hi ${user.name},\n\nThe password for your account was just changed using a reset link. If this was not you, contact support right away.`,
+  });
+
+  return user.email;
+}
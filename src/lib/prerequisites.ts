@@ -0,0 +1,82 @@
+/**
+ * Course requirement evaluation
+ *
+ * Evaluates machine-readable prerequisite and co-requisite rules against the
+ * set of courses a student has satisfied, and explains what is missing in
+ * plain language.
+ */
+
+import type { CourseRequirement } from '@/types';
+
+export interface RequirementResult {
+  met: boolean;
+  missing?: string; // Human-readable description of the unmet part
+}
+
+/**
+ * Normalize a course code so "cs101", "CS 101" and " cs  101 " compare equal
+ */
+export function normalizeCourseCode(code: string): string {
+  return code
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .replace(/^([A-Z]+)\s?(\d)/, '$1 $2')
+    .trim();
+}
+
+/**
+ * Describe a requirement in plain language, e.g. "CS 101 and (WEB 101 or DB 110)"
+ */
+export function describeRequirement(rule: CourseRequirement, nested: boolean = false): string {
+  if ('course' in rule) {
+    return normalizeCourseCode(rule.course);
+  }
+
+  const parts = 'allOf' in rule ? rule.allOf : rule.anyOf;
+  const joiner = 'allOf' in rule ? ' and ' : ' or ';
+  const text = parts.map(part => describeRequirement(part, true)).join(joiner);
+
+  return nested && parts.length > 1 ? `(${text})` : text;
+}
+
+/**
+ * Evaluate a requirement against the courses a student has satisfied
+ *
+ * @param rule - Requirement tree
+ * @param satisfied - Normalized course codes that count toward the rule
+ * @returns RequirementResult - Whether the rule is met and, if not, what is missing
+ */
+export function evaluateRequirement(
+  rule: CourseRequirement,
+  satisfied: Set<string>
+): RequirementResult {
+  if ('course' in rule) {
+    const code = normalizeCourseCode(rule.course);
+    return satisfied.has(code) ? { met: true } : { met: false, missing: code };
+  }
+
+  if ('allOf' in rule) {
+    // Every part must be met; report only the parts that are not
+    const unmet = rule.allOf
+      .map(part => ({ part, result: evaluateRequirement(part, satisfied) }))
+      .filter(({ result }) => !result.met);
+
+    if (unmet.length === 0) {
+      return { met: true };
+    }
+
+    return {
+      met: false,
+      missing: unmet
+        .map(({ part, result }) => ('anyOf' in part ? `one of ${describeRequirement(part, true)}` : result.missing))
+        .join(' and '),
+    };
+  }
+
+  // An empty OR group places no requirement
+  if (rule.anyOf.length === 0 || rule.anyOf.some(part => evaluateRequirement(part, satisfied).met)) {
+    return { met: true };
+  }
+
+  return { met: false, missing: `one of ${describeRequirement(rule, true)}` };
+}
@@ -0,0 +1,79 @@
+/**
+ * DynamoDB rate limit store
+ *
+ * One item per key in DYNAMODB_RATE_LIMITS_TABLE, counted with atomic ADD
+ * updates, so every server instance shares the limits. Items carry an
+ * `expiresAt` epoch-seconds attribute for the table's TTL; DynamoDB deletes
+ * them some time after that, and ended windows are ignored until it does.
+ */
+
+import { DeleteCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getDynamoDBClients } from '../storage/dynamodb';
+import type { RateLimitStore, RateLimitWindow } from './types';
+
+// A hit races at most one other request starting the same window, so a
+// second round always settles; the third is a safety margin
+const MAX_ROUNDS = 3;
+
+function isConditionalCheckFailure(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ConditionalCheckFailedException';
+}
+
+export function createDynamoDBRateLimitStore(): RateLimitStore {
+  const db = () => getDynamoDBClients().docClient;
+  const table = () => getDynamoDBClients().tables.rateLimits;
+
+  return {
+    backend: 'dynamodb',
+
+    async hit(key, windowMs, now) {
+      for (let round = 0; round < MAX_ROUNDS; round++) {
+        // Count the hit in the current window
+        try {
+          const result = await db().send(new UpdateCommand({
+            TableName: table(),
+            Key: { id: key },
+            UpdateExpression: 'ADD hits :one',
+            ConditionExpression: 'resetAt > :now',
+            ExpressionAttributeValues: { ':one': 1, ':now': now },
+            ReturnValues: 'ALL_NEW',
+          }));
+          const { hits, resetAt } = result.Attributes as RateLimitWindow;
+
+          return { hits, resetAt };
+        } catch (error) {
+          if (!isConditionalCheckFailure(error)) {
+            throw error;
+          }
+        }
+
+        // There is no current window: start one, unless another request just did
+        const resetAt = now + windowMs;
+
+        try {
+          await db().send(new PutCommand({
+            TableName: table(),
+            Item: { id: key, hits: 1, resetAt, expiresAt: Math.ceil(resetAt / 1000) },
+            ConditionExpression: 'attribute_not_exists(id) OR resetAt <= :now',
+            ExpressionAttributeValues: { ':now': now },
+          }));
+
+          return { hits: 1, resetAt };
+        } catch (error) {
+          if (!isConditionalCheckFailure(error)) {
+            throw error;
+          }
+        }
+      }
+
+      throw new Error(`Could not count rate limit hit for ${key}`);
+    },
+
+    async clear(key) {
+      await db().send(new DeleteCommand({
+        TableName: table(),
+        Key: { id: key },
+      }));
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * SECURITY: Rate limiting
+ *
+ * Every limiter counts hits in a shared store. RATE_LIMIT_STORE picks it:
+ * 'memory' keeps counts in the server process, 'dynamodb' keeps them in
+ * DYNAMODB_RATE_LIMITS_TABLE so they survive restarts and apply across
+ * instances. It defaults to the STORAGE_BACKEND in use.
+ */
+
+import { getStorageBackend } from '../storage';
+import { createDynamoDBRateLimitStore } from './dynamodb';
+import { createMemoryRateLimitStore } from './memory';
+import type { RateLimitBackend, RateLimitStore } from './types';
+
+export type { RateLimitBackend, RateLimitStore, RateLimitWindow } from './types';
+
+const RATE_LIMIT_BACKENDS: RateLimitBackend[] = ['memory', 'dynamodb'];
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Read the configured store, falling back to the storage backend
+ * @throws Error if RATE_LIMIT_STORE names an unknown store
+ */
+export function getRateLimitBackend(): RateLimitBackend {
+  const backend = (process.env.RATE_LIMIT_STORE || getStorageBackend()).toLowerCase();
+
+  if (!(RATE_LIMIT_BACKENDS as string[]).includes(backend)) {
+    throw new Error(`Unknown RATE_LIMIT_STORE: ${backend}. Expected one of: ${RATE_LIMIT_BACKENDS.join(', ')}`);
+  }
+
+  return backend as RateLimitBackend;
+}
+
+/**
+ * Get the store for the configured backend, creating it on first call
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = getRateLimitBackend() === 'dynamodb' ? createDynamoDBRateLimitStore() : createMemoryRateLimitStore();
+    console.log(`Rate limit store: ${store.backend}`);
+  }
+
+  return store;
+}
+
+/**
+ * Outcome of counting one attempt against a limit
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: number; // When the window ends, in milliseconds since the epoch
+  windowMs: number;
+}
+
+/**
+ * SECURITY: Fixed-window rate limiter
+ *
+ * Limiters share one store, so each has a name that keeps its keys apart.
+ */
+export class RateLimiter {
+  constructor(
+    private name: string,
+    private maxAttempts: number = 5,
+    private windowMs: number = 15 * 60 * 1000 // 15 minutes
+  ) {}
+
+  private key(identifier: string): string {
+    return `${this.name}:${identifier}`;
+  }
+
+  /**
+   * Count an attempt and check it against the limit
+   */
+  async check(identifier: string): Promise<RateLimitResult> {
+    const window = await getRateLimitStore().hit(this.key(identifier), this.windowMs, Date.now());
+
+    return {
+      allowed: window.hits <= this.maxAttempts,
+      limit: this.maxAttempts,
+      remaining: Math.max(0, this.maxAttempts - window.hits),
+      resetAt: window.resetAt,
+      windowMs: this.windowMs,
+    };
+  }
+
+  /**
+   * Clear an identifier's attempts (e.g. after a successful login)
+   */
+  async reset(identifier: string): Promise<void> {
+    await getRateLimitStore().clear(this.key(identifier));
+  }
+}
+
+/**
+ * Build the standard RateLimit-* headers, plus Retry-After once the limit is hit
+ */
+export function getRateLimitHeaders(result: RateLimitResult, now: number = Date.now()): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetAt - now) / 1000));
+
+  return {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(result.remaining),
+    'RateLimit-Reset': String(resetSeconds),
+    'RateLimit-Policy': `${result.limit};w=${Math.ceil(result.windowMs / 1000)}`,
+    ...(!result.allowed && { 'Retry-After': String(resetSeconds) }),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * In-memory rate limit store
+ *
+ * Counts live in the server process: they reset on restart and are not shared
+ * between instances. Use it for development and single-instance deployments.
+ */
+
+import type { RateLimitStore, RateLimitWindow } from './types';
+
+// Sweep ended windows once this many keys are held
+const SWEEP_THRESHOLD = 10_000;
+
+// Survive module reloads in `next dev`, which would otherwise reset the counts
+const globalForRateLimits = globalThis as typeof globalThis & { rateLimitWindows?: Map<string, RateLimitWindow> };
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const windows = (globalForRateLimits.rateLimitWindows ??= new Map());
+
+  function sweep(now: number): void {
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }
+
+  return {
+    backend: 'memory',
+
+    async hit(key, windowMs, now) {
+      const window = windows.get(key);
+
+      if (window && window.resetAt > now) {
+        window.hits++;
+        return { ...window };
+      }
+
+      if (windows.size >= SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+
+      const started = { hits: 1, resetAt: now + windowMs };
+      windows.set(key, started);
+      return { ...started };
+    },
+
+    async clear(key) {
+      windows.delete(key);
+    },
+  };
+}
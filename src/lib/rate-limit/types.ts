@@ -0,0 +1,29 @@
+/**
+ * Rate limit store contract
+ *
+ * A store counts hits per key in fixed windows that start with the first hit
+ * and end windowMs later. Counting is atomic, so every server instance using
+ * the same store shares the same limits.
+ */
+
+export type RateLimitBackend = 'memory' | 'dynamodb';
+
+/**
+ * The window a hit was counted in
+ */
+export interface RateLimitWindow {
+  hits: number; // Hits in the window, including this one
+  resetAt: number; // When the window ends, in milliseconds since the epoch
+}
+
+export interface RateLimitStore {
+  readonly backend: RateLimitBackend;
+
+  /**
+   * Count a hit for the key, starting a new window if it has none or it ended
+   * @param now - Current time in milliseconds since the epoch
+   */
+  hit(key: string, windowMs: number, now: number): Promise<RateLimitWindow>;
+  /** Forget the key's window, so its next hit starts a new one */
+  clear(key: string): Promise<void>;
+}
@@ -0,0 +1,253 @@
+/**
+ * Class schedule utilities
+ *
+ * Turns free-text schedules such as "Mon/Wed 10:00-11:30 AM" into structured
+ * meeting patterns and detects overlapping meetings between classes.
+ */
+
+import type { Class, MeetingPattern, Weekday } from '@/types';
+
+const WEEKDAYS: Weekday[] = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Accepted spellings for each day, matched case-insensitively
+ */
+const DAY_ALIASES: Record<string, Weekday> = {
+  m: 'Mon', mo: 'Mon', mon: 'Mon', monday: 'Mon',
+  t: 'Tue', tu: 'Tue', tue: 'Tue', tues: 'Tue', tuesday: 'Tue',
+  w: 'Wed', we: 'Wed', wed: 'Wed', wednesday: 'Wed',
+  r: 'Thu', th: 'Thu', thu: 'Thu', thur: 'Thu', thurs: 'Thu', thursday: 'Thu',
+  f: 'Fri', fr: 'Fri', fri: 'Fri', friday: 'Fri',
+  s: 'Sat', sa: 'Sat', sat: 'Sat', saturday: 'Sat',
+  u: 'Sun', su: 'Sun', sun: 'Sun', sunday: 'Sun',
+};
+
+// Longest meeting accepted when the start meridiem has to be inferred
+const MAX_INFERRED_MEETING_MINUTES = 4 * 60;
+
+const PATTERN_REGEX = /^\s*([A-Za-z/,&\s]+?)\s+(\d{1,2}(?::\d{2})?)\s*([AaPp][Mm])?\s*-\s*(\d{1,2}(?::\d{2})?)\s*([AaPp][Mm])?\s*$/;
+
+/**
+ * Parse a day list such as "Mon/Wed", "Tue, Thu" or "MWF"
+ */
+function parseDays(text: string): Weekday[] | null {
+  const tokens = text.split(/[\s/,&]+/).filter(Boolean);
+  const days: Weekday[] = [];
+
+  for (const token of tokens) {
+    const alias = DAY_ALIASES[token.toLowerCase()];
+
+    if (alias) {
+      days.push(alias);
+      continue;
+    }
+
+    // Compact forms: "MWF", "TTh", "TR"
+    const compact = token.match(/Th|Tu|Sa|Su|[MTWRFSU]/gi);
+    if (!compact || compact.join('').length !== token.length) {
+      return null;
+    }
+
+    for (const part of compact) {
+      const day = DAY_ALIASES[part.toLowerCase()];
+      if (!day) {
+        return null;
+      }
+      days.push(day);
+    }
+  }
+
+  if (days.length === 0) {
+    return null;
+  }
+
+  // De-duplicate and keep calendar order
+  return WEEKDAYS.filter(day => days.includes(day));
+}
+
+/**
+ * Convert "h[:mm]" plus an optional meridiem into minutes after midnight
+ */
+function toMinutes(time: string, meridiem?: string): number | null {
+  const [hourText, minuteText = '0'] = time.split(':');
+  let hours = parseInt(hourText, 10);
+  const minutes = parseInt(minuteText, 10);
+
+  if (minutes > 59) {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    const isPm = meridiem.toLowerCase() === 'pm';
+    hours = (hours % 12) + (isPm ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes after midnight as 24-hour "HH:MM"
+ */
+function formatMinutes(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60).toString().padStart(2, '0');
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${hours}:${minutes}`;
+}
+
+/**
+ * Convert a 24-hour "HH:MM" string back into minutes after midnight
+ */
+function parseClockTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse a single pattern such as "Tue/Thu 2:00-3:30 PM"
+ */
+function parsePattern(text: string): MeetingPattern | null {
+  const match = text.match(PATTERN_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, dayText, startText, startMeridiem, endText, endMeridiem] = match;
+
+  const days = parseDays(dayText);
+  if (!days) {
+    return null;
+  }
+
+  const end = toMinutes(endText, endMeridiem);
+  if (end === null) {
+    return null;
+  }
+
+  let start = toMinutes(startText, startMeridiem || endMeridiem);
+
+  // "11:00-12:15 PM" means 11:00 AM: a shared trailing meridiem only applies
+  // to the start time when that keeps the start before the end. The flipped
+  // reading must still be a plausible single meeting.
+  if (start !== null && !startMeridiem && endMeridiem && start >= end) {
+    start = toMinutes(startText, endMeridiem.toLowerCase() === 'pm' ? 'am' : 'pm');
+
+    if (start !== null && end - start > MAX_INFERRED_MEETING_MINUTES) {
+      return null;
+    }
+  }
+
+  if (start === null || start >= end) {
+    return null;
+  }
+
+  return {
+    days,
+    startTime: formatMinutes(start),
+    endTime: formatMinutes(end),
+  };
+}
+
+/**
+ * Parse a free-text schedule into structured meeting patterns
+ *
+ * Multiple patterns may be separated by semicolons, e.g.
+ * "Mon/Wed 10:00-11:30 AM; Fri 1:00-2:00 PM".
+ *
+ * @param schedule - Human-readable schedule string
+ * @returns MeetingPattern[] - Parsed patterns, or an empty array if any part is unreadable
+ */
+export function parseSchedule(schedule: string): MeetingPattern[] {
+  if (!schedule || typeof schedule !== 'string') {
+    return [];
+  }
+
+  const patterns: MeetingPattern[] = [];
+
+  for (const part of schedule.split(';').map(p => p.trim()).filter(Boolean)) {
+    const pattern = parsePattern(part);
+
+    if (!pattern) {
+      console.warn(`Unable to parse schedule: "${schedule}"`);
+      return [];
+    }
+
+    patterns.push(pattern);
+  }
+
+  return patterns;
+}
+
+/**
+ * Get a class's structured meetings, parsing the schedule text when the class
+ * has none stored
+ */
+export function getMeetingPatterns(classItem: Pick<Class, 'schedule' | 'meetings'>): MeetingPattern[] {
+  if (classItem.meetings && classItem.meetings.length > 0) {
+    return classItem.meetings;
+  }
+
+  return parseSchedule(classItem.schedule);
+}
+
+/**
+ * Check whether two meeting patterns occupy the same time
+ *
+ * Patterns overlap when they share a day, their times intersect, and their
+ * date ranges (if both are bounded) intersect. Back-to-back meetings do not
+ * overlap.
+ */
+export function meetingsOverlap(a: MeetingPattern, b: MeetingPattern): boolean {
+  if (!a.days.some(day => b.days.includes(day))) {
+    return false;
+  }
+
+  const timesOverlap =
+    parseClockTime(a.startTime) < parseClockTime(b.endTime) &&
+    parseClockTime(b.startTime) < parseClockTime(a.endTime);
+
+  if (!timesOverlap) {
+    return false;
+  }
+
+  // ISO dates compare correctly as strings; an open end means "whole term"
+  const aStart = a.startDate || '';
+  const bStart = b.startDate || '';
+  const aEnd = a.endDate || '9999-12-31';
+  const bEnd = b.endDate || '9999-12-31';
+
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+/**
+ * Find the first class whose meetings overlap a candidate class
+ *
+ * @param candidate - Class the student wants to join
+ * @param scheduledClasses - Classes the student already attends
+ * @returns Class | null - The conflicting class, or null if there is none
+ */
+export function findScheduleConflict(candidate: Class, scheduledClasses: Class[]): Class | null {
+  const candidateMeetings = getMeetingPatterns(candidate);
+
+  if (candidateMeetings.length === 0) {
+    return null;
+  }
+
+  for (const other of scheduledClasses) {
+    if (other.id === candidate.id) {
+      continue;
+    }
+
+    const otherMeetings = getMeetingPatterns(other);
+
+    if (candidateMeetings.some(mine => otherMeetings.some(theirs => meetingsOverlap(mine, theirs)))) {
+      return other;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,79 @@
+/**
+ * Seed data
+ *
+ * The initial term calendar and class catalog. db:init loads it into
+ * DynamoDB; the in-memory storage backend starts from it.
+ */
+
+import type { Class, Term } from '../types';
+
+/**
+ * Initial term calendar. Dates are UTC; registration closes with add/drop.
+ */
+export const SEED_TERMS: Omit<Term, 'createdAt' | 'updatedAt'>[] = [
+  {
+    id: 'spring-2027',
+    name: 'Spring 2027',
+    startDate: '2027-01-11T00:00:00.000Z',
+    endDate: '2027-05-07T23:59:59.999Z',
+    registrationOpensAt: '2026-10-01T00:00:00.000Z',
+    registrationClosesAt: '2027-01-22T23:59:59.999Z',
+    addDropDeadline: '2027-01-22T23:59:59.999Z',
+    withdrawalDeadline: '2027-03-31T23:59:59.999Z',
+  },
+];
+
+/**
+ * Initial class catalog.
+ * Seat counts start at zero; they are maintained by enrollments from here on.
+ */
+export const SEED_CLASSES: Omit<Class, 'createdAt' | 'updatedAt'>[] = [
+  {
+    id: '1',
+    name: 'Web Development 101',
+    instructor: 'Dr. Smith',
+    description: 'Learn HTML, CSS, and JavaScript fundamentals. Perfect for beginners looking to start their web development journey.',
+    capacity: 30,
+    currentEnrollment: 0,
+    schedule: 'Mon/Wed 10:00-11:30 AM',
+    semester: 'Spring 2027',
+    termId: 'spring-2027',
+    credits: 3,
+    courseCode: 'WEB 101',
+    prerequisites: 'None',
+    location: 'Computer Lab A',
+  },
+  {
+    id: '2',
+    name: 'Database Basics',
+    instructor: 'Prof. Johnson',
+    description: 'Introduction to SQL and NoSQL databases. Learn database design, queries, and optimization techniques.',
+    capacity: 25,
+    currentEnrollment: 0,
+    schedule: 'Tue/Thu 2:00-3:30 PM',
+    semester: 'Spring 2027',
+    termId: 'spring-2027',
+    credits: 3,
+    courseCode: 'DB 110',
+    prerequisites: 'Basic programming knowledge',
+    // Programming background: taken before or alongside this class
+    corequisiteRules: { anyOf: [{ course: 'CS 101' }, { course: 'WEB 101' }] },
+    location: 'Room 205',
+  },
+  {
+    id: '3',
+    name: 'Cybersecurity Fundamentals',
+    instructor: 'Dr. Lee',
+    description: 'Security best practices and common vulnerabilities. Learn to protect systems and data from cyber threats.',
+    capacity: 20,
+    currentEnrollment: 0,
+    schedule: 'Wed/Fri 1:00-2:30 PM',
+    semester: 'Spring 2027',
+    termId: 'spring-2027',
+    credits: 4,
+    courseCode: 'CYB 210',
+    prerequisites: 'Computer Science 101',
+    prerequisiteRules: { course: 'CS 101' },
+    location: 'Security Lab',
+  },
+];
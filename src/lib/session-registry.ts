@@ -0,0 +1,149 @@
+/**
+ * Sign-in session registry
+ *
+ * Session tokens are JWTs, so on their own they stay valid until they expire.
+ * Every sign-in also records a session with its device, address and time, and
+ * the token carries the session's id. The jwt callback checks the record on
+ * each request, so revoking a session signs that device out at its next
+ * request. Ended sessions stay in the login history for
+ * SESSION_CONFIG.HISTORY_RETENTION.
+ */
+
+import { randomUUID } from 'crypto';
+import { createSession, getSession, getUserSessions, revokeSession, touchSession } from './db';
+import { SESSION_CONFIG } from './constants';
+import type { UserSession } from '@/types';
+
+// Longer user agents are cut; they are only shown to the user
+const USER_AGENT_MAX_LENGTH = 512;
+
+// First match wins, so browsers that also claim to be Chrome or Safari come first
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/CrOS/, 'ChromeOS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Where a sign-in came from
+ */
+export interface SessionClient {
+  ip: string;
+  userAgent: string;
+}
+
+/**
+ * Describe a browser for the session list, e.g. "Firefox on Windows"
+ */
+export function describeDevice(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) {
+    return `${browser} on ${system}`;
+  }
+
+  return browser || system || 'Unknown device';
+}
+
+/**
+ * Activity fields for a session seen at `now`; expiry slides like the token's
+ */
+function activityAt(now: number): Pick<UserSession, 'lastSeenAt' | 'expiresAt' | 'purgeAt'> {
+  const expiresAt = now + SESSION_CONFIG.MAX_AGE * 1000;
+
+  return {
+    lastSeenAt: new Date(now).toISOString(),
+    expiresAt: new Date(expiresAt).toISOString(),
+    purgeAt: Math.floor(expiresAt / 1000) + SESSION_CONFIG.HISTORY_RETENTION,
+  };
+}
+
+/**
+ * SECURITY: Check whether a session can still be used
+ */
+export function isSessionActive(
+  session: Pick<UserSession, 'expiresAt' | 'revokedAt'>,
+  now: number = Date.now()
+): boolean {
+  return !session.revokedAt && Date.parse(session.expiresAt) > now;
+}
+
+/**
+ * SECURITY: Record a new sign-in session
+ *
+ * @param email - User who signed in
+ * @param client - Address and user agent of the sign-in request
+ * @returns Promise<UserSession> - The session; its id goes in the token
+ */
+export async function startSession(email: string, client: SessionClient): Promise<UserSession> {
+  const now = Date.now();
+  const userAgent = client.userAgent.slice(0, USER_AGENT_MAX_LENGTH);
+
+  return createSession({
+    id: randomUUID(),
+    email,
+    createdAt: new Date(now).toISOString(),
+    ...activityAt(now),
+    ip: client.ip,
+    userAgent,
+    device: describeDevice(userAgent),
+  });
+}
+
+/**
+ * SECURITY: Check the session a token carries, recording activity on it
+ *
+ * @param sessionId - Session id from the token
+ * @param email - User the token belongs to
+ * @returns Promise<UserSession | null> - The session, or null unless it is active and belongs to the user
+ */
+export async function validateSession(sessionId: string, email: string): Promise<UserSession | null> {
+  const session = await getSession(sessionId);
+  const now = Date.now();
+
+  if (!session || session.email !== email || !isSessionActive(session, now)) {
+    return null;
+  }
+
+  // Write at most every ACTIVITY_UPDATE_AGE, not on every request
+  if (now - Date.parse(session.lastSeenAt) >= SESSION_CONFIG.ACTIVITY_UPDATE_AGE * 1000) {
+    await touchSession(sessionId, activityAt(now));
+  }
+
+  return session;
+}
+
+/**
+ * SECURITY: Revoke every active session of a user
+ *
+ * @param email - User whose sessions end
+ * @param exceptSessionId - Session to keep, e.g. the one making the request
+ * @returns Promise<number> - How many sessions were revoked
+ */
+export async function revokeAllSessions(email: string, exceptSessionId?: string): Promise<number> {
+  const now = Date.now();
+  const sessions = (await getUserSessions(email))
+    .filter(session => session.id !== exceptSessionId && isSessionActive(session, now));
+
+  let revoked = 0;
+
+  for (const session of sessions) {
+    if (await revokeSession(session.id)) {
+      revoked++;
+    }
+  }
+
+  return revoked;
+}
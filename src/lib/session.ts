@@ -9,12 +9,46 @@
  */
 
 import { getServerSession } from 'next-auth/next';
+import { headers } from 'next/headers';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { REQUEST_ID_HEADER, REQUEST_TARGET_HEADER } from '@/lib/constants';
+import { auditImpersonatedRequest, isAllowedWhileImpersonating } from '@/lib/impersonation';
+import type { Session } from 'next-auth';
 import type { SessionUser } from '@/lib/auth';
+import type { UserRole } from '@/types';
+
+/**
+ * SECURITY: Record a request made while an admin views as a student, and
+ * apply the same rules as the middleware to it
+ * 
+ * @param user - The student, with the admin in impersonatedBy
+ * @returns Promise<boolean> - False if the request must be refused
+ */
+async function checkImpersonatedRequest(user: SessionUser): Promise<boolean> {
+  const requestHeaders = await headers();
+  const target = requestHeaders.get(REQUEST_TARGET_HEADER) || undefined;
+
+  await auditImpersonatedRequest(user, {
+    requestId: requestHeaders.get(REQUEST_ID_HEADER) || undefined,
+    target,
+  });
+
+  if (!isAllowedWhileImpersonating(target)) {
+    console.warn(`Request refused while ${user.impersonatedBy} views as ${user.email}: ${target}`);
+    return false;
+  }
+
+  return true;
+}
 
 /**
  * SECURITY: Get authenticated session on server-side
  * 
+ * While an admin views as a student this is the student, with the admin in
+ * impersonatedBy, and the request is recorded in the audit log. Writes and
+ * the student's security settings are refused then (null), as in the
+ * middleware.
+ * 
  * @returns Promise<SessionUser | null> - User session or null if not authenticated
  */
 export async function getAuthSession(): Promise<SessionUser | null> {
@@ -26,11 +60,47 @@ export async function getAuthSession(): Promise<SessionUser | null> {
     }
     
     // SECURITY: Return only safe user data
-    return {
+    const user: SessionUser = {
       email: session.user.email,
       name: session.user.name,
       studentId: session.user.studentId,
+      role: session.user.role,
+      impersonatedBy: session.user.impersonatedBy,
     };
+
+    if (user.impersonatedBy && !(await checkImpersonatedRequest(user))) {
+      return null;
+    }
+
+    return user;
+  } catch (error) {
+    console.error('Session verification error:', error);
+    return null;
+  }
+}
+
+/**
+ * SECURITY: Get the full session for a server-rendered page
+ * 
+ * Pages pass the session to their client component. Like getAuthSession,
+ * a page viewed as a student is recorded in the audit log, and pages closed
+ * while viewing return null.
+ * 
+ * @returns Promise<Session | null> - Session or null if not authenticated
+ */
+export async function getPageSession(): Promise<Session | null> {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user) {
+      return null;
+    }
+
+    if (session.user.impersonatedBy && !(await checkImpersonatedRequest(session.user))) {
+      return null;
+    }
+
+    return session;
   } catch (error) {
     console.error('Session verification error:', error);
     return null;
@@ -53,6 +123,49 @@ export async function requireAuth(): Promise<SessionUser> {
   return session;
 }
 
+/**
+ * SECURITY: Check whether a user holds one of the given roles
+ * 
+ * @param user - Authenticated user session
+ * @param roles - Roles that grant access
+ * @returns boolean - True if the user's role is listed
+ */
+export function hasRole(user: SessionUser, ...roles: UserRole[]): boolean {
+  return roles.includes(user.role);
+}
+
+/**
+ * SECURITY: Verify user is authenticated and holds one of the given roles
+ * 
+ * @param roles - Roles that grant access
+ * @returns Promise<SessionUser> - Authenticated user session
+ * @throws Error if not authenticated or not permitted
+ */
+export async function requireRole(...roles: UserRole[]): Promise<SessionUser> {
+  const session = await requireAuth();
+  
+  if (!hasRole(session, ...roles)) {
+    throw new Error('Insufficient permissions');
+  }
+  
+  return session;
+}
+
+/**
+ * SECURITY: Get the id of the sign-in session making this request
+ * 
+ * @returns Promise<string | null> - Session id or null if not authenticated
+ */
+export async function getCurrentSessionId(): Promise<string | null> {
+  try {
+    const session = await getServerSession(authOptions);
+    return session?.sessionId || null;
+  } catch (error) {
+    console.error('Session verification error:', error);
+    return null;
+  }
+}
+
 /**
  * SECURITY: Check if user is authenticated (boolean)
  * 
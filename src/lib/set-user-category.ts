@@ -0,0 +1,45 @@
+/**
+ * Student category script for development
+ * Sets the category that decides a student's credit limits:
+ * npm run user:category -- <email> <category>
+ */
+
+import './load-env';
+import { updateStudentCategory } from './db';
+import { STUDENT_CATEGORIES } from './constants';
+import type { StudentCategory } from '../types';
+
+/**
+ * Set a student's category, validating the category name first
+ */
+export async function setUserCategory(email: string, category: string): Promise<void> {
+  const categories: string[] = Object.values(STUDENT_CATEGORIES);
+
+  if (!categories.includes(category)) {
+    throw new Error(`Category must be one of: ${categories.join(', ')}`);
+  }
+
+  await updateStudentCategory(email, category as StudentCategory);
+}
+
+/**
+ * Run category assignment if this file is executed directly
+ */
+if (require.main === module) {
+  const [email, category] = process.argv.slice(2);
+
+  if (!email || !category) {
+    console.error('Usage: npm run user:category -- <email> <category>');
+    process.exit(1);
+  }
+
+  setUserCategory(email, category)
+    .then(() => {
+      console.log(`Category updated. New limits apply to ${email} right away.`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Failed to update category:', error);
+      process.exit(1);
+    });
+}
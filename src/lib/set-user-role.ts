@@ -0,0 +1,47 @@
+/**
+ * Role assignment script for development
+ * Grants a role to an existing user: npm run user:role -- <email> <role>
+ *
+ * SECURITY NOTE: Registration always creates students. Elevated roles are only
+ * granted here or directly in the Users table, never through the public API.
+ */
+
+import './load-env';
+import { updateUserRole } from './db';
+import { USER_ROLES } from './constants';
+import type { UserRole } from '../types';
+
+/**
+ * Set a user's role, validating the role name first
+ */
+export async function setUserRole(email: string, role: string): Promise<void> {
+  const roles: string[] = Object.values(USER_ROLES);
+
+  if (!roles.includes(role)) {
+    throw new Error(`Role must be one of: ${roles.join(', ')}`);
+  }
+
+  await updateUserRole(email, role as UserRole);
+}
+
+/**
+ * Run role assignment if this file is executed directly
+ */
+if (require.main === module) {
+  const [email, role] = process.argv.slice(2);
+
+  if (!email || !role) {
+    console.error('Usage: npm run user:role -- <email> <role>');
+    process.exit(1);
+  }
+
+  setUserRole(email, role)
+    .then(() => {
+      console.log(`Role updated. ${email} must sign in again for it to take effect.`);
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Failed to update role:', error);
+      process.exit(1);
+    });
+}
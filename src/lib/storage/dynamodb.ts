@@ -0,0 +1,1122 @@
+/**
+ * DynamoDB storage adapter
+ *
+ * The client is created on first use rather than at import, so modules that
+ * import the database layer load without AWS configuration. Set
+ * DYNAMODB_ENDPOINT to use a local DynamoDB-compatible server instead of AWS.
+ *
+ * SECURITY: Every operation uses parameterized commands; values never appear
+ * in expression strings.
+ */
+
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  UpdateCommand,
+  DeleteCommand,
+  TransactWriteCommand,
+  TransactWriteCommandInput,
+  QueryCommandInput,
+  ScanCommandInput,
+  UpdateCommandInput
+} from '@aws-sdk/lib-dynamodb';
+import { ClassFullError, ConflictError, NotFoundError } from '../db-errors';
+import type {
+  AuditEntry,
+  Cart,
+  Class,
+  CompletedCourse,
+  Enrollment,
+  OverloadRequest,
+  PasswordResetToken,
+  Term,
+  User,
+  UserSession
+} from '../../types';
+import type { AuditRange, DropStatus, PromotionResult, ReadOptions, StorageAdapter } from './types';
+
+export interface DynamoDBTables {
+  users: string;
+  enrollments: string;
+  classes: string;
+  completedCourses: string;
+  terms: string;
+  audit: string;
+  carts: string;
+  overloadRequests: string;
+  passwordResetTokens: string;
+  rateLimits: string;
+  sessions: string;
+}
+
+export interface DynamoDBClients {
+  client: DynamoDBClient;
+  docClient: DynamoDBDocumentClient;
+  tables: DynamoDBTables;
+}
+
+// SECURITY: Variables that must be set before any table is touched
+const REQUIRED_AWS_ENV_VARS = [
+  'AWS_REGION',
+  'AWS_ACCESS_KEY_ID',
+  'AWS_SECRET_ACCESS_KEY',
+];
+
+const REQUIRED_TABLE_ENV_VARS = [
+  'DYNAMODB_USERS_TABLE',
+  'DYNAMODB_ENROLLMENTS_TABLE',
+  'DYNAMODB_CLASSES_TABLE',
+  'DYNAMODB_COMPLETED_COURSES_TABLE',
+  'DYNAMODB_TERMS_TABLE',
+  'DYNAMODB_AUDIT_TABLE',
+  'DYNAMODB_CARTS_TABLE',
+  'DYNAMODB_OVERLOADS_TABLE',
+  'DYNAMODB_PASSWORD_RESETS_TABLE',
+  'DYNAMODB_RATE_LIMITS_TABLE',
+  'DYNAMODB_SESSIONS_TABLE',
+];
+
+// Placeholders for a local endpoint, which ignores region and credentials
+const LOCAL_REGION = 'local';
+const LOCAL_CREDENTIAL = 'local';
+
+let clients: DynamoDBClients | null = null;
+
+/**
+ * Get the shared DynamoDB clients, creating them on first call
+ *
+ * SECURITY: Credentials come from environment variables ONLY
+ *
+ * @throws Error if a required environment variable is missing
+ */
+export function getDynamoDBClients(): DynamoDBClients {
+  if (clients) {
+    return clients;
+  }
+
+  const endpoint = process.env.DYNAMODB_ENDPOINT;
+
+  // A local endpoint accepts any credentials, so AWS settings are optional
+  const requiredVars = endpoint
+    ? REQUIRED_TABLE_ENV_VARS
+    : [...REQUIRED_AWS_ENV_VARS, ...REQUIRED_TABLE_ENV_VARS];
+  const missingVars = requiredVars.filter(varName => !process.env[varName]);
+
+  if (missingVars.length > 0) {
+    throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
+  }
+
+  const client = new DynamoDBClient({
+    region: process.env.AWS_REGION || LOCAL_REGION,
+    ...(endpoint && { endpoint }),
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || LOCAL_CREDENTIAL,
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || LOCAL_CREDENTIAL,
+    },
+  });
+
+  if (endpoint) {
+    console.log(`DynamoDB endpoint: ${endpoint}`);
+  }
+
+  clients = {
+    client,
+    docClient: DynamoDBDocumentClient.from(client),
+    tables: {
+      users: process.env.DYNAMODB_USERS_TABLE!,
+      enrollments: process.env.DYNAMODB_ENROLLMENTS_TABLE!,
+      classes: process.env.DYNAMODB_CLASSES_TABLE!,
+      completedCourses: process.env.DYNAMODB_COMPLETED_COURSES_TABLE!,
+      terms: process.env.DYNAMODB_TERMS_TABLE!,
+      audit: process.env.DYNAMODB_AUDIT_TABLE!,
+      carts: process.env.DYNAMODB_CARTS_TABLE!,
+      overloadRequests: process.env.DYNAMODB_OVERLOADS_TABLE!,
+      passwordResetTokens: process.env.DYNAMODB_PASSWORD_RESETS_TABLE!,
+      rateLimits: process.env.DYNAMODB_RATE_LIMITS_TABLE!,
+      sessions: process.env.DYNAMODB_SESSIONS_TABLE!,
+    },
+  };
+
+  return clients;
+}
+
+type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+// BatchGetItem accepts at most 100 keys per request
+const BATCH_GET_LIMIT = 100;
+
+// Condition on a class item; classes without a status are active
+const NOT_CANCELLED = '(attribute_not_exists(#status) OR #status <> :cancelled)';
+
+function isConditionalCheckFailure(error: unknown): boolean {
+  return error instanceof Error && error.name === 'ConditionalCheckFailedException';
+}
+
+/**
+ * Read which items of a cancelled transaction failed their condition check
+ */
+function getFailedTransactionItems(error: unknown): number[] {
+  if (!(error instanceof TransactionCanceledException)) {
+    return [];
+  }
+
+  return (error.CancellationReasons || [])
+    .map((reason, index) => (reason.Code === 'ConditionalCheckFailed' ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * Create the DynamoDB storage adapter
+ */
+export function createDynamoDBStorage(): StorageAdapter {
+  const db = () => getDynamoDBClients().docClient;
+  const tables = () => getDynamoDBClients().tables;
+
+  /**
+   * Scan a table to completion, following every page
+   */
+  async function scanAll<T>(params: ScanCommandInput): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: ScanCommandInput['ExclusiveStartKey'];
+
+    do {
+      const result = await db().send(new ScanCommand({
+        ...params,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      items.push(...((result.Items as T[]) || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  /**
+   * Run a query to completion, following every page
+   */
+  async function queryAll<T>(params: QueryCommandInput): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: QueryCommandInput['ExclusiveStartKey'];
+
+    do {
+      const result = await db().send(new QueryCommand({
+        ...params,
+        ExclusiveStartKey: exclusiveStartKey,
+      }));
+
+      items.push(...((result.Items as T[]) || []));
+      exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  /**
+   * Read enrollments from the base table by id with strongly consistent reads
+   */
+  async function getEnrollmentsByIds(ids: string[]): Promise<Enrollment[]> {
+    const table = tables().enrollments;
+    const enrollments: Enrollment[] = [];
+
+    for (let i = 0; i < ids.length; i += BATCH_GET_LIMIT) {
+      let keys: Record<string, unknown>[] | undefined = ids
+        .slice(i, i + BATCH_GET_LIMIT)
+        .map(id => ({ id }));
+
+      // Retry keys DynamoDB left unprocessed under load
+      while (keys && keys.length > 0) {
+        const result: BatchGetCommandOutput = await db().send(new BatchGetCommand({
+          RequestItems: {
+            [table]: { Keys: keys, ConsistentRead: true },
+          },
+        }));
+
+        enrollments.push(...((result.Responses?.[table] as Enrollment[]) || []));
+        keys = result.UnprocessedKeys?.[table]?.Keys;
+      }
+    }
+
+    return enrollments;
+  }
+
+  /**
+   * Transaction item that moves an enrollment from its current status to
+   * 'dropped' or 'withdrawn'
+   */
+  function buildDropItem(enrollment: Enrollment, now: string, dropStatus: DropStatus) {
+    return {
+      Update: {
+        TableName: tables().enrollments,
+        Key: { id: enrollment.id },
+        UpdateExpression: dropStatus === 'withdrawn'
+          ? 'SET #status = :newStatus, withdrawnAt = :now, updatedAt = :now'
+          : 'SET #status = :newStatus, updatedAt = :now',
+        ConditionExpression: '#status = :current',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':newStatus': dropStatus, ':current': enrollment.status, ':now': now },
+      },
+    };
+  }
+
+  /**
+   * Transaction item that moves a waitlisted enrollment to 'active'
+   */
+  function buildPromoteItem(next: Enrollment, now: string) {
+    return {
+      Update: {
+        TableName: tables().enrollments,
+        Key: { id: next.id },
+        UpdateExpression: 'SET #status = :active, enrolledAt = :now, promotedAt = :now, updatedAt = :now',
+        ConditionExpression: '#status = :waitlisted',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':active': 'active', ':waitlisted': 'waitlisted', ':now': now },
+      },
+    };
+  }
+
+  /**
+   * Write a new enrollment record alongside a condition on its class
+   */
+  async function putEnrollmentWithClassItem(enrollment: Enrollment, classItem: TransactItem): Promise<void> {
+    await db().send(new TransactWriteCommand({
+      TransactItems: [
+        {
+          Put: {
+            TableName: tables().enrollments,
+            Item: enrollment,
+            // Prevent duplicate records; a dropped record may be re-used
+            ConditionExpression: 'attribute_not_exists(id) OR #status = :dropped',
+            ExpressionAttributeNames: { '#status': 'status' },
+            ExpressionAttributeValues: { ':dropped': 'dropped' },
+          },
+        },
+        classItem,
+      ],
+    }));
+  }
+
+  const adapter: StorageAdapter = {
+    backend: 'dynamodb',
+
+    async createUser(user) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().users,
+          Item: user,
+          // Prevent overwriting existing users
+          ConditionExpression: 'attribute_not_exists(email)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('User already exists');
+        }
+        throw error;
+      }
+
+      return user;
+    },
+
+    async getUser(email) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().users,
+        Key: { email },
+      }));
+
+      return (result.Item as User) || null;
+    },
+
+    async updateUser(email, updates, remove = []) {
+      const fields = Object.entries(updates).filter(([, value]) => value !== undefined);
+      fields.push(['updatedAt', new Date().toISOString()]);
+
+      const setClause = `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`;
+      const removeClause = remove.length > 0 ? ` REMOVE ${remove.map((_, i) => `#r${i}`).join(', ')}` : '';
+
+      try {
+        const result = await db().send(new UpdateCommand({
+          TableName: tables().users,
+          Key: { email },
+          UpdateExpression: setClause + removeClause,
+          ConditionExpression: 'attribute_exists(email)',
+          ExpressionAttributeNames: {
+            ...Object.fromEntries(fields.map(([name], i) => [`#f${i}`, name])),
+            ...Object.fromEntries(remove.map((name, i) => [`#r${i}`, name])),
+          },
+          ExpressionAttributeValues: Object.fromEntries(fields.map(([, value], i) => [`:v${i}`, value])),
+          ReturnValues: 'ALL_NEW',
+        }));
+
+        return result.Attributes as User;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new NotFoundError('User not found');
+        }
+        throw error;
+      }
+    },
+
+    async acceptTotpStep(email, step) {
+      try {
+        await db().send(new UpdateCommand({
+          TableName: tables().users,
+          Key: { email },
+          UpdateExpression: 'SET totpLastStep = :step',
+          // Each step is accepted once, so a code seen by an attacker cannot be replayed
+          ConditionExpression: 'attribute_exists(totpSecret) AND (attribute_not_exists(totpLastStep) OR totpLastStep < :step)',
+          ExpressionAttributeValues: { ':step': step },
+        }));
+
+        return true;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async consumeRecoveryCode(email, codeHash) {
+      const user = await adapter.getUser(email);
+      const index = user?.recoveryCodeHashes?.indexOf(codeHash) ?? -1;
+
+      if (index === -1) {
+        return false;
+      }
+
+      try {
+        await db().send(new UpdateCommand({
+          TableName: tables().users,
+          Key: { email },
+          UpdateExpression: `REMOVE recoveryCodeHashes[${index}]`,
+          // Fails if another request removed a code first and the list shifted
+          ConditionExpression: `recoveryCodeHashes[${index}] = :codeHash`,
+          ExpressionAttributeValues: { ':codeHash': codeHash },
+        }));
+
+        return true;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async recordFailedLogin(email, at, since) {
+      try {
+        // Count on from a recent failure
+        const result = await db().send(new UpdateCommand({
+          TableName: tables().users,
+          Key: { email },
+          UpdateExpression: 'ADD failedLoginCount :one SET lastFailedLoginAt = :at, updatedAt = :at',
+          ConditionExpression: 'attribute_exists(email) AND lastFailedLoginAt >= :since',
+          ExpressionAttributeValues: { ':one': 1, ':at': at, ':since': since },
+          ReturnValues: 'ALL_NEW',
+        }));
+
+        return result.Attributes as User;
+      } catch (error) {
+        if (!isConditionalCheckFailure(error)) {
+          throw error;
+        }
+      }
+
+      // No recent failure: start counting again
+      return adapter.updateUser(email, { failedLoginCount: 1, lastFailedLoginAt: at });
+    },
+
+    async listLockedUsers(now) {
+      return scanAll<User>({
+        TableName: tables().users,
+        FilterExpression: 'lockedUntil > :now',
+        ExpressionAttributeValues: { ':now': now },
+      });
+    },
+
+    async listClasses() {
+      return scanAll<Class>({ TableName: tables().classes });
+    },
+
+    async getClass(classId) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().classes,
+        Key: { id: classId },
+      }));
+
+      return (result.Item as Class) || null;
+    },
+
+    async createClass(classItem) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().classes,
+          Item: classItem,
+          // Prevent overwriting an existing class
+          ConditionExpression: 'attribute_not_exists(id)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('Class already exists');
+        }
+        throw error;
+      }
+
+      return classItem;
+    },
+
+    async updateClass(classId, updates) {
+      const fields = Object.entries(updates).filter(([, value]) => value !== undefined);
+      fields.push(['updatedAt', new Date().toISOString()]);
+
+      const params: UpdateCommandInput = {
+        TableName: tables().classes,
+        Key: { id: classId },
+        UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+        ExpressionAttributeNames: Object.fromEntries(fields.map(([name], i) => [`#f${i}`, name])),
+        ExpressionAttributeValues: Object.fromEntries(fields.map(([, value], i) => [`:v${i}`, value])),
+        // Only update classes that exist, and never below the seats already taken
+        ConditionExpression: updates.capacity !== undefined
+          ? 'attribute_exists(id) AND currentEnrollment <= :newCapacity'
+          : 'attribute_exists(id)',
+        ReturnValues: 'ALL_NEW',
+      };
+
+      if (updates.capacity !== undefined) {
+        params.ExpressionAttributeValues![':newCapacity'] = updates.capacity;
+      }
+
+      try {
+        const result = await db().send(new UpdateCommand(params));
+        return result.Attributes as Class;
+      } catch (error) {
+        if (!isConditionalCheckFailure(error)) {
+          throw error;
+        }
+
+        const existing = await adapter.getClass(classId);
+
+        if (!existing) {
+          throw new NotFoundError('Class not found');
+        }
+
+        throw new ConflictError(
+          `Capacity cannot be lower than current enrollment (${existing.currentEnrollment})`
+        );
+      }
+    },
+
+    async deleteClass(classId) {
+      try {
+        await db().send(new DeleteCommand({
+          TableName: tables().classes,
+          Key: { id: classId },
+          ConditionExpression: 'attribute_exists(id)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new NotFoundError('Class not found');
+        }
+        throw error;
+      }
+    },
+
+    async listTerms() {
+      return scanAll<Term>({ TableName: tables().terms });
+    },
+
+    async getTerm(termId) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().terms,
+        Key: { id: termId },
+      }));
+
+      return (result.Item as Term) || null;
+    },
+
+    async createTerm(term) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().terms,
+          Item: term,
+          // Prevent overwriting an existing term
+          ConditionExpression: 'attribute_not_exists(id)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('Term already exists');
+        }
+        throw error;
+      }
+
+      return term;
+    },
+
+    async updateTerm(termId, updates) {
+      const fields = Object.entries(updates).filter(([, value]) => value !== undefined);
+      fields.push(['updatedAt', new Date().toISOString()]);
+
+      try {
+        const result = await db().send(new UpdateCommand({
+          TableName: tables().terms,
+          Key: { id: termId },
+          UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+          ConditionExpression: 'attribute_exists(id)',
+          ExpressionAttributeNames: Object.fromEntries(fields.map(([name], i) => [`#f${i}`, name])),
+          ExpressionAttributeValues: Object.fromEntries(fields.map(([, value], i) => [`:v${i}`, value])),
+          ReturnValues: 'ALL_NEW',
+        }));
+
+        return result.Attributes as Term;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new NotFoundError('Term not found');
+        }
+        throw error;
+      }
+    },
+
+    async listCompletedCourses(email) {
+      return queryAll<CompletedCourse>({
+        TableName: tables().completedCourses,
+        KeyConditionExpression: 'email = :email',
+        ExpressionAttributeValues: { ':email': email },
+      });
+    },
+
+    async putCompletedCourse(record) {
+      await db().send(new PutCommand({
+        TableName: tables().completedCourses,
+        Item: record,
+      }));
+
+      return record;
+    },
+
+    async getEnrollment(enrollmentId) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().enrollments,
+        Key: { id: enrollmentId },
+        // Read straight after a write must see it
+        ConsistentRead: true,
+      }));
+
+      return (result.Item as Enrollment) || null;
+    },
+
+    async listEnrollmentsByEmail(email, options: ReadOptions = {}) {
+      // Keep active, waitlisted and withdrawn enrollments (exclude dropped)
+      const enrollments = await queryAll<Enrollment>({
+        TableName: tables().enrollments,
+        IndexName: 'EmailIndex',
+        KeyConditionExpression: 'email = :email',
+        FilterExpression: '#status <> :dropped',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':email': email,
+          ':dropped': 'dropped',
+        },
+      });
+
+      if (!options.consistentRead) {
+        return enrollments;
+      }
+
+      return (await getEnrollmentsByIds(enrollments.map(enrollment => enrollment.id)))
+        .filter(enrollment => enrollment.status !== 'dropped');
+    },
+
+    async listEnrollmentsByClass(classId, statuses, options: ReadOptions = {}) {
+      const statusValues = Object.fromEntries(statuses.map((status, i) => [`:s${i}`, status]));
+
+      const enrollments = await queryAll<Enrollment>({
+        TableName: tables().enrollments,
+        IndexName: 'ClassIdIndex',
+        KeyConditionExpression: 'classId = :classId',
+        FilterExpression: `#status IN (${Object.keys(statusValues).join(', ')})`,
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':classId': classId, ...statusValues },
+      });
+
+      if (!options.consistentRead) {
+        return enrollments;
+      }
+
+      const current = await getEnrollmentsByIds(enrollments.map(enrollment => enrollment.id));
+      return current.filter(enrollment => statuses.includes(enrollment.status));
+    },
+
+    async enroll(enrollment) {
+      try {
+        // The enrollment record and the seat counter change together, so
+        // concurrent requests can never overbook a class
+        await putEnrollmentWithClassItem(enrollment, {
+          Update: {
+            TableName: tables().classes,
+            Key: { id: enrollment.classId },
+            UpdateExpression: 'SET currentEnrollment = currentEnrollment + :one, updatedAt = :now',
+            // Only take a seat if one is free, and never in a class cancelled
+            // since the enrollment was validated
+            ConditionExpression: `attribute_exists(id) AND currentEnrollment < capacity AND ${NOT_CANCELLED}`,
+            ExpressionAttributeNames: { '#status': 'status' },
+            ExpressionAttributeValues: { ':one': 1, ':now': enrollment.enrolledAt, ':cancelled': 'cancelled' },
+          },
+        });
+      } catch (error) {
+        const failedItems = getFailedTransactionItems(error);
+
+        if (failedItems.includes(0)) {
+          throw new Error('User is already enrolled in this class');
+        }
+
+        if (failedItems.includes(1)) {
+          if ((await adapter.getClass(enrollment.classId))?.status === 'cancelled') {
+            throw new ConflictError('This class has been cancelled');
+          }
+
+          throw new ClassFullError();
+        }
+
+        throw error;
+      }
+    },
+
+    async joinWaitlist(enrollment) {
+      try {
+        await putEnrollmentWithClassItem(enrollment, {
+          ConditionCheck: {
+            TableName: tables().classes,
+            Key: { id: enrollment.classId },
+            ConditionExpression: `attribute_exists(id) AND currentEnrollment >= capacity AND ${NOT_CANCELLED}`,
+            ExpressionAttributeNames: { '#status': 'status' },
+            ExpressionAttributeValues: { ':cancelled': 'cancelled' },
+          },
+        });
+      } catch (error) {
+        const failedItems = getFailedTransactionItems(error);
+
+        if (failedItems.includes(0)) {
+          throw new ConflictError('You are already enrolled or waitlisted in this class');
+        }
+
+        if (failedItems.includes(1)) {
+          if ((await adapter.getClass(enrollment.classId))?.status === 'cancelled') {
+            throw new ConflictError('This class has been cancelled');
+          }
+
+          throw new ConflictError('This class has open seats');
+        }
+
+        throw error;
+      }
+    },
+
+    async drop(enrollment, dropStatus) {
+      const now = new Date().toISOString();
+      const dropItem = buildDropItem(enrollment, now, dropStatus);
+
+      if (enrollment.status !== 'active') {
+        try {
+          await db().send(new TransactWriteCommand({ TransactItems: [dropItem] }));
+          return;
+        } catch (error) {
+          if (getFailedTransactionItems(error).includes(0)) {
+            throw new NotFoundError('Enrollment not found');
+          }
+          throw error;
+        }
+      }
+
+      try {
+        await db().send(new TransactWriteCommand({
+          TransactItems: [
+            dropItem,
+            {
+              Update: {
+                TableName: tables().classes,
+                Key: { id: enrollment.classId },
+                UpdateExpression: 'SET currentEnrollment = currentEnrollment - :one, updatedAt = :now',
+                // Never let the seat counter go negative
+                ConditionExpression: 'attribute_exists(id) AND currentEnrollment > :zero',
+                ExpressionAttributeValues: { ':one': 1, ':zero': 0, ':now': now },
+              },
+            },
+          ],
+        }));
+      } catch (error) {
+        const failedItems = getFailedTransactionItems(error);
+
+        if (failedItems.includes(0)) {
+          throw new NotFoundError('Enrollment not found');
+        }
+
+        if (!failedItems.includes(1)) {
+          throw error;
+        }
+
+        // Enrollments written before seat counting existed have no seat to
+        // release; drop them without touching the counter
+        console.warn(`Seat counter for class ${enrollment.classId} is out of sync; dropping without release`);
+        await db().send(new TransactWriteCommand({ TransactItems: [dropItem] }));
+      }
+    },
+
+    async transferSeat(enrollment, next, dropStatus) {
+      const now = new Date().toISOString();
+
+      try {
+        // The seat changes hands, so the class counter stays the same
+        await db().send(new TransactWriteCommand({
+          TransactItems: [
+            buildDropItem(enrollment, now, dropStatus),
+            buildPromoteItem(next, now),
+          ],
+        }));
+
+        return true;
+      } catch (error) {
+        const failedItems = getFailedTransactionItems(error);
+
+        if (failedItems.includes(0)) {
+          throw new NotFoundError('Enrollment not found');
+        }
+
+        if (failedItems.includes(1)) {
+          return false;
+        }
+
+        throw error;
+      }
+    },
+
+    async promoteIntoOpenSeat(next): Promise<PromotionResult> {
+      const now = new Date().toISOString();
+
+      try {
+        await db().send(new TransactWriteCommand({
+          TransactItems: [
+            {
+              Update: {
+                TableName: tables().classes,
+                Key: { id: next.classId },
+                UpdateExpression: 'SET currentEnrollment = currentEnrollment + :one, updatedAt = :now',
+                ConditionExpression: 'currentEnrollment < capacity',
+                ExpressionAttributeValues: { ':one': 1, ':now': now },
+              },
+            },
+            buildPromoteItem(next, now),
+          ],
+        }));
+
+        return 'promoted';
+      } catch (error) {
+        const failedItems = getFailedTransactionItems(error);
+
+        if (failedItems.includes(0)) {
+          return 'full';
+        }
+
+        if (failedItems.includes(1)) {
+          return 'stale';
+        }
+
+        throw error;
+      }
+    },
+
+    async listAllEnrollments() {
+      return scanAll<Enrollment>({ TableName: tables().enrollments });
+    },
+
+    async getCart(email, termId) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().carts,
+        Key: { email, termId },
+        // The cart is read back straight after every change
+        ConsistentRead: true,
+      }));
+
+      return (result.Item as Cart) || null;
+    },
+
+    async putCart(cart) {
+      await db().send(new PutCommand({
+        TableName: tables().carts,
+        Item: cart,
+      }));
+
+      return cart;
+    },
+
+    async deleteCart(email, termId) {
+      await db().send(new DeleteCommand({
+        TableName: tables().carts,
+        Key: { email, termId },
+      }));
+    },
+
+    async getOverloadRequest(email, termId) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().overloadRequests,
+        Key: { email, termId },
+        ConsistentRead: true,
+      }));
+
+      return (result.Item as OverloadRequest) || null;
+    },
+
+    async putOverloadRequest(request) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().overloadRequests,
+          Item: request,
+          // Only a denied request may be replaced by a new one
+          ConditionExpression: 'attribute_not_exists(email) OR #status = :denied',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':denied': 'denied' },
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('You already have an overload request for this term');
+        }
+        throw error;
+      }
+
+      return request;
+    },
+
+    async listOverloadRequests(status) {
+      return queryAll<OverloadRequest>({
+        TableName: tables().overloadRequests,
+        IndexName: 'StatusIndex',
+        KeyConditionExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status },
+        ScanIndexForward: true, // Oldest first
+      });
+    },
+
+    async reviewOverloadRequest(email, termId, review) {
+      const fields: [string, unknown][] = Object.entries(review).filter(([, value]) => value !== undefined);
+      fields.push(['updatedAt', review.reviewedAt]);
+
+      try {
+        const result = await db().send(new UpdateCommand({
+          TableName: tables().overloadRequests,
+          Key: { email, termId },
+          UpdateExpression: `SET ${fields.map((_, i) => `#f${i} = :v${i}`).join(', ')}`,
+          // Decide each request once
+          ConditionExpression: 'attribute_exists(email) AND #status = :pending',
+          ExpressionAttributeNames: {
+            ...Object.fromEntries(fields.map(([name], i) => [`#f${i}`, name])),
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ...Object.fromEntries(fields.map(([, value], i) => [`:v${i}`, value])),
+            ':pending': 'pending',
+          },
+          ReturnValues: 'ALL_NEW',
+        }));
+
+        return result.Attributes as OverloadRequest;
+      } catch (error) {
+        if (!isConditionalCheckFailure(error)) {
+          throw error;
+        }
+
+        if (!(await adapter.getOverloadRequest(email, termId))) {
+          throw new NotFoundError('Overload request not found');
+        }
+
+        throw new ConflictError('This request has already been reviewed');
+      }
+    },
+
+    async putPasswordResetToken(token: PasswordResetToken) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().passwordResetTokens,
+          Item: token,
+          ConditionExpression: 'attribute_not_exists(tokenHash)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('Password reset token already exists');
+        }
+        throw error;
+      }
+    },
+
+    async redeemPasswordResetToken(tokenHash: string, usedAt: string) {
+      try {
+        const result = await db().send(new UpdateCommand({
+          TableName: tables().passwordResetTokens,
+          Key: { tokenHash },
+          UpdateExpression: 'SET usedAt = :usedAt',
+          // Redeem each token once, and only before it expires
+          ConditionExpression: 'attribute_exists(tokenHash) AND attribute_not_exists(usedAt) AND expiresAt > :usedAt',
+          ExpressionAttributeValues: { ':usedAt': usedAt },
+          ReturnValues: 'ALL_NEW',
+        }));
+
+        return result.Attributes as PasswordResetToken;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async putSession(session: UserSession) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().sessions,
+          Item: session,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('Session already exists');
+        }
+        throw error;
+      }
+    },
+
+    async getSession(sessionId: string) {
+      const result = await db().send(new GetCommand({
+        TableName: tables().sessions,
+        Key: { id: sessionId },
+      }));
+
+      return (result.Item as UserSession) || null;
+    },
+
+    async listSessionsByEmail(email: string) {
+      return queryAll<UserSession>({
+        TableName: tables().sessions,
+        IndexName: 'EmailIndex',
+        KeyConditionExpression: 'email = :email',
+        ExpressionAttributeValues: { ':email': email },
+        ScanIndexForward: false, // Newest first
+      });
+    },
+
+    async touchSession(sessionId: string, activity: Pick<UserSession, 'lastSeenAt' | 'expiresAt' | 'purgeAt'>) {
+      try {
+        await db().send(new UpdateCommand({
+          TableName: tables().sessions,
+          Key: { id: sessionId },
+          UpdateExpression: 'SET lastSeenAt = :lastSeenAt, expiresAt = :expiresAt, purgeAt = :purgeAt',
+          // Never recreate a removed session or extend a revoked one
+          ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(revokedAt)',
+          ExpressionAttributeValues: {
+            ':lastSeenAt': activity.lastSeenAt,
+            ':expiresAt': activity.expiresAt,
+            ':purgeAt': activity.purgeAt,
+          },
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return;
+        }
+        throw error;
+      }
+    },
+
+    async revokeSession(sessionId: string, revokedAt: string) {
+      try {
+        await db().send(new UpdateCommand({
+          TableName: tables().sessions,
+          Key: { id: sessionId },
+          UpdateExpression: 'SET revokedAt = :revokedAt',
+          ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(revokedAt)',
+          ExpressionAttributeValues: { ':revokedAt': revokedAt },
+        }));
+
+        return true;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async setSessionImpersonation(
+      sessionId: string,
+      impersonation: Required<Pick<UserSession, 'impersonating' | 'impersonationStartedAt'>> | null
+    ) {
+      try {
+        await db().send(new UpdateCommand({
+          TableName: tables().sessions,
+          Key: { id: sessionId },
+          UpdateExpression: impersonation
+            ? 'SET impersonating = :impersonating, impersonationStartedAt = :startedAt'
+            : 'REMOVE impersonating, impersonationStartedAt',
+          ConditionExpression: 'attribute_exists(id) AND attribute_not_exists(revokedAt)',
+          ...(impersonation && {
+            ExpressionAttributeValues: {
+              ':impersonating': impersonation.impersonating,
+              ':startedAt': impersonation.impersonationStartedAt,
+            },
+          }),
+        }));
+
+        return true;
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async appendAuditEntry(entry: AuditEntry) {
+      try {
+        await db().send(new PutCommand({
+          TableName: tables().audit,
+          Item: entry,
+          // Entries are never overwritten
+          ConditionExpression: 'attribute_not_exists(id)',
+        }));
+      } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+          throw new ConflictError('Audit entry already exists');
+        }
+        throw error;
+      }
+    },
+
+    async listAuditEntries(entityId: string, range: AuditRange = {}) {
+      const timeCondition = range.from && range.to
+        ? ' AND #timestamp BETWEEN :from AND :to'
+        : range.from
+          ? ' AND #timestamp >= :from'
+          : range.to
+            ? ' AND #timestamp <= :to'
+            : '';
+
+      return queryAll<AuditEntry>({
+        TableName: tables().audit,
+        IndexName: 'EntityIndex',
+        KeyConditionExpression: `entityId = :entityId${timeCondition}`,
+        ...(timeCondition && { ExpressionAttributeNames: { '#timestamp': 'timestamp' } }),
+        ExpressionAttributeValues: {
+          ':entityId': entityId,
+          ...(range.from && { ':from': range.from }),
+          ...(range.to && { ':to': range.to }),
+        },
+        ScanIndexForward: true, // Oldest first
+      });
+    },
+  };
+
+  return adapter;
+}
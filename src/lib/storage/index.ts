@@ -0,0 +1,50 @@
+/**
+ * Storage backend selection
+ *
+ * STORAGE_BACKEND picks the adapter: 'dynamodb' (default) or 'memory' for
+ * running the app and tests without AWS.
+ */
+
+import { createDynamoDBStorage } from './dynamodb';
+import { createMemoryStorage } from './memory';
+import type { StorageAdapter, StorageBackend } from './types';
+
+export type {
+  AuditRange,
+  DropStatus,
+  OptionalUserField,
+  PromotionResult,
+  ReadOptions,
+  StorageAdapter,
+  StorageBackend
+} from './types';
+
+const STORAGE_BACKENDS: StorageBackend[] = ['dynamodb', 'memory'];
+
+let storage: StorageAdapter | null = null;
+
+/**
+ * Read the configured backend
+ * @throws Error if STORAGE_BACKEND names an unknown backend
+ */
+export function getStorageBackend(): StorageBackend {
+  const backend = (process.env.STORAGE_BACKEND || 'dynamodb').toLowerCase();
+
+  if (!(STORAGE_BACKENDS as string[]).includes(backend)) {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend}. Expected one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+
+  return backend as StorageBackend;
+}
+
+/**
+ * Get the storage adapter for the configured backend, creating it on first call
+ */
+export function getStorage(): StorageAdapter {
+  if (!storage) {
+    storage = getStorageBackend() === 'memory' ? createMemoryStorage() : createDynamoDBStorage();
+    console.log(`Storage backend: ${storage.backend}`);
+  }
+
+  return storage;
+}
@@ -0,0 +1,553 @@
+/**
+ * In-memory storage adapter
+ *
+ * For local development and tests without AWS. Starts from the seed catalog
+ * and keeps data for the life of the process only. Node runs one callback at
+ * a time, so each method's check-then-write is atomic like its DynamoDB
+ * counterpart.
+ *
+ * Records are copied in and out so callers can never change stored data
+ * without going through the adapter.
+ */
+
+import { ClassFullError, ConflictError, NotFoundError } from '../db-errors';
+import { parseSchedule } from '../schedule';
+import { SEED_CLASSES, SEED_TERMS } from '../seed-data';
+import type {
+  AuditEntry,
+  Cart,
+  Class,
+  CompletedCourse,
+  Enrollment,
+  OverloadRequest,
+  PasswordResetToken,
+  Term,
+  User,
+  UserSession
+} from '../../types';
+import type { DropStatus, StorageAdapter } from './types';
+
+interface MemoryStore {
+  users: Map<string, User>;
+  classes: Map<string, Class>;
+  terms: Map<string, Term>;
+  completedCourses: Map<string, CompletedCourse>;
+  enrollments: Map<string, Enrollment>;
+  carts: Map<string, Cart>;
+  overloadRequests: Map<string, OverloadRequest>;
+  passwordResetTokens: Map<string, PasswordResetToken>;
+  sessions: Map<string, UserSession>;
+  auditLog: AuditEntry[];
+}
+
+// Survive module reloads in `next dev`, which would otherwise wipe the data
+const globalForStore = globalThis as typeof globalThis & { memoryStore?: MemoryStore };
+
+function createSeededStore(): MemoryStore {
+  const now = new Date().toISOString();
+
+  return {
+    users: new Map(),
+    classes: new Map(SEED_CLASSES.map(seedClass => [seedClass.id, {
+      ...seedClass,
+      meetings: seedClass.meetings ?? parseSchedule(seedClass.schedule),
+      createdAt: now,
+      updatedAt: now,
+    }])),
+    terms: new Map(SEED_TERMS.map(seedTerm => [seedTerm.id, { ...seedTerm, createdAt: now, updatedAt: now }])),
+    completedCourses: new Map(),
+    enrollments: new Map(),
+    carts: new Map(),
+    overloadRequests: new Map(),
+    passwordResetTokens: new Map(),
+    sessions: new Map(),
+    auditLog: [],
+  };
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+/**
+ * Create the in-memory storage adapter over the process-wide store
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const data = (globalForStore.memoryStore ??= createSeededStore());
+
+  function requireClass(classId: string): Class {
+    const classItem = data.classes.get(classId);
+
+    if (!classItem) {
+      throw new NotFoundError('Class not found');
+    }
+
+    return classItem;
+  }
+
+  /**
+   * Whether an enrollment id is free to write: unused, or only a dropped record
+   */
+  function isEnrollmentSlotFree(enrollmentId: string): boolean {
+    const existing = data.enrollments.get(enrollmentId);
+    return !existing || existing.status === 'dropped';
+  }
+
+  /**
+   * Read the stored enrollment, failing if it left the status the caller saw
+   */
+  function requireEnrollmentInStatus(enrollment: Enrollment): Enrollment {
+    const stored = data.enrollments.get(enrollment.id);
+
+    if (!stored || stored.status !== enrollment.status) {
+      throw new NotFoundError('Enrollment not found');
+    }
+
+    return stored;
+  }
+
+  function applyDrop(stored: Enrollment, dropStatus: DropStatus, now: string): void {
+    stored.status = dropStatus;
+    stored.updatedAt = now;
+
+    if (dropStatus === 'withdrawn') {
+      stored.withdrawnAt = now;
+    }
+  }
+
+  function applyPromotion(stored: Enrollment, now: string): void {
+    stored.status = 'active';
+    stored.enrolledAt = now;
+    stored.promotedAt = now;
+    stored.updatedAt = now;
+  }
+
+  return {
+    backend: 'memory',
+
+    async createUser(user) {
+      if (data.users.has(user.email)) {
+        throw new ConflictError('User already exists');
+      }
+
+      data.users.set(user.email, copy(user));
+      return copy(user);
+    },
+
+    async getUser(email) {
+      const user = data.users.get(email);
+      return user ? copy(user) : null;
+    },
+
+    async updateUser(email, updates, remove = []) {
+      const user = data.users.get(email);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      const updated: User = { ...user, ...copy(defined), updatedAt: new Date().toISOString() };
+
+      for (const field of remove) {
+        delete updated[field];
+      }
+
+      data.users.set(email, updated);
+      return copy(updated);
+    },
+
+    async acceptTotpStep(email, step) {
+      const user = data.users.get(email);
+
+      if (!user?.totpSecret || (user.totpLastStep !== undefined && user.totpLastStep >= step)) {
+        return false;
+      }
+
+      user.totpLastStep = step;
+      return true;
+    },
+
+    async consumeRecoveryCode(email, codeHash) {
+      const user = data.users.get(email);
+      const index = user?.recoveryCodeHashes?.indexOf(codeHash) ?? -1;
+
+      if (!user?.recoveryCodeHashes || index === -1) {
+        return false;
+      }
+
+      user.recoveryCodeHashes.splice(index, 1);
+      return true;
+    },
+
+    async recordFailedLogin(email, at, since) {
+      const user = data.users.get(email);
+
+      if (!user) {
+        throw new NotFoundError('User not found');
+      }
+
+      const recent = user.lastFailedLoginAt !== undefined && user.lastFailedLoginAt >= since;
+      user.failedLoginCount = recent ? (user.failedLoginCount ?? 0) + 1 : 1;
+      user.lastFailedLoginAt = at;
+      user.updatedAt = at;
+
+      return copy(user);
+    },
+
+    async listLockedUsers(now) {
+      return [...data.users.values()]
+        .filter(user => user.lockedUntil !== undefined && user.lockedUntil > now)
+        .map(copy);
+    },
+
+    async listClasses() {
+      return [...data.classes.values()].map(copy);
+    },
+
+    async getClass(classId) {
+      const classItem = data.classes.get(classId);
+      return classItem ? copy(classItem) : null;
+    },
+
+    async createClass(classItem) {
+      if (data.classes.has(classItem.id)) {
+        throw new ConflictError('Class already exists');
+      }
+
+      data.classes.set(classItem.id, copy(classItem));
+      return copy(classItem);
+    },
+
+    async updateClass(classId, updates) {
+      const classItem = requireClass(classId);
+
+      // Never below the seats already taken
+      if (updates.capacity !== undefined && classItem.currentEnrollment > updates.capacity) {
+        throw new ConflictError(
+          `Capacity cannot be lower than current enrollment (${classItem.currentEnrollment})`
+        );
+      }
+
+      const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      const updated: Class = { ...classItem, ...copy(defined), updatedAt: new Date().toISOString() };
+
+      data.classes.set(classId, updated);
+      return copy(updated);
+    },
+
+    async deleteClass(classId) {
+      requireClass(classId);
+      data.classes.delete(classId);
+    },
+
+    async listTerms() {
+      return [...data.terms.values()].map(copy);
+    },
+
+    async getTerm(termId) {
+      const term = data.terms.get(termId);
+      return term ? copy(term) : null;
+    },
+
+    async createTerm(term) {
+      if (data.terms.has(term.id)) {
+        throw new ConflictError('Term already exists');
+      }
+
+      data.terms.set(term.id, copy(term));
+      return copy(term);
+    },
+
+    async updateTerm(termId, updates) {
+      const term = data.terms.get(termId);
+
+      if (!term) {
+        throw new NotFoundError('Term not found');
+      }
+
+      const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined));
+      const updated: Term = { ...term, ...copy(defined), updatedAt: new Date().toISOString() };
+
+      data.terms.set(termId, updated);
+      return copy(updated);
+    },
+
+    async listCompletedCourses(email) {
+      return [...data.completedCourses.values()]
+        .filter(record => record.email === email)
+        .map(copy);
+    },
+
+    async putCompletedCourse(record) {
+      data.completedCourses.set(`${record.email}#${record.courseCode}`, copy(record));
+      return copy(record);
+    },
+
+    async getEnrollment(enrollmentId) {
+      const enrollment = data.enrollments.get(enrollmentId);
+      return enrollment ? copy(enrollment) : null;
+    },
+
+    async listEnrollmentsByEmail(email) {
+      return [...data.enrollments.values()]
+        .filter(enrollment => enrollment.email === email && enrollment.status !== 'dropped')
+        .map(copy);
+    },
+
+    async listEnrollmentsByClass(classId, statuses) {
+      return [...data.enrollments.values()]
+        .filter(enrollment => enrollment.classId === classId && statuses.includes(enrollment.status))
+        .map(copy);
+    },
+
+    async enroll(enrollment) {
+      if (!isEnrollmentSlotFree(enrollment.id)) {
+        throw new Error('User is already enrolled in this class');
+      }
+
+      const classItem = data.classes.get(enrollment.classId);
+
+      if (classItem?.status === 'cancelled') {
+        throw new ConflictError('This class has been cancelled');
+      }
+
+      // Only take a seat if one is free
+      if (!classItem || classItem.currentEnrollment >= classItem.capacity) {
+        throw new ClassFullError();
+      }
+
+      classItem.currentEnrollment += 1;
+      classItem.updatedAt = enrollment.enrolledAt;
+      data.enrollments.set(enrollment.id, copy(enrollment));
+    },
+
+    async joinWaitlist(enrollment) {
+      if (!isEnrollmentSlotFree(enrollment.id)) {
+        throw new ConflictError('You are already enrolled or waitlisted in this class');
+      }
+
+      const classItem = data.classes.get(enrollment.classId);
+
+      if (classItem?.status === 'cancelled') {
+        throw new ConflictError('This class has been cancelled');
+      }
+
+      if (!classItem || classItem.currentEnrollment < classItem.capacity) {
+        throw new ConflictError('This class has open seats');
+      }
+
+      data.enrollments.set(enrollment.id, copy(enrollment));
+    },
+
+    async drop(enrollment, dropStatus) {
+      const stored = requireEnrollmentInStatus(enrollment);
+      const now = new Date().toISOString();
+
+      if (stored.status === 'active') {
+        const classItem = data.classes.get(stored.classId);
+
+        // Enrollments written before seat counting existed have no seat to
+        // release; drop them without touching the counter
+        if (classItem && classItem.currentEnrollment > 0) {
+          classItem.currentEnrollment -= 1;
+          classItem.updatedAt = now;
+        } else {
+          console.warn(`Seat counter for class ${stored.classId} is out of sync; dropping without release`);
+        }
+      }
+
+      applyDrop(stored, dropStatus, now);
+    },
+
+    async transferSeat(enrollment, next, dropStatus) {
+      const stored = requireEnrollmentInStatus(enrollment);
+      const storedNext = data.enrollments.get(next.id);
+
+      if (!storedNext || storedNext.status !== 'waitlisted') {
+        return false;
+      }
+
+      // The seat changes hands, so the class counter stays the same
+      const now = new Date().toISOString();
+      applyDrop(stored, dropStatus, now);
+      applyPromotion(storedNext, now);
+
+      return true;
+    },
+
+    async promoteIntoOpenSeat(next) {
+      const classItem = data.classes.get(next.classId);
+
+      if (!classItem || classItem.currentEnrollment >= classItem.capacity) {
+        return 'full';
+      }
+
+      const storedNext = data.enrollments.get(next.id);
+
+      if (!storedNext || storedNext.status !== 'waitlisted') {
+        return 'stale';
+      }
+
+      const now = new Date().toISOString();
+      classItem.currentEnrollment += 1;
+      classItem.updatedAt = now;
+      applyPromotion(storedNext, now);
+
+      return 'promoted';
+    },
+
+    async listAllEnrollments() {
+      return [...data.enrollments.values()].map(copy);
+    },
+
+    async getCart(email, termId) {
+      const cart = data.carts.get(`${email}#${termId}`);
+      return cart ? copy(cart) : null;
+    },
+
+    async putCart(cart) {
+      data.carts.set(`${cart.email}#${cart.termId}`, copy(cart));
+      return copy(cart);
+    },
+
+    async deleteCart(email, termId) {
+      data.carts.delete(`${email}#${termId}`);
+    },
+
+    async getOverloadRequest(email, termId) {
+      const request = data.overloadRequests.get(`${email}#${termId}`);
+      return request ? copy(request) : null;
+    },
+
+    async putOverloadRequest(request) {
+      const key = `${request.email}#${request.termId}`;
+      const existing = data.overloadRequests.get(key);
+
+      if (existing && existing.status !== 'denied') {
+        throw new ConflictError('You already have an overload request for this term');
+      }
+
+      data.overloadRequests.set(key, copy(request));
+      return copy(request);
+    },
+
+    async listOverloadRequests(status) {
+      return [...data.overloadRequests.values()]
+        .filter(request => request.status === status)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(copy);
+    },
+
+    async reviewOverloadRequest(email, termId, review) {
+      const request = data.overloadRequests.get(`${email}#${termId}`);
+
+      if (!request) {
+        throw new NotFoundError('Overload request not found');
+      }
+
+      if (request.status !== 'pending') {
+        throw new ConflictError('This request has already been reviewed');
+      }
+
+      const defined = Object.fromEntries(Object.entries(review).filter(([, value]) => value !== undefined));
+      Object.assign(request, defined, { updatedAt: review.reviewedAt });
+
+      return copy(request);
+    },
+
+    async putPasswordResetToken(token) {
+      if (data.passwordResetTokens.has(token.tokenHash)) {
+        throw new ConflictError('Password reset token already exists');
+      }
+
+      data.passwordResetTokens.set(token.tokenHash, copy(token));
+    },
+
+    async redeemPasswordResetToken(tokenHash, usedAt) {
+      const token = data.passwordResetTokens.get(tokenHash);
+
+      if (!token || token.usedAt || token.expiresAt <= usedAt) {
+        return null;
+      }
+
+      token.usedAt = usedAt;
+      return copy(token);
+    },
+
+    async putSession(session) {
+      if (data.sessions.has(session.id)) {
+        throw new ConflictError('Session already exists');
+      }
+
+      data.sessions.set(session.id, copy(session));
+    },
+
+    async getSession(sessionId) {
+      const session = data.sessions.get(sessionId);
+      return session ? copy(session) : null;
+    },
+
+    async listSessionsByEmail(email) {
+      return [...data.sessions.values()]
+        .filter(session => session.email === email)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(copy);
+    },
+
+    async touchSession(sessionId, activity) {
+      const session = data.sessions.get(sessionId);
+
+      if (session && !session.revokedAt) {
+        Object.assign(session, activity);
+      }
+    },
+
+    async revokeSession(sessionId, revokedAt) {
+      const session = data.sessions.get(sessionId);
+
+      if (!session || session.revokedAt) {
+        return false;
+      }
+
+      session.revokedAt = revokedAt;
+      return true;
+    },
+
+    async setSessionImpersonation(sessionId, impersonation) {
+      const session = data.sessions.get(sessionId);
+
+      if (!session || session.revokedAt) {
+        return false;
+      }
+
+      if (impersonation) {
+        Object.assign(session, impersonation);
+      } else {
+        delete session.impersonating;
+        delete session.impersonationStartedAt;
+      }
+
+      return true;
+    },
+
+    async appendAuditEntry(entry) {
+      if (data.auditLog.some(existing => existing.id === entry.id)) {
+        throw new ConflictError('Audit entry already exists');
+      }
+
+      data.auditLog.push(copy(entry));
+    },
+
+    async listAuditEntries(entityId, range = {}) {
+      return data.auditLog
+        .filter(entry =>
+          entry.entityId === entityId &&
+          (!range.from || entry.timestamp >= range.from) &&
+          (!range.to || entry.timestamp <= range.to)
+        )
+        .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+        .map(copy);
+    },
+  };
+}
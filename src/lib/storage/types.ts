@@ -0,0 +1,231 @@
+/**
+ * Storage adapter contract
+ *
+ * Every backend implements these primitives with the same semantics. Each
+ * method is atomic on its own: seat counts and enrollment records change
+ * together or not at all. Business rules built from several primitives
+ * (waitlist promotion loops, cancellation sweeps) live in db.ts so both
+ * backends share them.
+ *
+ * Errors are DatabaseError subclasses from db-errors.ts.
+ */
+
+import type {
+  AuditEntry,
+  Cart,
+  Class,
+  CompletedCourse,
+  Enrollment,
+  OverloadRequest,
+  OverloadStatus,
+  PasswordResetToken,
+  Term,
+  User,
+  UserSession
+} from '@/types';
+
+export type StorageBackend = 'dynamodb' | 'memory';
+
+/**
+ * Options for reads that may follow a write in the same flow
+ */
+export interface ReadOptions {
+  // Index queries are eventually consistent; this re-reads every hit from the
+  // base table so statuses are current. Records written moments ago may still
+  // be missing from the index; read those by key with getEnrollment.
+  consistentRead?: boolean;
+}
+
+/**
+ * How a drop is recorded: 'withdrawn' keeps a record on the transcript
+ */
+export type DropStatus = 'dropped' | 'withdrawn';
+
+/**
+ * Result of moving a waitlisted student into a seat
+ * - 'promoted': done
+ * - 'stale': the student is no longer waitlisted; pick the next one
+ * - 'full': no seat is free
+ */
+export type PromotionResult = 'promoted' | 'stale' | 'full';
+
+/**
+ * User attributes that may be missing, and so can be removed by updateUser
+ */
+export type OptionalUserField = Exclude<
+  keyof User,
+  'email' | 'name' | 'studentId' | 'role' | 'passwordHash' | 'createdAt' | 'updatedAt'
+>;
+
+/**
+ * Inclusive ISO 8601 time range for audit queries
+ */
+export interface AuditRange {
+  from?: string;
+  to?: string;
+}
+
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+
+  // Users
+
+  /** @throws ConflictError if a user with the email exists */
+  createUser(user: User): Promise<User>;
+  getUser(email: string): Promise<User | null>;
+  /**
+   * Set the given attributes and remove the `remove` ones
+   * @throws NotFoundError if the user does not exist
+   */
+  updateUser(
+    email: string,
+    updates: Partial<Omit<User, 'email' | 'createdAt'>>,
+    remove?: OptionalUserField[]
+  ): Promise<User>;
+  /**
+   * Record a TOTP time step as used. Returns false if two-factor sign-in is
+   * off, or this step or a later one was already accepted (a replayed code).
+   */
+  acceptTotpStep(email: string, step: number): Promise<boolean>;
+  /** Remove an unused recovery code; returns false if the user does not have it */
+  consumeRecoveryCode(email: string, codeHash: string): Promise<boolean>;
+  /**
+   * Count a failed sign-in at `at`. The count starts again at 1 if the
+   * previous failure was before `since`.
+   * @throws NotFoundError if the user does not exist
+   */
+  recordFailedLogin(email: string, at: string, since: string): Promise<User>;
+  /** Users whose lock lasts past `now` */
+  listLockedUsers(now: string): Promise<User[]>;
+
+  // Classes
+
+  listClasses(): Promise<Class[]>;
+  getClass(classId: string): Promise<Class | null>;
+  /** @throws ConflictError if a class with the id exists */
+  createClass(classItem: Class): Promise<Class>;
+  /**
+   * @throws NotFoundError if the class does not exist
+   * @throws ConflictError if a new capacity is below the current enrollment
+   */
+  updateClass(classId: string, updates: Partial<Omit<Class, 'id' | 'currentEnrollment' | 'createdAt'>>): Promise<Class>;
+  /** @throws NotFoundError if the class does not exist */
+  deleteClass(classId: string): Promise<void>;
+
+  // Terms
+
+  listTerms(): Promise<Term[]>;
+  getTerm(termId: string): Promise<Term | null>;
+  /** @throws ConflictError if a term with the id exists */
+  createTerm(term: Term): Promise<Term>;
+  /** @throws NotFoundError if the term does not exist */
+  updateTerm(termId: string, updates: Partial<Omit<Term, 'id' | 'createdAt'>>): Promise<Term>;
+
+  // Completed courses
+
+  listCompletedCourses(email: string): Promise<CompletedCourse[]>;
+  /** Replaces an earlier record of the same course */
+  putCompletedCourse(record: CompletedCourse): Promise<CompletedCourse>;
+
+  // Enrollments
+
+  getEnrollment(enrollmentId: string): Promise<Enrollment | null>;
+  /** Enrollments in every status except 'dropped' */
+  listEnrollmentsByEmail(email: string, options?: ReadOptions): Promise<Enrollment[]>;
+  listEnrollmentsByClass(classId: string, statuses: Enrollment['status'][], options?: ReadOptions): Promise<Enrollment[]>;
+  /**
+   * Write an active enrollment and take a seat
+   * @throws Error('User is already enrolled in this class') if a live record exists
+   * @throws ClassFullError if no seat is free
+   */
+  enroll(enrollment: Enrollment): Promise<void>;
+  /**
+   * Write a waitlisted enrollment while the class is full
+   * @throws ConflictError if a live record exists or the class has open seats
+   */
+  joinWaitlist(enrollment: Enrollment): Promise<void>;
+  /**
+   * Move an enrollment to a drop status, releasing its seat if it held one
+   * @throws NotFoundError if the enrollment is no longer in its given status
+   */
+  drop(enrollment: Enrollment, dropStatus: DropStatus): Promise<void>;
+  /**
+   * Drop an active enrollment and give its seat to a waitlisted one
+   * @returns false if `next` is no longer waitlisted (nothing changed)
+   * @throws NotFoundError if `enrollment` is no longer active
+   */
+  transferSeat(enrollment: Enrollment, next: Enrollment, dropStatus: DropStatus): Promise<boolean>;
+  /** Move a waitlisted enrollment into a free seat */
+  promoteIntoOpenSeat(next: Enrollment): Promise<PromotionResult>;
+  /** Every enrollment record; for debugging only */
+  listAllEnrollments(): Promise<Enrollment[]>;
+
+  // Registration carts
+
+  getCart(email: string, termId: string): Promise<Cart | null>;
+  /** Replaces the stored cart */
+  putCart(cart: Cart): Promise<Cart>;
+  /** No-op if there is no cart */
+  deleteCart(email: string, termId: string): Promise<void>;
+
+  // Credit overload requests
+
+  getOverloadRequest(email: string, termId: string): Promise<OverloadRequest | null>;
+  /**
+   * File a request, replacing a denied one for the same term
+   * @throws ConflictError if a pending or approved request exists
+   */
+  putOverloadRequest(request: OverloadRequest): Promise<OverloadRequest>;
+  /** Requests in a status, oldest first */
+  listOverloadRequests(status: OverloadStatus): Promise<OverloadRequest[]>;
+  /**
+   * Record the decision on a pending request
+   * @throws NotFoundError if there is no request
+   * @throws ConflictError if the request was already reviewed
+   */
+  reviewOverloadRequest(
+    email: string,
+    termId: string,
+    review: Pick<OverloadRequest, 'status' | 'reviewedBy' | 'reviewedAt' | 'reviewNote'>
+  ): Promise<OverloadRequest>;
+
+  // Password reset tokens
+
+  /** @throws ConflictError if a token with the hash exists */
+  putPasswordResetToken(token: PasswordResetToken): Promise<void>;
+  /**
+   * Redeem a token: marks it used if it is unused and unexpired at usedAt
+   * @returns The redeemed token, or null if it is unknown, used or expired
+   */
+  redeemPasswordResetToken(tokenHash: string, usedAt: string): Promise<PasswordResetToken | null>;
+
+  // Sign-in sessions
+
+  /** @throws ConflictError if a session with the id exists */
+  putSession(session: UserSession): Promise<void>;
+  getSession(sessionId: string): Promise<UserSession | null>;
+  /** A user's sessions, newest first, including ended ones */
+  listSessionsByEmail(email: string): Promise<UserSession[]>;
+  /** Record activity on a session; no-op if it is missing or revoked */
+  touchSession(sessionId: string, activity: Pick<UserSession, 'lastSeenAt' | 'expiresAt' | 'purgeAt'>): Promise<void>;
+  /**
+   * End a session
+   * @returns false if there is no such session or it was already revoked
+   */
+  revokeSession(sessionId: string, revokedAt: string): Promise<boolean>;
+  /**
+   * Start viewing as another user on a session, or stop with null
+   * @returns false if there is no such session or it was revoked
+   */
+  setSessionImpersonation(
+    sessionId: string,
+    impersonation: Required<Pick<UserSession, 'impersonating' | 'impersonationStartedAt'>> | null
+  ): Promise<boolean>;
+
+  // Audit log
+
+  /** @throws ConflictError if an entry with the id exists */
+  appendAuditEntry(entry: AuditEntry): Promise<void>;
+  /** Entries for one entity, oldest first, optionally within [from, to] */
+  listAuditEntries(entityId: string, range?: AuditRange): Promise<AuditEntry[]>;
+}
@@ -0,0 +1,60 @@
+/**
+ * Academic term calendar rules
+ *
+ * Pure functions that decide what a student may do at a given moment of a
+ * term: register, drop, withdraw, or nothing at all.
+ */
+
+import { formatDate } from './utils';
+import type { Term } from '@/types';
+
+export type RegistrationStatus = 'not_open' | 'open' | 'closed';
+
+/**
+ * What happens to an active enrollment that is dropped at a given time
+ * - 'dropped': before the add/drop deadline, leaves no record
+ * - 'withdrawn': after add/drop, recorded as a withdrawal
+ * - 'closed': after the withdrawal deadline, not allowed
+ */
+export type DropOutcome = 'dropped' | 'withdrawn' | 'closed';
+
+/**
+ * Where a term's registration window stands at a given time
+ */
+export function getRegistrationStatus(term: Term, now: Date = new Date()): RegistrationStatus {
+  if (now < new Date(term.registrationOpensAt)) {
+    return 'not_open';
+  }
+
+  if (now > new Date(term.registrationClosesAt)) {
+    return 'closed';
+  }
+
+  return 'open';
+}
+
+/**
+ * Decide how a drop of an active enrollment is recorded at a given time
+ */
+export function getDropOutcome(term: Term, now: Date = new Date()): DropOutcome {
+  if (now <= new Date(term.addDropDeadline)) {
+    return 'dropped';
+  }
+
+  if (now <= new Date(term.withdrawalDeadline)) {
+    return 'withdrawn';
+  }
+
+  return 'closed';
+}
+
+/**
+ * Explain why registration is unavailable, for error messages
+ */
+export function describeRegistrationWindow(term: Term, status: RegistrationStatus): string {
+  if (status === 'not_open') {
+    return `Registration for ${term.name} opens on ${formatDate(term.registrationOpensAt)}`;
+  }
+
+  return `Registration for ${term.name} closed on ${formatDate(term.registrationClosesAt)}`;
+}
@@ -0,0 +1,279 @@
+/**
+ * Two-factor sign-in
+ *
+ * Users can add a TOTP authenticator app to their account. Setup stores a
+ * pending secret and only turns two-factor sign-in on once the app produces a
+ * valid code. Secrets are encrypted with a key derived from NEXTAUTH_SECRET,
+ * and each user gets one-time recovery codes, stored only as hashes, for when
+ * the app is lost. Roles listed in TWO_FACTOR_REQUIRED_ROLES must set it up.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt } from 'crypto';
+import QRCode from 'qrcode';
+import {
+  acceptTotpStep,
+  consumeRecoveryCode,
+  disableTwoFactor,
+  enableTwoFactor,
+  getUserByEmail,
+  replaceRecoveryCodes,
+  setPendingTotpSecret
+} from './db';
+import { ConflictError, NotFoundError, ValidationError } from './db-errors';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from './totp';
+import { APP_CONFIG, TOTP_CONFIG, USER_ROLES } from './constants';
+import type { User, UserRole } from '@/types';
+
+const INVALID_CODE_MESSAGE = 'That code is not valid. Please try again.';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // No look-alike characters
+
+export interface TwoFactorSetup {
+  secret: string; // Base32, for typing into the app by hand
+  otpauthUri: string;
+  qrCode: string; // PNG data URL of the otpauth URI
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean; // The user's role must use two-factor sign-in
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Get the roles that must use two-factor sign-in
+ *
+ * @returns UserRole[] - Valid roles from TWO_FACTOR_REQUIRED_ROLES; empty means none
+ */
+export function getTwoFactorRequiredRoles(): UserRole[] {
+  const roles = Object.values(USER_ROLES) as string[];
+
+  return (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+    .split(',')
+    .map(role => role.trim().toLowerCase())
+    .filter((role): role is UserRole => roles.includes(role));
+}
+
+/**
+ * SECURITY: Check whether a role must use two-factor sign-in
+ */
+export function isTwoFactorRequired(role: UserRole): boolean {
+  return getTwoFactorRequiredRoles().includes(role);
+}
+
+/**
+ * SECURITY: Derive the key that encrypts TOTP secrets at rest
+ */
+function secretKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET;
+
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is required to encrypt two-factor secrets');
+  }
+
+  return createHash('sha256').update(`totp-secret:${secret}`).digest();
+}
+
+/**
+ * SECURITY: Encrypt a TOTP secret with AES-256-GCM
+ *
+ * @returns string - `<iv>.<tag>.<ciphertext>`, each base64url
+ */
+function encryptTotpSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', secretKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * SECURITY: Decrypt a TOTP secret stored by encryptTotpSecret
+ *
+ * @throws Error if the value was altered or encrypted with another key
+ */
+function decryptTotpSecret(stored: string): string {
+  const [iv, tag, ciphertext] = stored.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', secretKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * SECURITY: Hash a recovery code for storage and lookup
+ * Case, spaces and dashes are ignored, so codes can be typed loosely
+ */
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+/**
+ * SECURITY: Generate one-time recovery codes, formatted as `xxxxx-xxxxx`
+ */
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: TOTP_CONFIG.RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+  });
+}
+
+/**
+ * Summarize a user's two-factor settings for display
+ */
+export function getTwoFactorStatus(user: User): TwoFactorStatus {
+  return {
+    enabled: !!user.totpEnabledAt,
+    required: isTwoFactorRequired(user.role),
+    recoveryCodesRemaining: user.recoveryCodeHashes?.length ?? 0,
+  };
+}
+
+/**
+ * Load a user or fail
+ */
+async function requireUser(email: string): Promise<User> {
+  const user = await getUserByEmail(email);
+
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  return user;
+}
+
+/**
+ * SECURITY: Start two-factor setup with a new secret
+ *
+ * @param email - User setting up two-factor sign-in
+ * @returns Promise<TwoFactorSetup> - Secret and QR code for the authenticator app
+ * @throws ConflictError if two-factor sign-in is already on
+ */
+export async function beginTwoFactorSetup(email: string): Promise<TwoFactorSetup> {
+  const user = await requireUser(email);
+
+  if (user.totpEnabledAt) {
+    throw new ConflictError('Two-factor sign-in is already on');
+  }
+
+  const secret = generateTotpSecret();
+  await setPendingTotpSecret(user.email, encryptTotpSecret(secret));
+
+  const otpauthUri = buildOtpauthUri(secret, user.email, APP_CONFIG.name);
+
+  return {
+    secret,
+    otpauthUri,
+    qrCode: await QRCode.toDataURL(otpauthUri),
+  };
+}
+
+/**
+ * SECURITY: Finish setup with a code from the app and turn two-factor sign-in on
+ *
+ * @param email - User setting up two-factor sign-in
+ * @param code - Current code from the authenticator app
+ * @returns Promise<string[]> - Recovery codes; shown once and never stored in plain text
+ * @throws ValidationError if setup was not started or the code is wrong
+ */
+export async function confirmTwoFactorSetup(email: string, code: string): Promise<string[]> {
+  const user = await requireUser(email);
+
+  if (user.totpEnabledAt) {
+    throw new ConflictError('Two-factor sign-in is already on');
+  }
+
+  if (!user.totpPendingSecret) {
+    throw new ValidationError('Start two-factor setup first');
+  }
+
+  const step = verifyTotp(decryptTotpSecret(user.totpPendingSecret), code);
+
+  if (step === null) {
+    throw new ValidationError(INVALID_CODE_MESSAGE);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await enableTwoFactor(user.email, user.totpPendingSecret, step, recoveryCodes.map(hashRecoveryCode));
+
+  return recoveryCodes;
+}
+
+/**
+ * SECURITY: Check a sign-in code, either from the app or a recovery code
+ *
+ * Each code works once: app codes are tied to their time step, and recovery
+ * codes are removed when used.
+ *
+ * @param user - User signing in, with two-factor sign-in on
+ * @param code - Code the user entered
+ * @returns Promise<boolean> - True if the code is valid and unused
+ */
+export async function verifySecondFactor(user: User, code: string): Promise<boolean> {
+  if (!user.totpSecret) {
+    return false;
+  }
+
+  const step = verifyTotp(decryptTotpSecret(user.totpSecret), code.trim());
+
+  if (step !== null) {
+    return acceptTotpStep(user.email, step);
+  }
+
+  const used = await consumeRecoveryCode(user.email, hashRecoveryCode(code));
+
+  if (used) {
+    console.log(`Recovery code used by ${user.email}`);
+  }
+
+  return used;
+}
+
+/**
+ * SECURITY: Turn two-factor sign-in off after checking a current code
+ *
+ * @param email - User turning it off
+ * @param code - Code from the app or a recovery code
+ * @throws ValidationError if it is off, required for the role, or the code is wrong
+ */
+export async function turnOffTwoFactor(email: string, code: string): Promise<void> {
+  const user = await requireUser(email);
+
+  if (!user.totpEnabledAt) {
+    throw new ValidationError('Two-factor sign-in is not on');
+  }
+
+  if (isTwoFactorRequired(user.role)) {
+    throw new ValidationError('Your role requires two-factor sign-in');
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError(INVALID_CODE_MESSAGE);
+  }
+
+  await disableTwoFactor(user.email);
+}
+
+/**
+ * SECURITY: Replace the recovery codes after checking a current code
+ *
+ * @param email - User asking for new codes
+ * @param code - Code from the app or a recovery code
+ * @returns Promise<string[]> - New recovery codes; the old ones stop working
+ * @throws ValidationError if two-factor sign-in is off or the code is wrong
+ */
+export async function regenerateRecoveryCodes(email: string, code: string): Promise<string[]> {
+  const user = await requireUser(email);
+
+  if (!user.totpEnabledAt) {
+    throw new ValidationError('Two-factor sign-in is not on');
+  }
+
+  if (!(await verifySecondFactor(user, code))) {
+    throw new ValidationError(INVALID_CODE_MESSAGE);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await replaceRecoveryCodes(user.email, recoveryCodes.map(hashRecoveryCode));
+
+  return recoveryCodes;
+}
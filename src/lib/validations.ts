@@ -10,7 +10,9 @@
  */
 
 import { z } from 'zod';
-import { VALIDATION_RULES } from './constants';
+import { VALIDATION_RULES, STUDENT_CATEGORIES, MAX_OVERLOAD_CREDITS } from './constants';
+import { parseSchedule } from './schedule';
+import type { CourseRequirement } from '@/types';
 
 /**
  * SECURITY: Email validation schema
@@ -74,6 +76,14 @@ export const classIdSchema = z
   .min(1, 'Class ID is required')
   .max(50, 'Class ID is too long');
 
+/**
+ * SECURITY: Term ID validation schema
+ */
+export const termIdSchema = z
+  .string()
+  .min(1, 'Term ID is required')
+  .max(50, 'Term ID is too long');
+
 /**
  * SECURITY: User registration validation schema
  * Combines all user input fields with proper validation
@@ -94,16 +104,334 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 });
 
+/**
+ * SECURITY: Forgot password validation schema
+ */
+export const forgotPasswordSchema = z.object({
+  email: emailSchema,
+});
+
+/**
+ * SECURITY: Resend verification email validation schema
+ */
+export const resendVerificationSchema = z.object({
+  email: emailSchema,
+});
+
+/**
+ * SECURITY: Email verification link validation schema
+ * The token is a base64url payload and signature joined by a dot
+ */
+export const verifyEmailSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Verification token is required')
+    .max(500, 'Invalid verification token')
+    .regex(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/, 'Invalid verification token'),
+});
+
+/**
+ * SECURITY: Profile update validation schema
+ * - Users may change their name and contact preferences
+ * - A new password needs the current one and follows the registration rules
+ */
+export const profileUpdateSchema = z
+  .object({
+    name: nameSchema.optional(),
+    contactPreferences: z
+      .object({
+        classChanges: z.boolean().optional(),
+        overloadDecisions: z.boolean().optional(),
+      })
+      .strict()
+      .optional(),
+    currentPassword: z
+      .string()
+      .min(1, 'Current password is required')
+      .max(VALIDATION_RULES.PASSWORD_MAX_LENGTH, 'Current password is too long')
+      .optional(),
+    newPassword: passwordSchema.optional(),
+  })
+  .strict()
+  .refine(data => data.name !== undefined || data.contactPreferences !== undefined || data.newPassword !== undefined, {
+    message: 'No fields to update',
+  })
+  .refine(data => !data.newPassword || data.currentPassword, {
+    message: 'Current password is required to change your password',
+    path: ['currentPassword'],
+  });
+
+/**
+ * SECURITY: Two-factor code validation schema
+ * Either a 6-digit code from the authenticator app or a recovery code
+ */
+export const twoFactorCodeSchema = z
+  .string()
+  .trim()
+  .min(1, 'Authentication code is required')
+  .max(20, 'Invalid authentication code')
+  .regex(/^(\d{6}|[A-Za-z0-9]{5}[\s-]?[A-Za-z0-9]{5})$/, 'Invalid authentication code');
+
+/**
+ * SECURITY: Two-factor confirmation validation schema
+ * Used to finish setup, turn two-factor sign-in off and replace recovery codes
+ */
+export const twoFactorConfirmSchema = z.object({
+  code: twoFactorCodeSchema,
+});
+
+/**
+ * SECURITY: Reset password validation schema
+ * - The token is the base64url string from the emailed link
+ * - The new password follows the same rules as registration
+ */
+export const resetPasswordSchema = z.object({
+  token: z
+    .string()
+    .min(1, 'Reset token is required')
+    .max(100, 'Invalid reset token')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Invalid reset token'),
+  password: passwordSchema,
+});
+
 /**
  * SECURITY: Enrollment action validation schema
  */
 export const enrollmentSchema = z.object({
   classId: classIdSchema,
-  action: z.enum(['enroll', 'unenroll'], {
-    message: 'Action must be either "enroll" or "unenroll"'
+  action: z.enum(['enroll', 'unenroll', 'waitlist'], {
+    message: 'Action must be "enroll", "unenroll" or "waitlist"'
+  }),
+});
+
+/**
+ * SECURITY: Cart item validation schema
+ */
+export const cartItemSchema = z.object({
+  termId: termIdSchema,
+  classId: classIdSchema,
+});
+
+/**
+ * SECURITY: Cart submission validation schema
+ */
+export const cartSubmitSchema = z.object({
+  termId: termIdSchema,
+  mode: z.enum(['all-or-nothing', 'best-effort'], {
+    message: 'Mode must be "all-or-nothing" or "best-effort"'
+  }).default('all-or-nothing'),
+});
+
+/**
+ * SECURITY: Student category validation schema
+ */
+export const studentCategorySchema = z.enum(
+  [STUDENT_CATEGORIES.FULL_TIME, STUDENT_CATEGORIES.PART_TIME, STUDENT_CATEGORIES.GRADUATE],
+  { message: `Category must be one of: ${Object.values(STUDENT_CATEGORIES).join(', ')}` }
+);
+
+const creditsSchema = z
+  .number()
+  .int('Credits must be a whole number')
+  .min(0, 'Credits cannot be negative')
+  .max(MAX_OVERLOAD_CREDITS, `Credits cannot exceed ${MAX_OVERLOAD_CREDITS}`);
+
+/**
+ * SECURITY: Credit load validation schema
+ */
+export const creditLimitSchema = z
+  .object({
+    minCredits: creditsSchema,
+    maxCredits: creditsSchema.min(1, 'Maximum credits must be at least 1'),
+  })
+  .refine(limit => limit.minCredits <= limit.maxCredits, {
+    message: 'Minimum credits cannot be above maximum credits',
+  });
+
+const creditLimitsByCategorySchema = z
+  .object({
+    [STUDENT_CATEGORIES.FULL_TIME]: creditLimitSchema.optional(),
+    [STUDENT_CATEGORIES.PART_TIME]: creditLimitSchema.optional(),
+    [STUDENT_CATEGORIES.GRADUATE]: creditLimitSchema.optional(),
+  })
+  .strict();
+
+/**
+ * SECURITY: Term credit limits validation schema (for admin use)
+ */
+export const termCreditLimitsSchema = z.object({
+  creditLimits: creditLimitsByCategorySchema,
+});
+
+const termDateSchema = z
+  .string()
+  .datetime({ message: 'Term dates must be ISO 8601, e.g. 2027-01-11T00:00:00Z' });
+
+const termFields = {
+  name: z
+    .string()
+    .trim()
+    .min(3, 'Term name must be at least 3 characters')
+    .max(50, 'Term name must be less than 50 characters'),
+  startDate: termDateSchema,
+  endDate: termDateSchema,
+  registrationOpensAt: termDateSchema,
+  registrationClosesAt: termDateSchema,
+  addDropDeadline: termDateSchema,
+  withdrawalDeadline: termDateSchema,
+};
+
+/**
+ * SECURITY: Term creation validation schema (for admin use)
+ * The order of the dates is checked when the term is stored
+ */
+export const termSchema = z.object({
+  id: termIdSchema.regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Term ID must be lowercase words joined by hyphens, e.g. "fall-2027"'),
+  ...termFields,
+  creditLimits: creditLimitsByCategorySchema.optional(),
+});
+
+/**
+ * SECURITY: Term update validation schema (for admin use)
+ * Any subset of the name, dates and credit limits
+ */
+export const termUpdateSchema = z
+  .object({
+    ...termFields,
+    creditLimits: creditLimitsByCategorySchema,
+  })
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
+/**
+ * SECURITY: Credit overload request validation schema
+ */
+export const overloadRequestSchema = z.object({
+  termId: termIdSchema,
+  requestedCredits: creditsSchema.min(1, 'Requested credits must be at least 1'),
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Please give a reason of at least 10 characters')
+    .max(500, 'Reason must be less than 500 characters'),
+});
+
+/**
+ * SECURITY: Credit overload review validation schema (for advisors and admins)
+ */
+export const overloadReviewSchema = z.object({
+  email: emailSchema,
+  termId: termIdSchema,
+  decision: z.enum(['approved', 'denied'], {
+    message: 'Decision must be "approved" or "denied"'
+  }),
+  note: z
+    .string()
+    .trim()
+    .max(500, 'Note must be less than 500 characters')
+    .optional(),
+});
+
+/**
+ * SECURITY: Admin enrollment override validation schema
+ */
+export const enrollmentOverrideSchema = z.object({
+  email: emailSchema,
+  classId: classIdSchema,
+  action: z.enum(['enroll', 'drop'], {
+    message: 'Action must be "enroll" or "drop"'
   }),
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Please give a reason of at least 10 characters')
+    .max(500, 'Reason must be less than 500 characters'),
 });
 
+const auditTimestampSchema = z
+  .string()
+  .datetime({ message: 'Times must be ISO 8601, e.g. 2027-01-15T00:00:00Z' })
+  .optional();
+
+/**
+ * SECURITY: Audit log query validation schema (query string parameters)
+ *
+ * Give an entityId, a student email with a classId for one enrollment, or a
+ * classId alone for the class itself.
+ */
+export const auditQuerySchema = z
+  .object({
+    entityId: z.string().trim().min(1).max(200).optional(),
+    email: emailSchema.optional(),
+    classId: classIdSchema.optional(),
+    action: z.string().trim().max(50).optional(),
+    from: auditTimestampSchema,
+    to: auditTimestampSchema,
+  })
+  .refine(query => !!query.entityId !== !!(query.email || query.classId), {
+    message: 'Give either entityId, or classId with an optional email',
+  })
+  .refine(query => !query.email || query.classId, {
+    message: 'email requires classId',
+  });
+
+/**
+ * SECURITY: Admin request to lift a sign-in lock
+ */
+export const accountUnlockSchema = z.object({
+  email: emailSchema,
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Please give a reason of at least 10 characters')
+    .max(500, 'Reason must be less than 500 characters'),
+});
+
+/**
+ * SECURITY: Admin request to view the app as a student
+ */
+export const impersonationStartSchema = z.object({
+  email: emailSchema,
+  reason: z
+    .string()
+    .trim()
+    .min(10, 'Please give a reason of at least 10 characters')
+    .max(500, 'Reason must be less than 500 characters'),
+});
+
+/**
+ * SECURITY: Class roster query (query string parameters)
+ * A format downloads the roster as a file instead
+ */
+export const rosterQuerySchema = z.object({
+  format: z.enum(['csv', 'json'], { message: 'Format must be "csv" or "json"' }).optional(),
+});
+
+/**
+ * SECURITY: Sign-in session id, a random UUID
+ */
+export const sessionIdSchema = z.string().uuid('Invalid session ID');
+
+/**
+ * SECURITY: Course code validation schema, e.g. "CS 101"
+ */
+export const courseCodeSchema = z
+  .string()
+  .min(2, 'Course code must be at least 2 characters')
+  .max(20, 'Course code must be less than 20 characters')
+  .regex(/^[a-zA-Z0-9\s-]+$/, 'Course code can only contain letters, numbers, spaces, and hyphens');
+
+/**
+ * SECURITY: Prerequisite/co-requisite rule schema (a course or nested AND/OR groups)
+ */
+export const courseRequirementSchema: z.ZodType<CourseRequirement> = z.lazy(() =>
+  z.union([
+    z.object({ course: courseCodeSchema }),
+    z.object({ allOf: z.array(courseRequirementSchema).min(1).max(20) }),
+    z.object({ anyOf: z.array(courseRequirementSchema).min(1).max(20) }),
+  ])
+);
+
 /**
  * SECURITY: Class creation validation schema (for admin use)
  */
@@ -120,19 +448,63 @@ export const classSchema = z.object({
     .max(500, 'Description must be less than 500 characters'),
   
   instructor: nameSchema,
+
+  instructorEmail: emailSchema.optional(),
   
   schedule: z
     .string()
     .min(5, 'Schedule must be at least 5 characters')
-    .max(100, 'Schedule must be less than 100 characters'),
+    .max(100, 'Schedule must be less than 100 characters')
+    // Conflict checks need structured meetings, so the text must parse
+    .refine((schedule) => parseSchedule(schedule).length > 0, 'Schedule must look like "Mon/Wed 10:00-11:30 AM"'),
   
   capacity: z
     .number()
     .int('Capacity must be a whole number')
     .min(1, 'Capacity must be at least 1')
     .max(1000, 'Capacity cannot exceed 1000'),
+
+  semester: z
+    .string()
+    .min(3, 'Semester must be at least 3 characters')
+    .max(50, 'Semester must be less than 50 characters'),
+
+  termId: termIdSchema.optional(),
+
+  credits: z
+    .number()
+    .int('Credits must be a whole number')
+    .min(0, 'Credits cannot be negative')
+    .max(12, 'Credits cannot exceed 12'),
+
+  courseCode: courseCodeSchema.optional(),
+
+  prerequisites: z
+    .string()
+    .max(200, 'Prerequisites must be less than 200 characters')
+    .optional(),
+
+  prerequisiteRules: courseRequirementSchema.optional(),
+
+  corequisiteRules: courseRequirementSchema.optional(),
+
+  location: z
+    .string()
+    .min(1, 'Location is required')
+    .max(100, 'Location must be less than 100 characters'),
 });
 
+/**
+ * SECURITY: Class update validation schema (for admin use)
+ * Any subset of class fields, or a cancellation
+ */
+export const classUpdateSchema = classSchema
+  .partial()
+  .extend({
+    status: z.literal('cancelled', { message: 'Status can only be set to "cancelled"' }).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, 'No fields to update');
+
 /**
  * SECURITY: API response validation schema
  */
@@ -146,8 +518,25 @@ export const apiResponseSchema = z.object({
 // Type inference from schemas for TypeScript
 export type RegisterFormData = z.infer<typeof registerSchema>;
 export type LoginFormData = z.infer<typeof loginSchema>;
+export type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+export type ResendVerificationFormData = z.infer<typeof resendVerificationSchema>;
+export type TwoFactorConfirmFormData = z.infer<typeof twoFactorConfirmSchema>;
+export type ProfileUpdateFormData = z.infer<typeof profileUpdateSchema>;
+export type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
 export type EnrollmentFormData = z.infer<typeof enrollmentSchema>;
+export type CartItemFormData = z.infer<typeof cartItemSchema>;
+export type CartSubmitFormData = z.infer<typeof cartSubmitSchema>;
+export type OverloadRequestFormData = z.infer<typeof overloadRequestSchema>;
+export type OverloadReviewFormData = z.infer<typeof overloadReviewSchema>;
+export type EnrollmentOverrideFormData = z.infer<typeof enrollmentOverrideSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AccountUnlockData = z.infer<typeof accountUnlockSchema>;
+export type ImpersonationStartData = z.infer<typeof impersonationStartSchema>;
+export type RosterQuery = z.infer<typeof rosterQuerySchema>;
+export type TermFormData = z.infer<typeof termSchema>;
+export type TermUpdateFormData = z.infer<typeof termUpdateSchema>;
 export type ClassFormData = z.infer<typeof classSchema>;
+export type ClassUpdateFormData = z.infer<typeof classUpdateSchema>;
 export type ApiResponse<T = any> = z.infer<typeof apiResponseSchema> & { data?: T };
 
 /**
@@ -225,6 +614,34 @@ export const envSchema = z.object({
   AWS_SECRET_ACCESS_KEY: z.string().min(1, 'AWS_SECRET_ACCESS_KEY is required'),
   DYNAMODB_USERS_TABLE: z.string().min(1, 'DYNAMODB_USERS_TABLE is required'),
   DYNAMODB_ENROLLMENTS_TABLE: z.string().min(1, 'DYNAMODB_ENROLLMENTS_TABLE is required'),
+  DYNAMODB_CLASSES_TABLE: z.string().min(1, 'DYNAMODB_CLASSES_TABLE is required'),
+  DYNAMODB_COMPLETED_COURSES_TABLE: z.string().min(1, 'DYNAMODB_COMPLETED_COURSES_TABLE is required'),
+  DYNAMODB_TERMS_TABLE: z.string().min(1, 'DYNAMODB_TERMS_TABLE is required'),
+  DYNAMODB_AUDIT_TABLE: z.string().min(1, 'DYNAMODB_AUDIT_TABLE is required'),
+  DYNAMODB_CARTS_TABLE: z.string().min(1, 'DYNAMODB_CARTS_TABLE is required'),
+  DYNAMODB_OVERLOADS_TABLE: z.string().min(1, 'DYNAMODB_OVERLOADS_TABLE is required'),
+  DYNAMODB_PASSWORD_RESETS_TABLE: z.string().min(1, 'DYNAMODB_PASSWORD_RESETS_TABLE is required'),
+  DYNAMODB_RATE_LIMITS_TABLE: z.string().min(1, 'DYNAMODB_RATE_LIMITS_TABLE is required'),
+  DYNAMODB_SESSIONS_TABLE: z.string().min(1, 'DYNAMODB_SESSIONS_TABLE is required'),
+  RATE_LIMIT_STORE: z.enum(['memory', 'dynamodb']).optional(),
+  MAIL_TRANSPORT: z.enum(['console', 'file']).optional(),
+  MAIL_DIR: z.string().min(1).optional(),
+  MAIL_FROM: z.string().email('MAIL_FROM must be a valid email').optional(),
+  REGISTRATION_EMAIL_DOMAINS: z
+    .string()
+    .regex(
+      /^\s*[a-z0-9.-]+\.[a-z]{2,}\s*(,\s*[a-z0-9.-]+\.[a-z]{2,}\s*)*$/i,
+      'REGISTRATION_EMAIL_DOMAINS must be a comma-separated list of domains'
+    )
+    .optional(),
+  DYNAMODB_ENDPOINT: z.string().url('DYNAMODB_ENDPOINT must be a valid URL').optional(),
+  TWO_FACTOR_REQUIRED_ROLES: z
+    .string()
+    .regex(
+      /^\s*(student|instructor|advisor|admin)\s*(,\s*(student|instructor|advisor|admin)\s*)*$/,
+      'TWO_FACTOR_REQUIRED_ROLES must be a comma-separated list of roles'
+    )
+    .optional(),
   NEXTAUTH_SECRET: z.string().min(32, 'NEXTAUTH_SECRET must be at least 32 characters'),
   NEXTAUTH_URL: z.string().url('NEXTAUTH_URL must be a valid URL'),
 });
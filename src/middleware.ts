@@ -5,12 +5,22 @@
  * - Route-based authentication protection
  * - Automatic redirects for unauthenticated users
  * - Security headers for all responses
+ * - A request id on every request, for the audit log
+ * - Read-only access while an admin views as a student
  * - Rate limiting (basic implementation)
  */
 
 import { withAuth } from 'next-auth/middleware';
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import type { JWT } from 'next-auth/jwt';
+import type { UserRole } from '@/types';
+import {
+  IMPERSONATION_CONFIG,
+  REQUEST_ID_HEADER,
+  REQUEST_TARGET_HEADER,
+  SAFE_HTTP_METHODS
+} from '@/lib/constants';
 
 /**
  * SECURITY: Protected routes that require authentication
@@ -19,10 +29,35 @@ const protectedRoutes = [
   '/dashboard',
   '/classes',
   '/profile',
+  '/security',
   '/api/enrollments',
+  '/api/cart',
+  '/api/overloads',
   '/api/users',
 ];
 
+/**
+ * SECURITY: Routes restricted to specific roles (prefix match, first match wins)
+ */
+const roleRoutes: { prefix: string; roles: UserRole[] }[] = [
+  { prefix: '/admin', roles: ['admin'] },
+  { prefix: '/api/admin', roles: ['admin'] },
+  { prefix: '/instructor', roles: ['instructor', 'admin'] },
+  { prefix: '/api/instructor', roles: ['instructor', 'admin'] },
+  { prefix: '/advisor', roles: ['advisor', 'admin'] },
+  { prefix: '/api/advisor', roles: ['advisor', 'admin'] },
+];
+
+/**
+ * SECURITY: Routes open to users whose role requires two-factor sign-in
+ * before they have set it up
+ */
+const twoFactorSetupRoutes = [
+  '/security',
+  '/api/users/me/two-factor',
+  '/api/users/me/sessions',
+];
+
 /**
  * SECURITY: Public routes that don't require authentication
  */
@@ -30,6 +65,8 @@ const publicRoutes = [
   '/',
   '/login',
   '/register',
+  '/forgot-password',
+  '/reset-password',
   '/api/register',
   '/api/auth',
 ];
@@ -61,6 +98,34 @@ function isProtectedRoute(pathname: string): boolean {
   return protectedRoutes.some(route => pathname.startsWith(route));
 }
 
+/**
+ * SECURITY: Get the roles allowed on a route, or null if any signed-in user may access it
+ */
+function getAllowedRoles(pathname: string): UserRole[] | null {
+  const match = roleRoutes.find(route => pathname === route.prefix || pathname.startsWith(`${route.prefix}/`));
+  return match ? match.roles : null;
+}
+
+/**
+ * SECURITY: Check if the token's role may access a role-restricted route.
+ * While an admin views as a student, the student's role applies, except on
+ * the routes that stop viewing.
+ */
+function isRoleAllowed(token: JWT | null, pathname: string): boolean {
+  const allowedRoles = getAllowedRoles(pathname);
+
+  if (!allowedRoles) {
+    return true;
+  }
+
+  if (token?.impersonating && IMPERSONATION_CONFIG.WRITE_ROUTES.some(route => pathname.startsWith(route))) {
+    return !!token.role && allowedRoles.includes(token.role);
+  }
+
+  const role = token?.impersonating?.role ?? token?.role;
+  return !!role && allowedRoles.includes(role);
+}
+
 /**
  * SECURITY: Check if route is public
  */
@@ -74,9 +139,16 @@ function isPublicRoute(pathname: string): boolean {
 export default withAuth(
   function middleware(request: NextRequest) {
     const { pathname } = request.nextUrl;
+
+    // SECURITY: Assign the request id here, overwriting any the client sent
+    const requestId = crypto.randomUUID();
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set(REQUEST_ID_HEADER, requestId);
+    requestHeaders.set(REQUEST_TARGET_HEADER, `${request.method} ${pathname}`);
     
     // SECURITY: Create response with security headers
-    const response = NextResponse.next();
+    const response = NextResponse.next({ request: { headers: requestHeaders } });
+    response.headers.set(REQUEST_ID_HEADER, requestId);
     
     // SECURITY: Add security headers to all responses
     addSecurityHeaders(response);
@@ -84,8 +156,16 @@ export default withAuth(
     // SECURITY: Handle authentication logic
     const token = request.nextauth.token;
     
+    // SECURITY: Pages send a token holder to sign in only when the server
+    // refused the token's session (e.g. it was revoked). Show the sign-in page,
+    // which clears the stale cookie when it loads the session, rather than
+    // redirecting back to a page that sends them here again.
+    if (token && pathname === '/login' && request.nextUrl.searchParams.has('callbackUrl')) {
+      return response;
+    }
+
     // If user is authenticated and trying to access auth pages, redirect to dashboard
-    if (token && (pathname === '/login' || pathname === '/register')) {
+    if (token && (pathname === '/login' || pathname === '/register' || pathname === '/forgot-password')) {
       const dashboardUrl = new URL('/dashboard', request.url);
       return NextResponse.redirect(dashboardUrl);
     }
@@ -97,6 +177,53 @@ export default withAuth(
       loginUrl.searchParams.set('callbackUrl', pathname);
       return NextResponse.redirect(loginUrl);
     }
+
+    // SECURITY: Users who must use two-factor sign-in set it up before anything else
+    if (token?.twoFactorSetupRequired && !twoFactorSetupRoutes.some(route => pathname.startsWith(route))) {
+      if (pathname.startsWith('/api/')) {
+        return addSecurityHeaders(
+          NextResponse.json({ success: false, error: 'Two-factor setup required' }, { status: 403 })
+        );
+      }
+
+      return NextResponse.redirect(new URL('/security', request.url));
+    }
+
+    // SECURITY: Viewing as a student is read-only and hides their sign-in security
+    if (token?.impersonating) {
+      const blocked = IMPERSONATION_CONFIG.BLOCKED_ROUTES.some(route => pathname.startsWith(route));
+      const write = pathname.startsWith('/api/') &&
+        !SAFE_HTTP_METHODS.includes(request.method) &&
+        !IMPERSONATION_CONFIG.WRITE_ROUTES.some(route => pathname.startsWith(route));
+
+      if (write) {
+        console.warn(`Write refused while ${token.email} views as ${token.impersonating.email}: ${request.method} ${pathname} (${requestId})`);
+      }
+
+      if (blocked || write) {
+        if (pathname.startsWith('/api/')) {
+          return addSecurityHeaders(
+            NextResponse.json(
+              { success: false, error: 'Not available while viewing as another user' },
+              { status: 403 }
+            )
+          );
+        }
+
+        return NextResponse.redirect(new URL('/dashboard', request.url));
+      }
+    }
+
+    // SECURITY: Signed-in users without the required role are refused
+    if (token && !isRoleAllowed(token, pathname)) {
+      if (pathname.startsWith('/api/')) {
+        return addSecurityHeaders(
+          NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 })
+        );
+      }
+
+      return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
     
     return response;
   },
@@ -114,8 +241,8 @@ export default withAuth(
           return true;
         }
         
-        // SECURITY: Require token for protected routes
-        if (isProtectedRoute(pathname)) {
+        // SECURITY: Require token for protected and role-restricted routes
+        if (isProtectedRoute(pathname) || getAllowedRoles(pathname)) {
           return !!token;
         }
         
@@ -1,33 +1,203 @@
 // Core type definitions for the student registration system
 
+export type UserRole = 'student' | 'instructor' | 'advisor' | 'admin';
+
+// Decides which credit limits apply to a student
+export type StudentCategory = 'full-time' | 'part-time' | 'graduate';
+
+// Emails a user can opt out of; security messages are always sent
+export interface ContactPreferences {
+  classChanges: boolean; // Cancellations of classes they are in or waiting for, and waitlist seats they were passed over for
+  overloadDecisions: boolean; // Advisor decisions on credit overload requests
+}
+
 export interface User {
   email: string; // Primary key in DynamoDB
   name: string;
   studentId: string;
+  role: UserRole;
+  category?: StudentCategory; // Missing means full-time
+  contactPreferences?: Partial<ContactPreferences>; // Missing topics are on
   passwordHash: string;
+  passwordChangedAt?: string; // Reset links issued before this are void
+  emailVerifiedAt?: string; // Missing means the user cannot sign in yet
+  totpSecret?: string; // Encrypted TOTP secret; set while two-factor sign-in is on
+  totpPendingSecret?: string; // Encrypted secret waiting for its first code
+  totpEnabledAt?: string;
+  totpLastStep?: number; // Last accepted TOTP time step; codes cannot be replayed
+  recoveryCodeHashes?: string[]; // SHA-256 of unused one-time recovery codes
+  failedLoginCount?: number; // Recent failed sign-ins; cleared by a lock or a success
+  lastFailedLoginAt?: string;
+  lockedUntil?: string; // Sign-in is refused until then
+  lockoutCount?: number; // Locks since the last successful sign-in; each lasts longer
+  lastLoginAt?: string;
+  knownLoginIps?: string[]; // Recent sign-in addresses, newest last
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Single-use link for choosing a new password; only a hash of the token is stored
+export interface PasswordResetToken {
+  tokenHash: string; // Primary key; SHA-256 of the token sent by email
+  email: string;
+  createdAt: string;
+  expiresAt: string;
+  usedAt?: string; // Set when the token is redeemed
+}
+
+// One signed-in browser or device; the session token carries its id and is
+// refused once the session is revoked or expires
+export interface UserSession {
+  id: string; // Primary key
+  email: string; // EmailIndex partition key
+  createdAt: string; // Sign-in time; EmailIndex sort key
+  lastSeenAt: string;
+  expiresAt: string; // Moves forward with activity, like the session token
+  purgeAt: number; // Epoch seconds when the record is removed from the login history
+  ip: string;
+  userAgent: string;
+  device: string; // e.g. "Firefox on Windows"
+  revokedAt?: string; // Signed out, or revoked from another session
+  impersonating?: string; // Email of the student an admin is viewing as
+  impersonationStartedAt?: string;
+}
+
+export type Weekday = 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat' | 'Sun';
+
+// Structured meeting time, parsed from or stored alongside Class.schedule
+export interface MeetingPattern {
+  days: Weekday[];
+  startTime: string; // 24-hour "HH:MM"
+  endTime: string; // 24-hour "HH:MM"
+  startDate?: string; // ISO date the meetings begin (defaults to whole term)
+  endDate?: string; // ISO date the meetings end
+}
+
+// Credit hours a student may carry in one term
+export interface CreditLimit {
+  minCredits: number;
+  maxCredits: number;
+}
+
+// Academic term with its registration calendar (ISO 8601 timestamps)
+export interface Term {
+  id: string; // Primary key, e.g. "spring-2027"
+  name: string; // Display name, e.g. "Spring 2027"
+  startDate: string;
+  endDate: string;
+  registrationOpensAt: string;
+  registrationClosesAt: string;
+  addDropDeadline: string; // Drops after this are recorded as withdrawals
+  withdrawalDeadline: string; // No drops or withdrawals after this
+  creditLimits?: Partial<Record<StudentCategory, CreditLimit>>; // Overrides the defaults
   createdAt: string;
   updatedAt: string;
 }
 
+// Machine-readable course requirement: a single course code, or AND/OR groups
+export type CourseRequirement =
+  | { course: string }
+  | { allOf: CourseRequirement[] }
+  | { anyOf: CourseRequirement[] };
+
+export type ClassStatus = 'active' | 'cancelled';
+
 export interface Class {
   id: string; // Primary key
   name: string;
   description: string;
-  instructor: string;
-  schedule: string;
+  instructor: string; // Display name
+  instructorEmail?: string; // Account of the instructor; grants access to the roster
+  schedule: string; // Human-readable, e.g. "Mon/Wed 10:00-11:30 AM"
+  meetings?: MeetingPattern[];
+  semester: string; // Display name of the term
+  termId?: string; // Term whose registration calendar applies
+  credits: number;
+  courseCode?: string; // Catalog code, e.g. "CS 101"; referenced by requirements
+  prerequisites: string; // Display text
+  prerequisiteRules?: CourseRequirement; // Must be completed before enrolling
+  corequisiteRules?: CourseRequirement; // Completed or taken in the same term
+  location: string;
   capacity: number;
   currentEnrollment: number;
+  status?: ClassStatus; // Missing means active
+  cancelledAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface CompletedCourse {
+  email: string; // Partition key
+  courseCode: string; // Sort key
+  grade?: string;
+  term?: string;
+  completedAt: string;
+}
+
 export interface Enrollment {
-  id: string; // Primary key (composite: email-classId-timestamp)
+  id: string; // Primary key (composite: email-classId)
   email: string; // GSI partition key
   classId: string; // GSI sort key
   className: string;
   enrolledAt: string;
-  status: 'active' | 'dropped';
+  status: 'active' | 'dropped' | 'waitlisted' | 'withdrawn';
+  waitlistedAt?: string; // Queue order for waitlisted enrollments
+  promotedAt?: string; // Set when promoted from the waitlist
+  withdrawnAt?: string; // Set when dropped after the add/drop deadline
+  updatedAt?: string;
+  waitlistPosition?: number; // Computed on read, not stored
+}
+
+export type OverloadStatus = 'pending' | 'approved' | 'denied';
+
+// A student's request to carry more credits than their limit for a term
+export interface OverloadRequest {
+  email: string; // Partition key
+  termId: string; // Sort key
+  requestedCredits: number; // Maximum load the student is asking for
+  reason: string;
+  status: OverloadStatus; // StatusIndex partition key
+  reviewedBy?: string; // Advisor or admin who decided
+  reviewedAt?: string;
+  reviewNote?: string;
+  createdAt: string; // StatusIndex sort key
+  updatedAt: string;
+}
+
+// Classes a student has picked for a term but not yet registered for
+export interface Cart {
+  email: string; // Partition key
+  termId: string; // Sort key
+  classIds: string[]; // In the order they were added
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Append-only record of a change, written after the change succeeds
+export interface AuditEntry {
+  id: string; // Primary key
+  timestamp: string; // ISO 8601; EntityIndex sort key
+  actor: string; // Email of the user who made the change
+  action: string; // e.g. "enrollment.drop"
+  entityType: 'enrollment' | 'class' | 'user' | 'term' | 'overload' | 'ip';
+  entityId: string; // EntityIndex partition key
+  subject?: string; // Email of the user affected, when not the actor
+  requestId?: string; // API request that made the change
+  reason?: string; // Why an admin overrode the usual rules
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+// An enrollment as it was before and after one change
+export interface EnrollmentChange {
+  before: Enrollment;
+  after: Enrollment;
+}
+
+// A waitlisted student passed over for a free seat they can no longer take
+export interface SkippedPromotion {
+  enrollment: Enrollment;
+  reason: string;
 }
 
 // API Response types
@@ -53,5 +223,5 @@ export interface LoginFormData {
 
 export interface EnrollmentAction {
   classId: string;
-  action: 'enroll' | 'unenroll';
+  action: 'enroll' | 'unenroll' | 'waitlist';
 }
\ No newline at end of file